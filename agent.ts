@@ -1,46 +1,211 @@
-import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
 import { ToolRegistry, ToolCall, defaultToolRegistry } from './tools';
+import { ModelProvider, ModelResponse, createProviderFromEnv, streamResponse } from './providers';
+import { ApprovalHandler, PermissionPolicy } from './permissions';
+import { ContextManager } from './context';
+import { ModelRequestError, RetryOptions, RetryPolicy, classifyError } from './retry';
+import { BudgetExceeded, BudgetOptions, UsageReport, UsageTracker, describeBudgetExceeded } from './budget';
+import { AgentState, SessionRecord, SessionStore, SESSION_STATE_VERSION } from './sessions';
+import { AgentHooks, HookEvent, HookName, callHook } from './hooks';
+import { McpManager } from './mcp';
+import { ShellSession } from './shell';
+import { SubAgentManager, SubAgentTranscript } from './subagents';
+import { TodoItem, TodoStore, blockUnreachableTodos, countTodos, nextRunnableTodo, validateTodoList } from './todos';
 
 dotenv.config();
 
-interface Message {
+export interface TextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: any;
+}
+
+export interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+
+export interface Message {
   role: 'user' | 'assistant';
-  content: string | any[];
+  content: string | ContentBlock[];
 }
 
 export interface TodoWriteInput {
-  todos: {
-    content: string;
-    status: "pending" | "in_progress" | "completed";
-    priority: "high" | "medium" | "low";
-    id: string;
-  }[];
+  todos: TodoItem[];
+}
+
+export type AgentEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_use_start'; id: string; name: string }
+  | { type: 'tool_use_end'; id: string; name: string; input: any }
+  | { type: 'tool_result'; id: string; name: string; content: string; isError: boolean }
+  | { type: 'todo_update'; todos: TodoWriteInput['todos'] }
+  | { type: 'context_compacted'; tokensBefore: number; tokensAfter: number; truncatedResults: number; summarizedMessages: number }
+  | ({ type: 'budget_exceeded' } & BudgetExceeded)
+  | { type: 'retry'; attempt: number; delayMs: number; reason: string; error: string }
+  | { type: 'message'; text: string };
+
+export interface AgentOptions {
+  /** Maximum number of concurrency-safe tool calls run at once (default 4) */
+  maxToolConcurrency?: number;
+  /** Decides which tool calls may run (defaults asks before commands, HTTP requests and file writes) */
+  permissions?: PermissionPolicy;
+  /** Prompts a human for `ask` decisions; without one those calls are denied */
+  approve?: ApprovalHandler;
+  /** Persists history and todos after every change */
+  sessionStore?: SessionStore;
+  /** Session to write to (and resume from, if it exists) when `sessionStore` is set */
+  sessionId?: string;
+  /** Keeps history under a token budget by truncating and summarizing old turns */
+  contextManager?: ContextManager;
+  /** Sent as the system prompt with every model request */
+  systemPrompt?: string;
+  /** Start the next pending todo automatically when one finishes (default true) */
+  autoProgressTodos?: boolean;
+  /** Turn, tool call, token and cost limits per chat and per session */
+  budget?: BudgetOptions;
+  /** Backoff for retryable model API errors (default 3 retries) */
+  retry?: RetryOptions;
+  /** Observers for turns, tool calls, todo changes and errors; the agent prints nothing without them */
+  hooks?: AgentHooks;
+  /** MCP servers started before the first chat; their tools join the registry as `<server>__<tool>` */
+  mcp?: McpManager;
+  /** Loads the todo list from this file, if it exists, and saves every change to it */
+  todoStore?: TodoStore;
+  /** Adds the `delegate_task` tool, which hands subtasks to child agents with their own history */
+  subAgents?: SubAgentManager;
+  /** Backs the `shell` tool; by default each agent starts its own at the workspace root on first use */
+  shell?: ShellSession;
+}
+
+const DEFAULT_MAX_TOOL_CONCURRENCY = 4;
+
+const CANCELLED_NOTE = '[The user cancelled this request before it finished.]';
+
+/** Thrown by `chat()` and friends when their signal is aborted; history is left consistent */
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled by the user');
+    this.name = 'CancelledError';
+  }
 }
 
 class Agent {
-  private anthropic: Anthropic;
+  private provider: ModelProvider;
   private conversationHistory: Message[] = [];
   private toolRegistry: ToolRegistry;
   private todos: TodoWriteInput['todos'] = [];
+  private maxToolConcurrency: number;
+  private permissions: PermissionPolicy;
+  private approve?: ApprovalHandler;
+  private sessionStore?: SessionStore;
+  private sessionId?: string;
+  private contextManager: ContextManager;
+  private systemPrompt?: string;
+  private autoProgressTodos: boolean;
+  private usage: UsageTracker;
+  private budgetExceeded: BudgetExceeded | null = null;
+  private retryPolicy: RetryPolicy;
+  private signal?: AbortSignal;
+  private hooks: AgentHooks;
+  private mcp?: McpManager;
+  private mcpConnected = false;
+  private todoStore?: TodoStore;
+  private subAgents?: SubAgentManager;
+  private shell: ShellSession;
+  // Set when a human edits the todo list, so the next message tells the model
+  private todosEditedByUser = false;
 
-  constructor(toolRegistry: ToolRegistry = defaultToolRegistry) {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(
+    toolRegistry: ToolRegistry = defaultToolRegistry,
+    provider: ModelProvider = createProviderFromEnv(),
+    options: AgentOptions = {}
+  ) {
+    this.provider = provider;
     this.toolRegistry = toolRegistry;
+    this.maxToolConcurrency = Math.max(1, options.maxToolConcurrency ?? DEFAULT_MAX_TOOL_CONCURRENCY);
+    this.permissions = options.permissions || new PermissionPolicy();
+    this.approve = options.approve;
+    this.contextManager = options.contextManager || new ContextManager();
+    this.systemPrompt = options.systemPrompt;
+    this.autoProgressTodos = options.autoProgressTodos ?? true;
+    this.usage = new UsageTracker(options.budget);
+    this.retryPolicy = new RetryPolicy(options.retry);
+    this.hooks = options.hooks || {};
+    this.mcp = options.mcp;
+
+    if (options.subAgents) {
+      // Register on a copy so a shared registry does not gain another agent's delegate_task
+      this.subAgents = options.subAgents;
+      this.toolRegistry = toolRegistry.subset(toolRegistry.getAll().map(tool => tool.name));
+      this.toolRegistry.register(options.subAgents.createTool({
+        toolRegistry: this.toolRegistry,
+        provider: this.provider,
+        permissions: this.permissions,
+        usage: this.usage
+      }));
+    }
+
+    this.shell = options.shell || new ShellSession({
+      cwd: this.toolRegistry.workspace.root,
+      env: this.toolRegistry.commands.buildEnv()
+    });
+
+    if (options.sessionStore) {
+      if (options.sessionId && options.sessionStore.exists(options.sessionId)) {
+        this.importState(options.sessionStore.load(options.sessionId));
+      }
+      this.attachSession(options.sessionStore, options.sessionId);
+    }
+
+    // The todo file wins over a resumed session's list: it is the one edited outside the agent
+    if (options.todoStore) {
+      this.todoStore = options.todoStore;
+      if (this.todoStore.exists()) {
+        try {
+          this.todos = this.todoStore.load();
+          this.persist();
+        } catch (error) {
+          // A broken file should not stop the agent; the next todo_write replaces it
+          this.emit('onNotice', {
+            kind: 'todo_file_invalid',
+            message: `Ignoring the todo file: ${error instanceof Error ? error.message : String(error)}`
+          });
+        }
+      }
+    }
   }
 
-  private addMessage(role: 'user' | 'assistant', content: string | any[]): void {
-    this.conversationHistory.push({ role, content });
+  private addMessage(role: 'user' | 'assistant', content: string | ContentBlock[]): void {
+    const last = this.conversationHistory[this.conversationHistory.length - 1];
+
+    // Merge consecutive messages from the same role so history always alternates
+    if (last && last.role === role) {
+      last.content = [...toBlocks(last.content), ...toBlocks(content)];
+    } else {
+      this.conversationHistory.push({ role, content });
+    }
+
+    this.persist();
   }
 
-  private parseToolCalls(content: any[]): ToolCall[] {
+  private parseToolCalls(content: ContentBlock[]): ToolCall[] {
     const toolCalls: ToolCall[] = [];
     
     for (const block of content) {
       if (block.type === 'tool_use') {
         toolCalls.push({
+          id: block.id,
           name: block.name,
           input: block.input
         });
@@ -50,109 +215,398 @@ class Agent {
     return toolCalls;
   }
 
-  async chat(userInput: string): Promise<string> {
-    this.addMessage('user', userInput);
+  async chat(userInput: string, signal?: AbortSignal): Promise<string> {
+    this.startChat(signal);
+    return drain(this.runChat(userInput));
+  }
+
+  /**
+   * Streaming variant of `chat()`: yields text deltas, tool activity and todo
+   * updates as they happen, finishing with a `message` event.
+   */
+  async *chatStream(userInput: string, signal?: AbortSignal): AsyncGenerator<AgentEvent, string> {
+    this.startChat(signal);
+    const text = yield* this.runChat(userInput);
+    yield { type: 'message', text };
+    return text;
+  }
+
+  private async *streamModelResponse(): AsyncGenerator<AgentEvent, ModelResponse> {
+    const compaction = await this.retryPolicy.run(
+      () => this.contextManager.compact(this.conversationHistory, this.provider, this.signal),
+      undefined,
+      this.signal
+    );
+    if (compaction) {
+      this.conversationHistory = compaction.messages;
+      this.usage.recordModelUsage(this.provider.model, compaction.usage, false);
+      this.persist();
+      const { messages, usage, ...stats } = compaction;
+      yield { type: 'context_compacted', ...stats };
+    }
+
+    validateToolPairing(this.conversationHistory);
+
+    const request = {
+      ...(this.systemPrompt ? { system: this.systemPrompt } : {}),
+      messages: this.conversationHistory,
+      tools: this.toolRegistry.getToolDefinitions(),
+      signal: this.signal,
+    };
+
+    for (let failures = 1; ; failures++) {
+      let streamed = false;
+      try {
+        const events = this.provider.streamMessage
+          ? this.provider.streamMessage(request)
+          : streamResponse(await this.provider.createMessage(request));
+
+        for await (const event of events) {
+          switch (event.type) {
+            case 'text_delta':
+              streamed = true;
+              yield { type: 'text_delta', text: event.text };
+              break;
+            case 'tool_use_start':
+              streamed = true;
+              yield { type: 'tool_use_start', id: event.id, name: event.name };
+              break;
+            case 'tool_use_end':
+              streamed = true;
+              yield { type: 'tool_use_end', id: event.block.id, name: event.block.name, input: event.block.input };
+              break;
+            case 'response':
+              return event.response;
+          }
+        }
+
+        throw new Error(`Model provider '${this.provider.name}' ended the stream without a response`);
+      } catch (error) {
+        const classification = classifyError(error);
+        // Output that was already streamed cannot be taken back, so only retry before the first event
+        const delay = streamed ? null : this.retryPolicy.delayFor(classification, failures);
+        if (delay === null) {
+          throw new ModelRequestError(error, classification, failures);
+        }
+
+        this.emit('onError', { error: toError(error), retrying: true, attempt: failures, delayMs: delay });
+        yield {
+          type: 'retry',
+          attempt: failures,
+          delayMs: delay,
+          reason: classification.reason,
+          error: error instanceof Error ? error.message : String(error)
+        };
+        await this.retryPolicy.sleep(delay, this.signal);
+      }
+    }
+  }
+
+  /**
+   * Runs one user message to completion. If it fails, history is restored to
+   * how it was before; if it is cancelled, completed turns are kept and a note
+   * tells the model the request was abandoned.
+   */
+  private async *runChat(userInput: string): AsyncGenerator<AgentEvent, string> {
+    // Shallow copies suffice: addMessage replaces a message's content array rather than mutating it
+    const checkpoint = this.conversationHistory.map(message => ({ ...message }));
+
+    try {
+      return yield* this.runChatTurns(userInput);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      if (this.signal?.aborted) {
+        // Keep the work done so far; every tool_use is already answered at this point
+        this.conversationHistory = dropUnansweredToolUse(this.conversationHistory);
+        this.addMessage('user', [{ type: 'text', text: CANCELLED_NOTE }]);
+        throw new CancelledError();
+      }
+
+      this.conversationHistory = checkpoint;
+      this.persist();
+      this.emit('onError', { error: toError(error), retrying: false });
+      throw error;
+    }
+  }
+
+  private async *runChatTurns(userInput: string): AsyncGenerator<AgentEvent, string> {
+    await this.connectMcp();
+    if (this.todosEditedByUser) {
+      this.todosEditedByUser = false;
+      this.addMessage('user', [
+        { type: 'text', text: `[The user edited the todo list. Current todos: ${JSON.stringify(this.todos)}]` },
+        { type: 'text', text: userInput }
+      ]);
+    } else {
+      this.addMessage('user', userInput);
+    }
 
     while (true) {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        messages: this.conversationHistory,
-        tools: this.toolRegistry.getToolDefinitions(),
-      });
+      this.signal?.throwIfAborted();
+
+      // A todo sequence started from this chat may already have used up the budget
+      if (this.budgetExceeded) {
+        return describeBudgetExceeded(this.budgetExceeded);
+      }
+
+      const exceeded = this.usage.checkTurn();
+      if (exceeded) {
+        return yield* this.stopForBudget(exceeded);
+      }
+
+      const turn = this.usage.getChatUsage().turns + 1;
+      const startedAt = Date.now();
+      this.emit('onTurnStart', { turn, model: this.provider.model, messageCount: this.conversationHistory.length });
+
+      const response = yield* this.streamModelResponse();
+      this.usage.recordModelUsage(this.provider.model, response.usage);
 
       const content = response.content;
       this.addMessage('assistant', content);
 
       // Check if Claude wants to use tools
       const toolCalls = this.parseToolCalls(content);
+      this.emit('onModelResponse', {
+        turn,
+        model: this.provider.model,
+        stopReason: response.stopReason,
+        usage: response.usage,
+        toolCalls: toolCalls.length,
+        content,
+        durationMs: Date.now() - startedAt
+      });
       
       if (toolCalls.length === 0) {
         // No tools used, return the text response
-        const textContent = content.find(block => block.type === 'text');
+        const textContent = content.find((block): block is TextBlock => block.type === 'text');
         return textContent ? textContent.text : 'No text response';
       }
 
       // Execute tools and add results to conversation
-      const toolResults: any[] = [];
+      const toolResults: ToolResultBlock[] = [];
+      // Follow-up prompts ride along in the tool result message so every tool_use stays answered
+      let followUpPrompt: string | null = null;
+      let runSequence = false;
+
+      // Calls beyond the tool call budget are answered with an error instead of running
+      const allowedCalls = toolCalls.slice(0, this.usage.remainingToolCalls().remaining);
+      this.usage.recordToolCalls(allowedCalls.length);
       
-      for (const toolCall of toolCalls) {
+      for (let index = 0; index < allowedCalls.length; index++) {
+        const toolCall = allowedCalls[index];
+
+        // Run consecutive concurrency-safe calls together; results keep the original order
+        const batch = this.collectConcurrentBatch(allowedCalls, index);
+        if (batch.length > 1) {
+          // Ask for approvals one at a time before anything in the batch starts
+          const denials = new Map<string, ToolResultBlock>();
+          for (const call of batch) {
+            const denial = await this.checkPermission(call);
+            if (denial) denials.set(call.id, denial);
+          }
+          const results = await mapWithConcurrency(batch, this.maxToolConcurrency,
+            call => this.observeTool(call, async () => denials.get(call.id) ?? await this.executeTool(call)));
+          for (let offset = 0; offset < batch.length; offset++) {
+            toolResults.push(results[offset]);
+            yield toolResultEvent(batch[offset], results[offset]);
+          }
+          index += batch.length - 1;
+          continue;
+        }
+
+        let toolResult: ToolResultBlock;
+        const toolStartedAt = Date.now();
+        this.emit('onToolStart', { id: toolCall.id, name: toolCall.name, input: toolCall.input });
         try {
           // Special handling for todo_write tool
           if (toolCall.name === 'todo_write') {
-            const oldTodos = [...this.todos];
-            this.todos = toolCall.input.todos;
+            const input: TodoWriteInput = this.toolRegistry.validate(toolCall);
+            const issues = validateTodoList(input.todos);
+            if (issues.length > 0) {
+              throw new Error(`Invalid todo list:\n${issues.map(issue => `- ${issue}`).join('\n')}`);
+            }
             
             // Check if this is a significant change to show progress
-            const hasStatusChanges = this.hasSignificantTodoChanges(oldTodos, this.todos);
+            const hasStatusChanges = this.hasSignificantTodoChanges(this.todos, input.todos);
+            this.setTodos(input.todos, 'update', hasStatusChanges);
+            yield { type: 'todo_update', todos: this.getTodos() };
             
             // Execute the tool to get formatted response
             const result = await this.toolRegistry.execute(toolCall);
             
             // Include todo state in the tool result for Claude context
-            const enhancedResult = `${result}\n\nInternal todo state updated: ${JSON.stringify(this.todos)}`;
+            toolResult = buildToolResult(toolCall, `${result}\n\nInternal todo state updated: ${JSON.stringify(this.todos)}`);
             
-            const toolUseBlock = content.find(block => block.type === 'tool_use' && block.name === toolCall.name) as any;
-            toolResults.push({
-              type: 'tool_result',
-              tool_use_id: toolUseBlock?.id,
-              content: enhancedResult
-            });
-            
-            // Show progress if significant changes occurred
             if (hasStatusChanges) {
-              this.showTodoProgress();
-              
               // Check if we should auto-progress to next todo
-              const nextTodoPrompt = await this.autoProgressToNextTodo();
+              const nextTodoPrompt = this.autoProgressTodos ? await this.autoProgressToNextTodo() : null;
               if (nextTodoPrompt) {
-                // Add the auto-progression prompt to continue the conversation
-                this.addMessage('user', nextTodoPrompt);
-                continue; // Continue the loop to process the next todo
+                yield { type: 'todo_update', todos: this.getTodos() };
+                followUpPrompt = nextTodoPrompt;
               }
             }
           } else if (toolCall.name === 'execute_sequence') {
-            // Special handling for execute_sequence tool
-            const confirm = toolCall.input.confirm !== false;
-            
-            if (confirm) {
-              const sequenceResult = await this.executeTodoSequence();
-              const toolUseBlock = content.find(block => block.type === 'tool_use' && block.name === toolCall.name) as any;
-              toolResults.push({
-                type: 'tool_result',
-                tool_use_id: toolUseBlock?.id,
-                content: sequenceResult
-              });
-            } else {
-              const toolUseBlock = content.find(block => block.type === 'tool_use' && block.name === toolCall.name) as any;
-              toolResults.push({
-                type: 'tool_result',
-                tool_use_id: toolUseBlock?.id,
-                content: "Todo sequence execution cancelled."
-              });
-            }
+            // Special handling for execute_sequence tool: the sequence runs its own
+            // turns, so it starts only once this turn's tool results are recorded
+            runSequence = this.toolRegistry.validate(toolCall).confirm !== false;
+            toolResult = buildToolResult(toolCall, runSequence
+              ? 'Todo sequence execution started. Results will follow once all pending todos have been worked through.'
+              : 'Todo sequence execution cancelled.');
           } else {
-            const result = await this.toolRegistry.execute(toolCall);
-            const toolUseBlock = content.find(block => block.type === 'tool_use' && block.name === toolCall.name) as any;
-            toolResults.push({
-              type: 'tool_result',
-              tool_use_id: toolUseBlock?.id,
-              content: result
-            });
+            toolResult = await this.checkPermission(toolCall) ?? await this.executeTool(toolCall);
           }
         } catch (error) {
-          const toolUseBlock = content.find(block => block.type === 'tool_use' && block.name === toolCall.name) as any;
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: toolUseBlock?.id,
-            content: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            is_error: true
-          });
+          toolResult = buildToolResult(toolCall, `Error: ${error instanceof Error ? error.message : String(error)}`, true);
         }
+
+        this.emitToolEnd(toolCall, toolResult, toolStartedAt);
+        toolResults.push(toolResult);
+        yield toolResultEvent(toolCall, toolResult);
+      }
+
+      const toolBudget = this.usage.remainingToolCalls().exceeded;
+      const refusedCalls = toolCalls.slice(allowedCalls.length);
+      for (const toolCall of refusedCalls) {
+        const toolResult = buildToolResult(toolCall, `Error: ${describeBudgetExceeded(toolBudget!)} This call was not run.`, true);
+        toolResults.push(toolResult);
+        yield toolResultEvent(toolCall, toolResult);
       }
 
       // Add tool results to conversation
-      this.addMessage('user', toolResults);
+      assertToolResultsMatch(toolCalls, toolResults);
+      this.addMessage('user', followUpPrompt ? [...toolResults, { type: 'text', text: followUpPrompt }] : toolResults);
+
+      if (refusedCalls.length > 0) {
+        return yield* this.stopForBudget(toolBudget!);
+      }
+
+      if (runSequence) {
+        const sequenceResult = yield* this.runTodoSequence();
+        this.addMessage('user', sequenceResult);
+      }
+    }
+  }
+
+  /** Starts the MCP servers once; servers that fail are reported and their tools left out */
+  private async connectMcp(): Promise<void> {
+    if (!this.mcp || this.mcpConnected) return;
+    this.mcpConnected = true;
+
+    const { tools, failures } = await this.mcp.connect(this.toolRegistry);
+    // Nothing is known about what MCP tools do, so they ask unless a rule or the policy says otherwise
+    for (const name of tools) {
+      this.permissions.setToolDefault(name, 'ask');
+    }
+    for (const { server, tool, error } of failures) {
+      this.emit('onNotice', {
+        kind: 'mcp_unavailable',
+        message: tool
+          ? `MCP tool '${tool}' of server '${server}' was left out: ${error.message}`
+          : `MCP server '${server}' is unavailable: ${error.message}`
+      });
+    }
+  }
+
+  /** Kills the agent's shell, if it started one; the next `shell` call starts a fresh one */
+  closeShell(): void {
+    this.shell.close();
+  }
+
+  /** Shuts down the agent's MCP servers and shell */
+  async close(): Promise<void> {
+    this.closeShell();
+    await this.mcp?.close();
+  }
+
+  private startChat(signal?: AbortSignal): void {
+    this.usage.startChat();
+    this.budgetExceeded = null;
+    this.signal = signal;
+  }
+
+  /** Ends the loop between turns, leaving every tool_use answered */
+  private async *stopForBudget(exceeded: BudgetExceeded): AsyncGenerator<AgentEvent, string> {
+    this.budgetExceeded = exceeded;
+    yield { type: 'budget_exceeded', ...exceeded };
+    return describeBudgetExceeded(exceeded);
+  }
+
+  private emit<K extends HookName>(name: K, event: HookEvent<K>): void {
+    callHook(this.hooks, name, event);
+  }
+
+  /** Wraps a tool call with `onToolStart`/`onToolEnd` */
+  private async observeTool(toolCall: ToolCall, run: () => Promise<ToolResultBlock>): Promise<ToolResultBlock> {
+    const startedAt = Date.now();
+    this.emit('onToolStart', { id: toolCall.id, name: toolCall.name, input: toolCall.input });
+    const result = await run();
+    this.emitToolEnd(toolCall, result, startedAt);
+    return result;
+  }
+
+  private emitToolEnd(toolCall: ToolCall, result: ToolResultBlock, startedAt: number): void {
+    this.emit('onToolEnd', {
+      id: toolCall.id,
+      name: toolCall.name,
+      content: result.content,
+      isError: result.is_error === true,
+      durationMs: Date.now() - startedAt
+    });
+  }
+
+  private collectConcurrentBatch(toolCalls: ToolCall[], start: number): ToolCall[] {
+    const batch: ToolCall[] = [];
+    for (let index = start; index < toolCalls.length && this.toolRegistry.isConcurrencySafe(toolCalls[index].name, toolCalls[index].input ?? {}); index++) {
+      batch.push(toolCalls[index]);
+    }
+    return batch;
+  }
+
+  /** Returns an error result if the call may not run, or null if it is allowed */
+  private async checkPermission(toolCall: ToolCall): Promise<ToolResultBlock | null> {
+    if (this.signal?.aborted) {
+      return cancelledResult(toolCall);
+    }
+
+    const check = this.permissions.evaluate(toolCall);
+    const denied = (message: string) => buildToolResult(toolCall, `Error: Permission denied: ${message}`, true);
+
+    if (check.decision === 'allow') {
+      return null;
+    }
+
+    if (check.decision === 'deny') {
+      return denied(`${toolCall.name} (${check.subject}) is blocked by ${check.reason}. Do not retry it; find another approach or ask the user.`);
+    }
+
+    if (!this.approve) {
+      return denied(`${toolCall.name} (${check.subject}) requires approval and no approver is available.`);
+    }
+
+    const response = await this.approve({ toolCall, subject: check.subject, reason: check.reason });
+    if (response === 'always') {
+      // Only this exact call: a `*` in an approved command is not a wildcard
+      this.permissions.addRule({ tool: toolCall.name, pattern: check.subject, exact: true, decision: 'allow' });
+    }
+    if (response === 'deny') {
+      return denied(`the user declined to run ${toolCall.name} (${check.subject}).`);
+    }
+
+    return null;
+  }
+
+  private async executeTool(toolCall: ToolCall): Promise<ToolResultBlock> {
+    if (this.signal?.aborted) {
+      return cancelledResult(toolCall);
+    }
+
+    try {
+      const outcome = await this.toolRegistry.run(toolCall, this.signal, this.shell);
+      return buildToolResult(toolCall, outcome.content, outcome.isError);
+    } catch (error) {
+      return buildToolResult(toolCall, `Error: ${error instanceof Error ? error.message : String(error)}`, true);
     }
   }
 
@@ -160,19 +614,117 @@ class Agent {
     return [...this.conversationHistory];
   }
 
+  getTodos(): TodoWriteInput['todos'] {
+    return [...this.todos];
+  }
+
+  /**
+   * Replaces the todo list on a human's behalf, e.g. from the `/todos` REPL
+   * commands. The model is told about the edit with the next message.
+   */
+  updateTodos(todos: TodoItem[]): void {
+    const issues = validateTodoList(todos);
+    if (issues.length > 0) {
+      throw new Error(`Invalid todo list: ${issues.join('; ')}`);
+    }
+    this.setTodos(todos, 'edit', this.hasSignificantTodoChanges(this.todos, todos));
+    this.todosEditedByUser = true;
+  }
+
+  private setTodos(todos: TodoItem[], reason: 'update' | 'auto_start' | 'edit' | 'sequence', significant: boolean): void {
+    const previous = this.todos;
+    this.todos = todos;
+    this.persist();
+    this.todoStore?.save(this.todos);
+    this.emit('onTodoChange', { todos: this.getTodos(), previous: [...previous], reason, significant });
+  }
+
+  /** Transcripts of the sub-agents `delegate_task` started, oldest first */
+  getSubAgentTranscripts(): SubAgentTranscript[] {
+    return this.subAgents?.getTranscripts() ?? [];
+  }
+
+  /** Usage of the current (or last) chat and of the whole session, with the configured limits */
+  getUsage(): UsageReport {
+    return {
+      chat: this.usage.getChatUsage(),
+      session: this.usage.getSessionUsage(),
+      limits: this.usage.limits,
+      exceeded: this.budgetExceeded
+    };
+  }
+
+  getSystemPrompt(): string | undefined {
+    return this.systemPrompt;
+  }
+
   clearHistory(): void {
     this.conversationHistory = [];
+    this.persist();
+  }
+
+  exportState(): AgentState {
+    return JSON.parse(JSON.stringify({
+      version: SESSION_STATE_VERSION,
+      history: this.conversationHistory,
+      todos: this.todos,
+      usage: this.usage.getSessionUsage()
+    }));
+  }
+
+  importState(state: AgentState): void {
+    const copy: AgentState = JSON.parse(JSON.stringify(state));
+    this.conversationHistory = dropUnansweredToolUse(copy.history);
+    this.todos = copy.todos;
+    if (copy.usage) {
+      this.usage.restoreSession(copy.usage);
+    }
+  }
+
+  /** Starts writing every change to `store` under `sessionId` (a new id if omitted) */
+  attachSession(store: SessionStore, sessionId: string = store.createId()): string {
+    this.sessionStore = store;
+    this.sessionId = sessionId;
+    this.persist();
+    return sessionId;
+  }
+
+  /** Replaces the current state with a stored session and keeps saving to it */
+  resumeSession(sessionId: string): SessionRecord {
+    if (!this.sessionStore) {
+      throw new Error('No session store configured');
+    }
+    const record = this.sessionStore.load(sessionId);
+    this.importState(record);
+    this.attachSession(this.sessionStore, sessionId);
+    return record;
+  }
+
+  saveSession(): SessionRecord {
+    if (!this.sessionStore || !this.sessionId) {
+      throw new Error('No session store configured');
+    }
+    return this.sessionStore.save(this.sessionId, this.exportState());
+  }
+
+  getSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
+  private persist(): void {
+    // Empty sessions are only written once they exist, e.g. after a rollback or clearHistory
+    if (this.sessionStore && this.sessionId && (this.conversationHistory.length > 0 || this.sessionStore.exists(this.sessionId))) {
+      this.sessionStore.save(this.sessionId, this.exportState());
+    }
   }
 
   private hasSignificantTodoChanges(oldTodos: TodoWriteInput['todos'], newTodos: TodoWriteInput['todos']): boolean {
-    // Check if any todo status changed to/from completed or in_progress
+    // Any status change counts, except adding a new pending item
     const oldStatusMap = new Map(oldTodos.map(todo => [todo.id, todo.status]));
     
     for (const newTodo of newTodos) {
       const oldStatus = oldStatusMap.get(newTodo.id);
-      if (oldStatus !== newTodo.status && 
-          (newTodo.status === 'completed' || newTodo.status === 'in_progress' ||
-           oldStatus === 'completed' || oldStatus === 'in_progress')) {
+      if (oldStatus !== newTodo.status && !(oldStatus === undefined && newTodo.status === 'pending')) {
         return true;
       }
     }
@@ -180,8 +732,9 @@ class Agent {
     return false;
   }
 
+  /** The pending todo whose dependencies are all completed, highest priority first */
   private getNextPendingTodo(): TodoWriteInput['todos'][0] | null {
-    return this.todos.find(todo => todo.status === 'pending') || null;
+    return nextRunnableTodo(this.todos);
   }
 
   private getCurrentInProgressTodo(): TodoWriteInput['todos'][0] | null {
@@ -194,47 +747,32 @@ class Agent {
     
     // If no task in progress and there's a pending task, start it
     if (!inProgress && nextPending) {
-      console.log(`\n🔄 Auto-starting next todo: ${nextPending.content}`);
-      
       // Update todo status to in_progress
       const updatedTodos = this.todos.map(todo => 
         todo.id === nextPending.id 
           ? { ...todo, status: 'in_progress' as const }
           : todo
       );
-      this.todos = updatedTodos;
-      
-      // Create a focused prompt for this specific todo
-      const todoPrompt = `Please work on this specific todo item: "${nextPending.content}". Focus only on completing this task. When done, mark it as completed and move to the next pending item.`;
+      this.setTodos(updatedTodos, 'auto_start', true);
       
-      return todoPrompt;
+      return this.buildTodoPrompt(nextPending);
     }
     
     return null;
   }
 
-  private showTodoProgress(): void {
-    const completed = this.todos.filter(todo => todo.status === 'completed').length;
-    const total = this.todos.length;
-    
-    if (total > 0) {
-      console.log(`\n📊 Progress: ${completed}/${total} todos completed (${Math.round(completed/total*100)}%)`);
-      
-      // Show recently completed or started items
-      const recentlyCompleted = this.todos.filter(todo => todo.status === 'completed').slice(-2);
-      const inProgress = this.todos.filter(todo => todo.status === 'in_progress');
-      
-      if (recentlyCompleted.length > 0) {
-        console.log('✅ Recently completed:');
-        recentlyCompleted.forEach(todo => console.log(`   • ${todo.content}`));
-      }
-      
-      if (inProgress.length > 0) {
-        console.log('🔄 Currently working on:');
-        inProgress.forEach(todo => console.log(`   • ${todo.content}`));
-      }
-      console.log('');
+  /** A focused prompt for one todo, with its notes and what its dependencies produced */
+  private buildTodoPrompt(todo: TodoItem): string {
+    let prompt = `Please work on this specific todo item: "${todo.content}". Focus only on completing this task. When done, mark it as completed and move to the next pending item.`;
+    if (todo.notes) {
+      prompt += `\n\nNotes: ${todo.notes}`;
     }
+    const dependencies = this.todos.filter(item => todo.dependsOn?.includes(item.id) && item.result);
+    if (dependencies.length > 0) {
+      prompt += `\n\nResults of the items it depends on:\n${dependencies.map(item => `- ${item.content}: ${item.result}`).join('\n')}`;
+    }
+    prompt += `\n\nRecord the outcome in the item's result field. If it cannot be done, mark it failed (or blocked) and say why in result.`;
+    return prompt;
   }
 
   private analyzeTaskComplexity(userInput: string): boolean {
@@ -254,55 +792,210 @@ class Agent {
     return complexityIndicators.some(pattern => pattern.test(userInput));
   }
 
-  async processMessage(userInput: string): Promise<string> {
+  async processMessage(userInput: string, signal?: AbortSignal): Promise<string> {
+    return drain(this.processMessageStream(userInput, signal));
+  }
+
+  async *processMessageStream(userInput: string, signal?: AbortSignal): AsyncGenerator<AgentEvent, string> {
     // Check for special commands
     if (userInput.toLowerCase().trim() === '/execute-todos') {
-      return this.executeTodoSequence();
+      this.startChat(signal);
+      const result = yield* this.runTodoSequence();
+      yield { type: 'text_delta', text: result };
+      yield { type: 'message', text: result };
+      return result;
     }
     
     // Analyze if task might benefit from todos
     if (this.todos.length === 0 && this.analyzeTaskComplexity(userInput)) {
-      const suggestion = "\n💡 This looks like a complex task that might benefit from a todo list. I can create one to track progress if you'd like.";
-      console.log(suggestion);
+      this.emit('onNotice', {
+        kind: 'todo_suggestion',
+        message: "This looks like a complex task that might benefit from a todo list. I can create one to track progress if you'd like."
+      });
     }
     
-    return this.chat(userInput);
+    return yield* this.chatStream(userInput, signal);
+  }
+
+  async executeTodoSequence(signal?: AbortSignal): Promise<string> {
+    this.startChat(signal);
+    return drain(this.runTodoSequence());
   }
 
-  async executeTodoSequence(): Promise<string> {
-    const nextTodo = this.getNextPendingTodo();
-    if (!nextTodo) {
+  /**
+   * Works through the todo list in dependency and priority order. An item the
+   * agent leaves in progress is marked failed, and items that depend on a
+   * failed, cancelled or blocked one are marked blocked; the rest still run.
+   */
+  private async *runTodoSequence(): AsyncGenerator<AgentEvent, string> {
+    this.blockUnreachable();
+    if (!this.getCurrentInProgressTodo() && !this.getNextPendingTodo()) {
       return "No pending todos to execute.";
     }
 
-    console.log(`\n🚀 Starting todo execution sequence...`);
+    this.emit('onNotice', { kind: 'sequence_start', message: 'Starting todo execution sequence...' });
     
-    let result = "";
-    while (this.getNextPendingTodo()) {
-      const currentTodo = this.getNextPendingTodo();
-      if (!currentTodo) break;
-      
-      console.log(`\n🔄 Working on: ${currentTodo.content}`);
+    while (true) {
+      // Finish an item that is already under way before starting another
+      let currentTodo = this.getCurrentInProgressTodo();
+      const todoPrompt = currentTodo ? this.buildTodoPrompt(currentTodo) : await this.autoProgressToNextTodo();
+      currentTodo = this.getCurrentInProgressTodo();
+      if (!currentTodo || !todoPrompt) break;
       
-      // Auto-start the next todo
-      const todoPrompt = await this.autoProgressToNextTodo();
-      if (todoPrompt) {
-        const response = await this.chat(todoPrompt);
-        result += response + "\n\n";
+      this.emit('onNotice', { kind: 'sequence_todo', message: `Working on: ${currentTodo.content}` });
+      yield { type: 'todo_update', todos: this.getTodos() };
+      const response = yield* this.runChat(todoPrompt);
+
+      if (this.budgetExceeded) {
+        return describeBudgetExceeded(this.budgetExceeded);
       }
       
-      // Safety check to prevent infinite loops
-      const stillInProgress = this.getCurrentInProgressTodo();
-      if (stillInProgress && stillInProgress.id === currentTodo.id) {
-        console.log(`⚠️  Todo "${currentTodo.content}" appears stuck. Manual intervention may be needed.`);
-        break;
+      // Not finished after a full turn: record it instead of retrying forever or giving up on the list
+      const after = this.todos.find(todo => todo.id === currentTodo!.id);
+      if (after && after.status === 'in_progress') {
+        this.emit('onNotice', { kind: 'todo_stuck', message: `Todo "${after.content}" was not completed; marking it failed and moving on.` });
+        const reason = `Not completed: the agent stopped with "${truncate(response, 200)}"`;
+        this.setTodos(this.todos.map(todo => todo.id === after.id ? { ...todo, status: 'failed' as const, result: todo.result || reason } : todo), 'sequence', true);
+        yield { type: 'todo_update', todos: this.getTodos() };
       }
+      this.blockUnreachable();
     }
     
-    const completed = this.todos.filter(t => t.status === 'completed').length;
+    const counts = countTodos(this.todos);
     const total = this.todos.length;
+    const problems = (['failed', 'blocked'] as const).filter(status => counts[status] > 0).map(status => ` ${counts[status]} ${status}.`).join('');
     
-    return `Todo sequence completed! ${completed}/${total} todos finished.`;
+    return `Todo sequence completed! ${counts.completed}/${total} todos finished.${problems}`;
+  }
+
+  private blockUnreachable(): void {
+    const updated = blockUnreachableTodos(this.todos);
+    if (updated.some((todo, index) => todo !== this.todos[index])) {
+      this.setTodos(updated, 'sequence', true);
+    }
+  }
+}
+
+/** A session saved mid-turn can end with tool calls that never got results; drop that turn */
+function dropUnansweredToolUse(history: Message[]): Message[] {
+  const last = history[history.length - 1];
+  if (last && last.role === 'assistant' && toBlocks(last.content).some(block => block.type === 'tool_use')) {
+    return history.slice(0, -1);
+  }
+  return history;
+}
+
+function toBlocks(content: string | ContentBlock[]): ContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+function buildToolResult(toolCall: ToolCall, content: string, isError = false): ToolResultBlock {
+  return {
+    type: 'tool_result',
+    tool_use_id: toolCall.id,
+    content,
+    ...(isError ? { is_error: true } : {})
+  };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function cancelledResult(toolCall: ToolCall): ToolResultBlock {
+  return buildToolResult(toolCall, 'Error: Cancelled by the user before this call ran.', true);
+}
+
+function assertToolResultsMatch(toolCalls: ToolCall[], toolResults: ToolResultBlock[]): void {
+  const expected = toolCalls.map(toolCall => toolCall.id).sort();
+  const actual = toolResults.map(result => result.tool_use_id).sort();
+  if (expected.join('\u0000') !== actual.join('\u0000')) {
+    throw new Error(`Tool results [${actual.join(', ')}] do not match tool calls [${expected.join(', ')}]`);
+  }
+}
+
+/**
+ * Checks that every assistant `tool_use` is answered by exactly one `tool_result`
+ * in the following user message, and that no result refers to an unknown call.
+ * Both vendors reject requests that break this pairing.
+ */
+export function validateToolPairing(messages: Message[]): void {
+  messages.forEach((message, index) => {
+    const blocks = toBlocks(message.content);
+
+    if (message.role === 'assistant') {
+      const toolUseIds = blocks.filter((block): block is ToolUseBlock => block.type === 'tool_use').map(block => block.id);
+      if (toolUseIds.length === 0) return;
+
+      if (new Set(toolUseIds).size !== toolUseIds.length) {
+        throw new Error(`Message ${index} contains duplicate tool_use ids`);
+      }
+
+      const next = messages[index + 1];
+      if (!next || next.role !== 'user') {
+        throw new Error(`Message ${index} has tool_use blocks without a following tool_result message`);
+      }
+
+      const resultIds = toBlocks(next.content)
+        .filter((block): block is ToolResultBlock => block.type === 'tool_result')
+        .map(block => block.tool_use_id);
+
+      for (const id of toolUseIds) {
+        const count = resultIds.filter(resultId => resultId === id).length;
+        if (count !== 1) {
+          throw new Error(`tool_use '${id}' in message ${index} has ${count} tool_result blocks, expected exactly 1`);
+        }
+      }
+    } else {
+      const previous = messages[index - 1];
+      const knownIds = new Set(previous && previous.role === 'assistant'
+        ? toBlocks(previous.content).filter((block): block is ToolUseBlock => block.type === 'tool_use').map(block => block.id)
+        : []);
+
+      for (const block of blocks) {
+        if (block.type === 'tool_result' && !knownIds.has(block.tool_use_id)) {
+          throw new Error(`tool_result in message ${index} refers to unknown tool_use '${block.tool_use_id}'`);
+        }
+      }
+    }
+  });
+}
+
+function toolResultEvent(toolCall: ToolCall, block: ToolResultBlock): AgentEvent {
+  return {
+    type: 'tool_result',
+    id: block.tool_use_id,
+    name: toolCall.name,
+    content: block.content,
+    isError: block.is_error === true
+  };
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+async function drain<T>(events: AsyncGenerator<AgentEvent, T>): Promise<T> {
+  while (true) {
+    const next = await events.next();
+    if (next.done) {
+      return next.value;
+    }
   }
 }
 
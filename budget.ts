@@ -0,0 +1,183 @@
+import { ModelUsage } from './providers';
+
+export interface BudgetLimits {
+  /** Model requests */
+  maxTurns?: number;
+  maxToolCalls?: number;
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  /** Estimated spend in US dollars; only models in the price table count towards it */
+  maxCostUsd?: number;
+}
+
+export interface UsageTotals {
+  turns: number;
+  toolCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ModelPrice {
+  /** US dollars per million input tokens */
+  input: number;
+  /** US dollars per million output tokens */
+  output: number;
+}
+
+export type BudgetScope = 'chat' | 'session';
+
+export type BudgetLimit = keyof BudgetLimits;
+
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+}
+
+export interface UsageReport {
+  chat: UsageTotals;
+  session: UsageTotals;
+  limits: Record<BudgetScope, BudgetLimits>;
+  /** The limit that stopped the most recent chat, if one did */
+  exceeded: BudgetExceeded | null;
+}
+
+export interface BudgetOptions {
+  /** Limits for each `chat()` call, including todo sequences it starts (default 50 turns) */
+  chat?: BudgetLimits;
+  /** Limits across the agent's whole session */
+  session?: BudgetLimits;
+  /** Extra or replacement prices, keyed by model name prefix */
+  prices?: Record<string, ModelPrice>;
+}
+
+export const DEFAULT_CHAT_LIMITS: BudgetLimits = { maxTurns: 50 };
+
+/** Prices keyed by model name prefix; the longest matching prefix wins */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 }
+};
+
+// Checked before every model request; tool calls are limited where they run
+const TURN_LIMITS: { limit: BudgetLimit; used: keyof UsageTotals }[] = [
+  { limit: 'maxTurns', used: 'turns' },
+  { limit: 'maxInputTokens', used: 'inputTokens' },
+  { limit: 'maxOutputTokens', used: 'outputTokens' },
+  { limit: 'maxCostUsd', used: 'costUsd' }
+];
+
+export function emptyUsage(): UsageTotals {
+  return { turns: 0, toolCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+export function priceFor(model: string, prices: Record<string, ModelPrice> = MODEL_PRICES): ModelPrice | undefined {
+  const prefix = Object.keys(prices)
+    .filter(candidate => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export function estimateCost(model: string, usage: ModelUsage, prices: Record<string, ModelPrice> = MODEL_PRICES): number {
+  const price = priceFor(model, prices);
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function describeBudgetExceeded(exceeded: BudgetExceeded): string {
+  const format = (value: number) => exceeded.limit === 'maxCostUsd' ? `$${value.toFixed(4)}` : String(value);
+  return `Stopped: ${exceeded.scope} budget exceeded (${exceeded.limit}: used ${format(exceeded.used)} of ${format(exceeded.max)}).`;
+}
+
+/**
+ * Running totals for the current chat and the whole session, checked against
+ * the configured limits. Token and cost limits are checked between turns, so
+ * a single turn can overshoot them.
+ */
+export class UsageTracker {
+  readonly limits: Record<BudgetScope, BudgetLimits>;
+  private prices: Record<string, ModelPrice>;
+  private totals: Record<BudgetScope, UsageTotals> = { chat: emptyUsage(), session: emptyUsage() };
+
+  constructor(options: BudgetOptions = {}) {
+    this.limits = { chat: options.chat || DEFAULT_CHAT_LIMITS, session: options.session || {} };
+    this.prices = { ...MODEL_PRICES, ...options.prices };
+  }
+
+  startChat(): void {
+    this.totals.chat = emptyUsage();
+  }
+
+  /** Adds a model response's tokens and cost; `countTurn` is false for side requests such as summaries */
+  recordModelUsage(model: string, usage: ModelUsage, countTurn = true): void {
+    const cost = estimateCost(model, usage, this.prices);
+    for (const totals of Object.values(this.totals)) {
+      if (countTurn) totals.turns++;
+      totals.inputTokens += usage.inputTokens;
+      totals.outputTokens += usage.outputTokens;
+      totals.costUsd += cost;
+    }
+  }
+
+  /** Adds tokens and cost spent elsewhere, such as by a sub-agent; its turns and tool calls are not counted */
+  recordSpend(spent: Pick<UsageTotals, 'inputTokens' | 'outputTokens' | 'costUsd'>): void {
+    for (const totals of Object.values(this.totals)) {
+      totals.inputTokens += spent.inputTokens;
+      totals.outputTokens += spent.outputTokens;
+      totals.costUsd += spent.costUsd;
+    }
+  }
+
+  recordToolCalls(count: number): void {
+    for (const totals of Object.values(this.totals)) {
+      totals.toolCalls += count;
+    }
+  }
+
+  /** The first limit that rules out another model request, if any */
+  checkTurn(): BudgetExceeded | null {
+    for (const scope of ['chat', 'session'] as BudgetScope[]) {
+      for (const { limit, used } of TURN_LIMITS) {
+        const max = this.limits[scope][limit];
+        if (max !== undefined && this.totals[scope][used] >= max) {
+          return { scope, limit, used: this.totals[scope][used], max };
+        }
+      }
+    }
+    return null;
+  }
+
+  /** How many more tool calls may run, and the limit that caps them */
+  remainingToolCalls(): { remaining: number; exceeded: BudgetExceeded | null } {
+    let result: { remaining: number; exceeded: BudgetExceeded | null } = { remaining: Infinity, exceeded: null };
+    for (const scope of ['chat', 'session'] as BudgetScope[]) {
+      const max = this.limits[scope].maxToolCalls;
+      if (max === undefined) continue;
+      const remaining = Math.max(0, max - this.totals[scope].toolCalls);
+      if (remaining < result.remaining) {
+        result = { remaining, exceeded: { scope, limit: 'maxToolCalls', used: this.totals[scope].toolCalls, max } };
+      }
+    }
+    return result;
+  }
+
+  getChatUsage(): UsageTotals {
+    return { ...this.totals.chat };
+  }
+
+  getSessionUsage(): UsageTotals {
+    return { ...this.totals.session };
+  }
+
+  /** Continues counting from previously saved session totals */
+  restoreSession(totals: UsageTotals): void {
+    this.totals.session = { ...emptyUsage(), ...totals };
+  }
+}
@@ -0,0 +1,363 @@
+import { ChildProcess, spawn } from 'child_process';
+import { globToRegExp } from './glob';
+
+export interface CommandRunnerOptions {
+  /** Timeout for `run` when the call gives none (default 30s) */
+  defaultTimeoutMs?: number;
+  /** Longest timeout a call may ask for (default 10 minutes) */
+  maxTimeoutMs?: number;
+  /**
+   * Environment variables commands may see, as names or wildcards like `LC_*`.
+   * Only these are inherited from this process or may be set per call, so API
+   * keys stay out of commands the model runs.
+   */
+  envAllowlist?: string[];
+  /** Characters kept per stream; longer output keeps its head and tail (default 30000) */
+  maxOutputChars?: number;
+  /** Background processes that may run at once (default 8) */
+  maxBackgroundProcesses?: number;
+}
+
+export interface RunOptions {
+  /** Absolute working directory; callers check it against the workspace */
+  cwd: string;
+  env?: Record<string, string>;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface CommandResult {
+  command: string;
+  /** null if the process was ended by a signal */
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+  durationMs: number;
+}
+
+export interface ProcessStatus {
+  id: string;
+  command: string;
+  pid: number | undefined;
+  running: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Combined stdout and stderr produced since the previous poll */
+  output: string;
+  /** Output that was produced but dropped from the buffer before anyone polled it */
+  droppedChars: number;
+  durationMs: number;
+}
+
+export const DEFAULT_ENV_ALLOWLIST = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TERM', 'TMPDIR', 'TZ', 'LANG', 'LC_*', 'NODE_ENV', 'CI'
+];
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_OUTPUT_CHARS = 30000;
+const DEFAULT_MAX_BACKGROUND_PROCESSES = 8;
+// How long a process gets to exit after SIGTERM before it is sent SIGKILL
+const KILL_GRACE_MS = 2000;
+// Output a background process may buffer between polls; older output is dropped
+const BACKGROUND_BUFFER_CHARS = 1024 * 1024;
+
+/** Keeps the first and last `limit / 2` characters of a stream and counts the rest */
+export class OutputBuffer {
+  private head = '';
+  private tail = '';
+  private omitted = 0;
+  private half: number;
+
+  constructor(limit: number) {
+    this.half = Math.max(1, Math.floor(limit / 2));
+  }
+
+  append(text: string): void {
+    if (this.head.length < this.half) {
+      const room = this.half - this.head.length;
+      this.head += text.slice(0, room);
+      text = text.slice(room);
+    }
+    this.tail += text;
+    if (this.tail.length > this.half) {
+      this.omitted += this.tail.length - this.half;
+      this.tail = this.tail.slice(-this.half);
+    }
+  }
+
+  toString(): string {
+    return this.omitted > 0
+      ? `${this.head}\n[... ${this.omitted} characters omitted ...]\n${this.tail}`
+      : this.head + this.tail;
+  }
+}
+
+interface BackgroundProcess {
+  id: string;
+  command: string;
+  child: ChildProcess;
+  startedAt: number;
+  finishedAt: number | null;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Retained output, starting at character `bufferStart` of everything written */
+  buffer: string;
+  bufferStart: number;
+  /** Characters of output already returned by `poll` */
+  readOffset: number;
+  /** Pending `poll` waits, resolved on new output or exit */
+  waiters: Set<() => void>;
+}
+
+/**
+ * Runs shell commands with `spawn` in their own process group, so a timeout
+ * or cancellation kills everything they started. Commands get a filtered
+ * environment, and huge output keeps only its head and tail. Background
+ * processes keep running between tool calls until they exit or are killed.
+ */
+export class CommandRunner {
+  readonly defaultTimeoutMs: number;
+  readonly maxTimeoutMs: number;
+  readonly maxOutputChars: number;
+  private envAllowlist: RegExp[];
+  private maxBackgroundProcesses: number;
+  private processes = new Map<string, BackgroundProcess>();
+  private nextId = 1;
+  private exitHandlerInstalled = false;
+
+  constructor(options: CommandRunnerOptions = {}) {
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxTimeoutMs = options.maxTimeoutMs ?? DEFAULT_MAX_TIMEOUT_MS;
+    this.maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+    this.envAllowlist = (options.envAllowlist ?? DEFAULT_ENV_ALLOWLIST).map(pattern => globToRegExp(pattern));
+    this.maxBackgroundProcesses = options.maxBackgroundProcesses ?? DEFAULT_MAX_BACKGROUND_PROCESSES;
+  }
+
+  /** The allowed part of this process's environment plus `overrides`; throws if an override is not allowed */
+  buildEnv(overrides: Record<string, string> = {}): NodeJS.ProcessEnv {
+    const refused = Object.keys(overrides).filter(name => !this.isAllowedEnv(name));
+    if (refused.length > 0) {
+      throw new Error(`Environment variables not allowed: ${refused.join(', ')}`);
+    }
+    const invalid = Object.keys(overrides).filter(name => typeof overrides[name] !== 'string');
+    if (invalid.length > 0) {
+      throw new Error(`Environment variable values must be strings: ${invalid.join(', ')}`);
+    }
+    const inherited = Object.entries(process.env).filter(([name]) => this.isAllowedEnv(name));
+    return { ...Object.fromEntries(inherited), ...overrides };
+  }
+
+  /** Runs a command to completion; a timeout or abort kills it and resolves with what it printed */
+  run(command: string, options: RunOptions): Promise<CommandResult> {
+    const env = this.buildEnv(options.env);
+    const timeoutMs = this.effectiveTimeout(options.timeoutMs);
+    const startedAt = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, { shell: true, cwd: options.cwd, env, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+      const stdout = new OutputBuffer(this.maxOutputChars);
+      const stderr = new OutputBuffer(this.maxOutputChars);
+      child.stdout!.setEncoding('utf-8').on('data', (text: string) => stdout.append(text));
+      child.stderr!.setEncoding('utf-8').on('data', (text: string) => stderr.append(text));
+
+      let stopped: 'timeout' | 'cancelled' | null = null;
+      const stop = (reason: 'timeout' | 'cancelled') => {
+        if (stopped) return;
+        stopped = reason;
+        terminate(child);
+      };
+      const timer = setTimeout(() => stop('timeout'), timeoutMs);
+      const onAbort = () => stop('cancelled');
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      if (options.signal?.aborted) onAbort();
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+      child.on('error', error => {
+        cleanup();
+        reject(error);
+      });
+      child.on('close', (exitCode, signal) => {
+        cleanup();
+        resolve({
+          command,
+          exitCode,
+          signal,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          timedOut: stopped === 'timeout',
+          cancelled: stopped === 'cancelled',
+          durationMs: Date.now() - startedAt
+        });
+      });
+    });
+  }
+
+  /** Starts a command in the background and returns its id for `poll` and `kill` */
+  start(command: string, options: Omit<RunOptions, 'timeoutMs' | 'signal'>): ProcessStatus {
+    const running = Array.from(this.processes.values()).filter(entry => entry.finishedAt === null).length;
+    if (running >= this.maxBackgroundProcesses) {
+      throw new Error(`Too many background processes (${running} running); kill one first`);
+    }
+
+    const child = spawn(command, { shell: true, cwd: options.cwd, env: this.buildEnv(options.env), detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    const entry: BackgroundProcess = {
+      id: String(this.nextId++),
+      command,
+      child,
+      startedAt: Date.now(),
+      finishedAt: null,
+      exitCode: null,
+      signal: null,
+      buffer: '',
+      bufferStart: 0,
+      readOffset: 0,
+      waiters: new Set()
+    };
+    this.processes.set(entry.id, entry);
+    this.installExitHandler();
+
+    const notify = () => entry.waiters.forEach(resolve => resolve());
+    const record = (text: string) => {
+      entry.buffer += text;
+      if (entry.buffer.length > BACKGROUND_BUFFER_CHARS) {
+        const excess = entry.buffer.length - BACKGROUND_BUFFER_CHARS;
+        entry.buffer = entry.buffer.slice(excess);
+        entry.bufferStart += excess;
+      }
+      notify();
+    };
+    child.stdout!.setEncoding('utf-8').on('data', record);
+    child.stderr!.setEncoding('utf-8').on('data', record);
+    // A process that fails to start never emits 'close'
+    child.on('error', error => {
+      if (entry.finishedAt === null) entry.finishedAt = Date.now();
+      record(`\n[Failed to start: ${error.message}]\n`);
+    });
+    child.on('close', (exitCode, signal) => {
+      entry.finishedAt = Date.now();
+      entry.exitCode = exitCode;
+      entry.signal = signal;
+      notify();
+    });
+
+    return this.status(entry, false);
+  }
+
+  /**
+   * Returns the output since the last poll. If there is none yet and the
+   * process is still running, waits up to `waitMs` for output or exit.
+   */
+  async poll(id: string, waitMs = 0): Promise<ProcessStatus> {
+    const entry = this.getProcess(id);
+    const unread = () => entry.bufferStart + entry.buffer.length > entry.readOffset;
+    if (waitMs > 0 && entry.finishedAt === null && !unread()) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          entry.waiters.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, waitMs);
+        entry.waiters.add(done);
+      });
+    }
+    return this.status(entry, true);
+  }
+
+  /** Sends `signal` to the process group, escalating to SIGKILL, and waits for it to exit */
+  async kill(id: string, signal: NodeJS.Signals = 'SIGTERM'): Promise<ProcessStatus> {
+    const entry = this.getProcess(id);
+    // Without a pid the process never started and there is nothing to wait for
+    if (entry.finishedAt === null && entry.child.pid !== undefined) {
+      const exited = new Promise(resolve => entry.child.once('close', resolve));
+      terminate(entry.child, signal);
+      await exited;
+    }
+    return this.status(entry, true);
+  }
+
+  /** Every background process started by this runner, without consuming output */
+  list(): ProcessStatus[] {
+    return Array.from(this.processes.values()).map(entry => this.status(entry, false));
+  }
+
+  /** Kills every running background process; called automatically when this process exits */
+  killAll(): void {
+    this.processes.forEach(entry => {
+      if (entry.finishedAt === null) signalGroup(entry.child, 'SIGKILL');
+    });
+  }
+
+  /** The timeout `run` applies when a call asks for `requested` */
+  effectiveTimeout(requested?: number): number {
+    return Math.min(requested ?? this.defaultTimeoutMs, this.maxTimeoutMs);
+  }
+
+  private isAllowedEnv(name: string): boolean {
+    return this.envAllowlist.some(pattern => pattern.test(name));
+  }
+
+  private getProcess(id: string): BackgroundProcess {
+    const entry = this.processes.get(id);
+    if (!entry) {
+      throw new Error(`No background process with id '${id}'`);
+    }
+    return entry;
+  }
+
+  private status(entry: BackgroundProcess, consume: boolean): ProcessStatus {
+    const droppedChars = Math.max(0, entry.bufferStart - entry.readOffset);
+    const unread = entry.buffer.slice(Math.max(0, entry.readOffset - entry.bufferStart));
+    const output = new OutputBuffer(this.maxOutputChars);
+    output.append(unread);
+    if (consume) {
+      entry.readOffset = entry.bufferStart + entry.buffer.length;
+    }
+    return {
+      id: entry.id,
+      command: entry.command,
+      pid: entry.child.pid,
+      running: entry.finishedAt === null,
+      exitCode: entry.exitCode,
+      signal: entry.signal,
+      output: consume ? output.toString() : '',
+      droppedChars: consume ? droppedChars : 0,
+      durationMs: (entry.finishedAt ?? Date.now()) - entry.startedAt
+    };
+  }
+
+  // Detached process groups outlive this process unless they are killed on the way out
+  private installExitHandler(): void {
+    if (this.exitHandlerInstalled) return;
+    this.exitHandlerInstalled = true;
+    process.once('exit', () => this.killAll());
+  }
+}
+
+function signalGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return;
+  try {
+    // A negative pid signals the whole group, including anything the shell started
+    process.kill(-child.pid, signal);
+  } catch {
+    // Already gone
+  }
+}
+
+function terminate(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  signalGroup(child, signal);
+  if (signal !== 'SIGKILL') {
+    // The shell may be gone while something it started still holds the group open
+    setTimeout(() => signalGroup(child, 'SIGKILL'), KILL_GRACE_MS).unref();
+  }
+}
+
+/** Shared by registries that are not given their own runner */
+export const defaultCommandRunner = new CommandRunner();
@@ -0,0 +1,376 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Agent, { AgentOptions } from './agent';
+import { BudgetOptions } from './budget';
+import { ModelProvider, createProviderFromEnv } from './providers';
+import { McpServerConfig } from './mcp';
+import { JsonSchema, validateAgainstSchema } from './schema';
+import { SubAgentManager, SubAgentOptions } from './subagents';
+import { SearchConfig, createSearchProvider } from './search';
+import { ToolRegistry, defaultToolRegistry } from './tools';
+
+export interface AgentProfile {
+  description?: string;
+  /** Template for the system prompt; `{{cwd}}`, `{{date}}`, `{{tools}}`, `{{profile}}` and `{{model}}` are filled in */
+  systemPrompt?: string;
+  provider?: 'anthropic' | 'openai';
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Names of the `defaultToolRegistry` tools to enable; all of them if omitted */
+  tools?: string[];
+  /** Start the next pending todo automatically when one finishes (default true) */
+  autoProgressTodos?: boolean;
+  /** Turn, tool call, token and cost limits per chat and per session */
+  budget?: Pick<BudgetOptions, 'chat' | 'session'>;
+  /** Enables `delegate_task`: which tools sub-agents get, their turn limit and where transcripts go */
+  subAgents?: Omit<SubAgentOptions, 'hooks'>;
+  /** Backend of the `search` tool (default: Brave with `BRAVE_API_KEY`) */
+  search?: SearchConfig;
+}
+
+export interface ResolvedProfile extends AgentProfile {
+  name: string;
+}
+
+export interface AgentConfig {
+  defaultProfile: string;
+  profiles: Record<string, AgentProfile>;
+  /** MCP servers shared by every profile, keyed by the name their tools are namespaced with */
+  mcpServers: Record<string, McpServerConfig>;
+}
+
+export type OutputFormat = 'text' | 'json';
+
+export interface CliOptions {
+  configPath?: string;
+  profile?: string;
+  /** Runs this prompt once without the REPL */
+  prompt?: string;
+  /** `-` or `-p -`: read the prompt, or the rest of it, from stdin */
+  stdin?: boolean;
+  /** How a headless run prints its result (default text) */
+  output?: OutputFormat;
+  /** Approves tool calls that would otherwise ask; deny rules still apply */
+  yes?: boolean;
+  /** JSON-lines file to append a trace of turns, tool calls and errors to */
+  tracePath?: string;
+  /** File the todo list is loaded from and saved to */
+  todoFile?: string;
+  /** Where `yarn serve` listens */
+  port?: number;
+  host?: string;
+  /** Settings given as flags; they win over the selected profile */
+  overrides: AgentProfile;
+}
+
+export const DEFAULT_CONFIG_FILE = 'agent.config.json';
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful coding agent working in {{cwd}}. Today is {{date}}.
+Use the available tools ({{tools}}) to inspect and change the project instead of guessing.
+For multi-step tasks, keep a todo list with todo_write and update it as you go.`;
+
+export const DEFAULT_CONFIG: AgentConfig = {
+  defaultProfile: DEFAULT_PROFILE_NAME,
+  profiles: {
+    [DEFAULT_PROFILE_NAME]: { systemPrompt: DEFAULT_SYSTEM_PROMPT }
+  },
+  mcpServers: {}
+};
+
+const BUDGET_LIMITS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    maxTurns: { type: 'integer', minimum: 1 },
+    maxToolCalls: { type: 'integer', minimum: 0 },
+    maxInputTokens: { type: 'integer', minimum: 1 },
+    maxOutputTokens: { type: 'integer', minimum: 1 },
+    maxCostUsd: { type: 'number', minimum: 0 }
+  },
+  additionalProperties: false
+};
+
+const PROFILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    systemPrompt: { type: 'string' },
+    provider: { type: 'string', enum: ['anthropic', 'openai'] },
+    model: { type: 'string', minLength: 1 },
+    maxTokens: { type: 'integer', minimum: 1 },
+    temperature: { type: 'number', minimum: 0, maximum: 2 },
+    tools: { type: 'array', items: { type: 'string' } },
+    autoProgressTodos: { type: 'boolean' },
+    budget: {
+      type: 'object',
+      properties: { chat: BUDGET_LIMITS_SCHEMA, session: BUDGET_LIMITS_SCHEMA },
+      additionalProperties: false
+    },
+    subAgents: {
+      type: 'object',
+      properties: {
+        tools: { type: 'array', items: { type: 'string' } },
+        maxTurns: { type: 'integer', minimum: 1 },
+        systemPrompt: { type: 'string' },
+        transcriptDir: { type: 'string' }
+      },
+      additionalProperties: false
+    },
+    search: {
+      type: 'object',
+      properties: {
+        provider: { type: 'string', enum: ['brave', 'searxng', 'fixture'] },
+        baseUrl: { type: 'string', minLength: 1 },
+        indexPath: { type: 'string', minLength: 1 },
+        allowPrivateNetworks: { type: 'boolean' }
+      },
+      required: ['provider'],
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+};
+
+const MCP_SERVER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    command: { type: 'string', minLength: 1 },
+    args: { type: 'array', items: { type: 'string' } },
+    env: { type: 'object' },
+    cwd: { type: 'string' },
+    timeoutMs: { type: 'integer', minimum: 1 }
+  },
+  required: ['command'],
+  additionalProperties: false
+};
+
+const CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    defaultProfile: { type: 'string' },
+    profiles: { type: 'object' },
+    mcpServers: { type: 'object' }
+  },
+  additionalProperties: false
+};
+
+/**
+ * Reads a config file and merges its profiles over the built-in `default`
+ * profile. A missing `agent.config.json` is fine; a missing file that was
+ * asked for explicitly is an error.
+ */
+export function loadConfig(filePath?: string): AgentConfig {
+  const resolved = path.resolve(filePath || DEFAULT_CONFIG_FILE);
+  if (!fs.existsSync(resolved)) {
+    if (filePath) {
+      throw new Error(`Config file not found: ${resolved}`);
+    }
+    return DEFAULT_CONFIG;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${resolved}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return parseConfig(raw, resolved);
+}
+
+export function parseConfig(raw: any, source = 'config'): AgentConfig {
+  const issues = validateAgainstSchema(CONFIG_SCHEMA, raw).issues;
+  for (const [name, profile] of Object.entries<any>(raw?.profiles || {})) {
+    validateAgainstSchema(PROFILE_SCHEMA, profile).issues.forEach(issue =>
+      issues.push({ path: `profiles.${name}${issue.path ? `.${issue.path}` : ''}`, message: issue.message }));
+  }
+  for (const [name, server] of Object.entries<any>(raw?.mcpServers || {})) {
+    validateAgainstSchema(MCP_SERVER_SCHEMA, server).issues.forEach(issue =>
+      issues.push({ path: `mcpServers.${name}${issue.path ? `.${issue.path}` : ''}`, message: issue.message }));
+  }
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${source}:\n${issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n')}`);
+  }
+
+  const config: AgentConfig = {
+    defaultProfile: raw.defaultProfile || DEFAULT_CONFIG.defaultProfile,
+    profiles: { ...DEFAULT_CONFIG.profiles, ...raw.profiles },
+    mcpServers: raw.mcpServers || {}
+  };
+  if (!config.profiles[config.defaultProfile]) {
+    throw new Error(`Invalid ${source}: defaultProfile '${config.defaultProfile}' is not defined`);
+  }
+  return config;
+}
+
+export function resolveProfile(config: AgentConfig, name: string = config.defaultProfile, overrides: AgentProfile = {}): ResolvedProfile {
+  const profile = config.profiles[name];
+  if (!profile) {
+    throw new Error(`Unknown profile '${name}'. Available: ${Object.keys(config.profiles).join(', ')}`);
+  }
+  return { ...profile, ...withoutUndefined(overrides), name };
+}
+
+/** Replaces `{{name}}` placeholders; unknown ones are left as written */
+export function renderSystemPrompt(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    variables[name] !== undefined ? variables[name] : placeholder);
+}
+
+/**
+ * Builds an agent for a profile: its model settings, tool subset, search
+ * provider, rendered system prompt, todo behavior, budget and sub-agents.
+ * Pass `provider` to skip creating one from the environment.
+ */
+export function createAgentFromProfile(
+  profile: ResolvedProfile,
+  options: AgentOptions = {},
+  provider?: ModelProvider,
+  toolRegistry: ToolRegistry = defaultToolRegistry
+): Agent {
+  // MCP tools are registered on the agent's registry, so never hand it a shared one
+  const registry = profile.tools || options.mcp || profile.search
+    ? toolRegistry.subset(
+      profile.tools || toolRegistry.getAll().map(tool => tool.name),
+      profile.search ? { search: createSearchProvider(profile.search, toolRegistry.http) } : {})
+    : toolRegistry;
+  const modelProvider = provider || createProviderFromEnv(process.env, {
+    provider: profile.provider,
+    model: profile.model,
+    maxTokens: profile.maxTokens,
+    temperature: profile.temperature
+  });
+
+  const systemPrompt = profile.systemPrompt
+    ? renderSystemPrompt(profile.systemPrompt, {
+      cwd: process.cwd(),
+      date: new Date().toISOString().slice(0, 10),
+      tools: registry.getAll().map(tool => tool.name).join(', '),
+      profile: profile.name,
+      model: modelProvider.model
+    })
+    : undefined;
+
+  return new Agent(registry, modelProvider, {
+    ...options,
+    systemPrompt,
+    autoProgressTodos: profile.autoProgressTodos ?? true,
+    budget: options.budget || profile.budget,
+    subAgents: options.subAgents || (profile.subAgents ? new SubAgentManager({ ...profile.subAgents, hooks: options.hooks }) : undefined)
+  });
+}
+
+/**
+ * Parses command line flags: `--config`, `--profile`, `--provider`, `--model`,
+ * `--max-tokens`, `--temperature`, `--system-prompt`, `--tools a,b`,
+ * `--[no-]auto-todos`, `--trace <file>`, `--todos <file>`, the headless `-p/--prompt` and `-`,
+ * `--output text|json` and `-y/--yes`, and for the server `--port` and
+ * `--host`. Values may follow the flag or be joined with `=`.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { overrides: {} };
+  const { overrides } = options;
+
+  for (let index = 0; index < argv.length; index++) {
+    const [flag, inline] = argv[index].split(/=(.*)/s, 2);
+    const value = (): string => {
+      const next = inline !== undefined ? inline : argv[++index];
+      if (next === undefined) {
+        throw new Error(`Option ${flag} requires a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--config':
+        options.configPath = value();
+        break;
+      case '--profile':
+        options.profile = value();
+        break;
+      case '-p':
+      case '--prompt': {
+        const prompt = value();
+        if (prompt === '-') {
+          options.stdin = true;
+        } else {
+          options.prompt = prompt;
+        }
+        break;
+      }
+      case '-':
+        options.stdin = true;
+        break;
+      case '--output': {
+        const output = value();
+        if (output !== 'text' && output !== 'json') {
+          throw new Error(`Option --output must be text or json, got '${output}'`);
+        }
+        options.output = output;
+        break;
+      }
+      case '-y':
+      case '--yes':
+        options.yes = true;
+        break;
+      case '--trace':
+        options.tracePath = value();
+        break;
+      case '--todos':
+        options.todoFile = value();
+        break;
+      case '--port':
+        options.port = parseNumber(flag, value(), true);
+        break;
+      case '--host':
+        options.host = value();
+        break;
+      case '--provider': {
+        const provider = value();
+        if (provider !== 'anthropic' && provider !== 'openai') {
+          throw new Error(`Option --provider must be anthropic or openai, got '${provider}'`);
+        }
+        overrides.provider = provider;
+        break;
+      }
+      case '--model':
+        overrides.model = value();
+        break;
+      case '--max-tokens':
+        overrides.maxTokens = parseNumber(flag, value(), true);
+        break;
+      case '--temperature':
+        overrides.temperature = parseNumber(flag, value(), false);
+        break;
+      case '--system-prompt':
+        overrides.systemPrompt = value();
+        break;
+      case '--tools':
+        overrides.tools = value().split(',').map(name => name.trim()).filter(Boolean);
+        break;
+      case '--auto-todos':
+        overrides.autoProgressTodos = true;
+        break;
+      case '--no-auto-todos':
+        overrides.autoProgressTodos = false;
+        break;
+      default:
+        throw new Error(`Unknown option '${argv[index]}'`);
+    }
+  }
+
+  return options;
+}
+
+function parseNumber(flag: string, text: string, integer: boolean): number {
+  const number = Number(text);
+  if (text.trim() === '' || Number.isNaN(number) || (integer && !Number.isInteger(number))) {
+    throw new Error(`Option ${flag} expects ${integer ? 'an integer' : 'a number'}, got '${text}'`);
+  }
+  return number;
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
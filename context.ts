@@ -0,0 +1,229 @@
+import { ContentBlock, Message, TextBlock } from './agent';
+import { ModelProvider, ModelUsage } from './providers';
+
+export interface ContextManagerOptions {
+  /** Estimated tokens the history may use before it is compacted (default 100000) */
+  maxTokens?: number;
+  /** Old tool results larger than this are truncated first (default 2000 tokens) */
+  maxToolResultTokens?: number;
+  /** Number of most recent messages whose tool results are never truncated (default 6) */
+  preserveRecentMessages?: number;
+}
+
+export interface CompactionResult {
+  messages: Message[];
+  tokensBefore: number;
+  tokensAfter: number;
+  truncatedResults: number;
+  summarizedMessages: number;
+  /** Tokens spent on the summarization request */
+  usage: ModelUsage;
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 100000;
+export const DEFAULT_MAX_TOOL_RESULT_TOKENS = 2000;
+export const DEFAULT_PRESERVE_RECENT_MESSAGES = 6;
+
+// Rough but vendor-neutral: about four characters per token plus framing per message and block
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const BLOCK_OVERHEAD_TOKENS = 3;
+// Room left for the summary message itself when picking how much history to keep
+const SUMMARY_RESERVE_TOKENS = 1000;
+// Per-block cap when rendering old turns for the summarization request
+const TRANSCRIPT_BLOCK_CHARS = 2000;
+
+export const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+const SUMMARY_INSTRUCTIONS = `Summarize the conversation transcript below so the assistant can continue the work without it.
+Keep the user's goals and constraints, decisions made, files and commands involved, important tool results and any open questions or unfinished work.
+Be concise and factual; reply with the summary only.`;
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: Message): number {
+  if (typeof message.content === 'string') {
+    return MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(message.content);
+  }
+  return message.content.reduce((total, block) => total + estimateBlockTokens(block), MESSAGE_OVERHEAD_TOKENS);
+}
+
+export function estimateTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+function estimateBlockTokens(block: ContentBlock): number {
+  switch (block.type) {
+    case 'text':
+      return BLOCK_OVERHEAD_TOKENS + estimateTextTokens(block.text);
+    case 'tool_use':
+      return BLOCK_OVERHEAD_TOKENS + estimateTextTokens(block.name + JSON.stringify(block.input ?? {}));
+    case 'tool_result':
+      return BLOCK_OVERHEAD_TOKENS + estimateTextTokens(block.content);
+  }
+}
+
+/**
+ * Keeps the conversation under a token budget. Over budget it first truncates
+ * large tool results outside the most recent messages, then asks the model to
+ * summarize the oldest turns into a single message. History is only ever cut
+ * where no `tool_use` is separated from its `tool_result`.
+ */
+export class ContextManager {
+  readonly maxTokens: number;
+  private maxToolResultTokens: number;
+  private preserveRecentMessages: number;
+
+  constructor(options: ContextManagerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+    this.maxToolResultTokens = options.maxToolResultTokens ?? DEFAULT_MAX_TOOL_RESULT_TOKENS;
+    this.preserveRecentMessages = options.preserveRecentMessages ?? DEFAULT_PRESERVE_RECENT_MESSAGES;
+  }
+
+  /** Returns a compacted copy of `messages`, or null if they already fit the budget */
+  async compact(messages: Message[], provider: ModelProvider, signal?: AbortSignal): Promise<CompactionResult | null> {
+    const tokensBefore = estimateTokens(messages);
+    if (tokensBefore <= this.maxTokens) {
+      return null;
+    }
+
+    const { messages: truncated, count: truncatedResults } = this.truncateToolResults(messages);
+    let compacted = truncated;
+    let summarizedMessages = 0;
+    let usage: ModelUsage = { inputTokens: 0, outputTokens: 0 };
+
+    if (estimateTokens(truncated) > this.maxTokens) {
+      const split = this.findSplit(truncated);
+      if (split > 0) {
+        const summary = await this.summarize(truncated.slice(0, split), provider, signal);
+        compacted = withSummary(summary.text, truncated.slice(split));
+        usage = summary.usage;
+        summarizedMessages = split;
+      }
+    }
+
+    return {
+      messages: compacted,
+      tokensBefore,
+      tokensAfter: estimateTokens(compacted),
+      truncatedResults,
+      summarizedMessages,
+      usage
+    };
+  }
+
+  private truncateToolResults(messages: Message[]): { messages: Message[]; count: number } {
+    const maxChars = this.maxToolResultTokens * CHARS_PER_TOKEN;
+    const protectedFrom = messages.length - this.preserveRecentMessages;
+    let count = 0;
+
+    const result = messages.map((message, index) => {
+      if (index >= protectedFrom || typeof message.content === 'string') {
+        return message;
+      }
+
+      let changed = false;
+      const content = message.content.map(block => {
+        if (block.type !== 'tool_result' || block.content.length <= maxChars) {
+          return block;
+        }
+        changed = true;
+        count++;
+        const omitted = block.content.length - maxChars;
+        return { ...block, content: `${block.content.slice(0, maxChars)}\n[... ${omitted} characters of old tool output truncated to save context ...]` };
+      });
+
+      return changed ? { ...message, content } : message;
+    });
+
+    return { messages: result, count };
+  }
+
+  /**
+   * Picks how many leading messages to summarize: the fewest that bring the
+   * rest under budget, or as many as possible if nothing does. Returns 0 when
+   * there is no safe place to cut.
+   */
+  private findSplit(messages: Message[]): number {
+    let fallback = 0;
+
+    for (let index = 1; index < messages.length; index++) {
+      const previous = messages[index - 1];
+      // Cutting right after a tool_use would orphan the tool_result that answers it
+      if (previous.role === 'assistant' && hasToolUse(previous)) {
+        continue;
+      }
+
+      fallback = index;
+      if (estimateTokens(messages.slice(index)) + SUMMARY_RESERVE_TOKENS <= this.maxTokens) {
+        return index;
+      }
+    }
+
+    return fallback;
+  }
+
+  private async summarize(messages: Message[], provider: ModelProvider, signal?: AbortSignal): Promise<{ text: string; usage: ModelUsage }> {
+    const response = await provider.createMessage({
+      messages: [{ role: 'user', content: `${SUMMARY_INSTRUCTIONS}\n\n<transcript>\n${renderTranscript(messages)}\n</transcript>` }],
+      tools: [],
+      signal
+    });
+
+    const text = response.content
+      .filter((block): block is TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n')
+      .trim();
+
+    if (!text) {
+      throw new Error('Context summarization returned no text');
+    }
+    return { text, usage: response.usage };
+  }
+}
+
+function hasToolUse(message: Message): boolean {
+  return typeof message.content !== 'string' && message.content.some(block => block.type === 'tool_use');
+}
+
+/** Puts the summary in front of the kept messages as (part of) the first user message */
+function withSummary(summary: string, kept: Message[]): Message[] {
+  const summaryText = `${SUMMARY_PREFIX}\n${summary}`;
+  const [first, ...rest] = kept;
+
+  if (first && first.role === 'user') {
+    const content: ContentBlock[] = typeof first.content === 'string'
+      ? [{ type: 'text', text: first.content }]
+      : first.content;
+    return [{ role: 'user', content: [{ type: 'text', text: summaryText }, ...content] }, ...rest];
+  }
+
+  return [{ role: 'user', content: summaryText }, ...kept];
+}
+
+function renderTranscript(messages: Message[]): string {
+  const clip = (text: string) => text.length > TRANSCRIPT_BLOCK_CHARS
+    ? `${text.slice(0, TRANSCRIPT_BLOCK_CHARS)} [...]`
+    : text;
+
+  return messages.map(message => {
+    const speaker = message.role === 'user' ? 'User' : 'Assistant';
+    if (typeof message.content === 'string') {
+      return `${speaker}: ${clip(message.content)}`;
+    }
+
+    return message.content.map(block => {
+      switch (block.type) {
+        case 'text':
+          return `${speaker}: ${clip(block.text)}`;
+        case 'tool_use':
+          return `Assistant called ${block.name}(${clip(JSON.stringify(block.input ?? {}))})`;
+        case 'tool_result':
+          return `Tool ${block.is_error ? 'error' : 'result'}: ${clip(block.content)}`;
+      }
+    }).join('\n');
+  }).join('\n\n');
+}
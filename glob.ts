@@ -0,0 +1,68 @@
+/**
+ * Converts a glob pattern to a regular expression matched against
+ * forward-slash relative paths. Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ * Patterns without a slash match the file name in any directory, so `*.ts`
+ * behaves like `**\/*.ts`, and a trailing slash matches everything under a
+ * directory, so `.git/` covers `.git/config`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  const directoryOnly = normalized.length > 1 && normalized.endsWith('/');
+  if (directoryOnly) {
+    normalized = normalized.slice(0, -1);
+  }
+
+  let anchored = normalized.includes('/') ? normalized.replace(/^\//, '') : `**/${normalized}`;
+  if (directoryOnly) {
+    anchored += '/**';
+  }
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let index = 0; index < anchored.length; index++) {
+    const char = anchored[index];
+
+    if (char === '*') {
+      if (anchored[index + 1] === '*') {
+        // `**/` matches zero or more directories; a trailing `**` matches everything below
+        if (anchored[index + 2] === '/') {
+          source += '(?:.*/)?';
+          index += 2;
+        } else {
+          source += '.*';
+          index += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = anchored.indexOf(']', index + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = anchored.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        index = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(relativePath.replace(/\\/g, '/'));
+}
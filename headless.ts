@@ -0,0 +1,149 @@
+import Agent, { CancelledError, TodoWriteInput } from './agent';
+import { UsageReport } from './budget';
+import { AgentConfig, CliOptions, OutputFormat, createAgentFromProfile, resolveProfile } from './config';
+import { JsonlTraceWriter } from './hooks';
+import { McpManager } from './mcp';
+import { ModelProvider } from './providers';
+import { TodoStore } from './todos';
+
+export type HeadlessStatus = 'success' | 'error' | 'budget_exceeded' | 'cancelled';
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: any;
+  result: string | null;
+  isError: boolean;
+}
+
+export interface HeadlessResult {
+  status: HeadlessStatus;
+  /** The agent's final answer; null if the run failed or was cancelled */
+  text: string | null;
+  toolCalls: ToolCallRecord[];
+  todos: TodoWriteInput['todos'];
+  usage: UsageReport;
+  error?: string;
+}
+
+export const EXIT_CODES: Record<HeadlessStatus, number> = {
+  success: 0,
+  error: 1,
+  budget_exceeded: 3,
+  cancelled: 130
+};
+
+/** Bad flags or a missing prompt */
+export const USAGE_EXIT_CODE = 2;
+
+/** Runs one prompt to completion and collects everything a script might need */
+export async function runHeadless(agent: Agent, prompt: string, signal?: AbortSignal): Promise<HeadlessResult> {
+  const toolCalls = new Map<string, ToolCallRecord>();
+  let status: HeadlessStatus = 'success';
+  let text: string | null = null;
+  let error: string | undefined;
+
+  try {
+    for await (const event of agent.processMessageStream(prompt, signal)) {
+      if (event.type === 'tool_use_end') {
+        toolCalls.set(event.id, { id: event.id, name: event.name, input: event.input, result: null, isError: false });
+      } else if (event.type === 'tool_result') {
+        const record = toolCalls.get(event.id) || { id: event.id, name: event.name, input: null, result: null, isError: false };
+        toolCalls.set(event.id, { ...record, result: event.content, isError: event.isError });
+      } else if (event.type === 'message') {
+        text = event.text;
+      }
+    }
+    if (agent.getUsage().exceeded) {
+      status = 'budget_exceeded';
+    }
+  } catch (caught) {
+    status = caught instanceof CancelledError ? 'cancelled' : 'error';
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  return {
+    status,
+    text,
+    toolCalls: Array.from(toolCalls.values()),
+    todos: agent.getTodos(),
+    usage: agent.getUsage(),
+    ...(error !== undefined ? { error } : {})
+  };
+}
+
+export interface HeadlessIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+}
+
+export function formatResult(result: HeadlessResult, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(result, null, 2);
+  }
+  return result.text ?? '';
+}
+
+export async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * The non-interactive entry point: builds the prompt from `-p` and, with `-`,
+ * stdin, runs it, prints the result and returns the process exit code.
+ */
+export async function runHeadlessCli(
+  cli: CliOptions,
+  config: AgentConfig,
+  io: HeadlessIO = process,
+  provider?: ModelProvider
+): Promise<number> {
+  // Only read stdin when asked to: under CI or `ssh -T` it is a pipe that may never reach end of file
+  const piped = cli.stdin ? (await readStream(io.stdin)).trim() : '';
+  const prompt = [cli.prompt?.trim(), piped].filter(Boolean).join('\n\n');
+  if (!prompt) {
+    io.stderr.write('No prompt given: pass -p "<prompt>", or - to read it from stdin.\n');
+    return USAGE_EXIT_CODE;
+  }
+
+  const mcp = new McpManager(config.mcpServers);
+  let agent: Agent;
+  try {
+    agent = createAgentFromProfile(resolveProfile(config, cli.profile, cli.overrides), {
+      // Nobody is there to answer approval prompts
+      approve: cli.yes ? async () => 'allow' : undefined,
+      hooks: cli.tracePath ? new JsonlTraceWriter(cli.tracePath) : undefined,
+      todoStore: cli.todoFile ? new TodoStore(cli.todoFile) : undefined,
+      mcp
+    }, provider);
+  } catch (error) {
+    io.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return USAGE_EXIT_CODE;
+  }
+
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  process.once('SIGINT', cancel);
+  process.once('SIGTERM', cancel);
+
+  try {
+    const result = await runHeadless(agent, prompt, controller.signal);
+    const output = formatResult(result, cli.output || 'text');
+    if (output) {
+      io.stdout.write(output + '\n');
+    }
+    if (result.error && cli.output !== 'json') {
+      io.stderr.write(`${result.error}\n`);
+    }
+    return EXIT_CODES[result.status];
+  } finally {
+    process.off('SIGINT', cancel);
+    process.off('SIGTERM', cancel);
+    await agent.close();
+  }
+}
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContentBlock, TodoWriteInput } from './agent';
+import { ModelUsage, StopReason } from './providers';
+
+type Todo = TodoWriteInput['todos'][0];
+
+export interface TurnStartEvent {
+  /** 1-based model request number within the current chat */
+  turn: number;
+  model: string;
+  messageCount: number;
+}
+
+export interface ModelResponseEvent {
+  turn: number;
+  model: string;
+  stopReason: StopReason;
+  usage: ModelUsage;
+  toolCalls: number;
+  content: ContentBlock[];
+  /** Time from the start of the request to the full response, including retries and compaction */
+  durationMs: number;
+}
+
+export interface ToolStartEvent {
+  id: string;
+  name: string;
+  input: any;
+}
+
+export interface ToolEndEvent {
+  id: string;
+  name: string;
+  content: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+export interface TodoChangeEvent {
+  todos: Todo[];
+  previous: Todo[];
+  /**
+   * `update` comes from todo_write, `auto_start` is the agent starting the next
+   * pending todo, `edit` is a human edit and `sequence` marks items failed or blocked
+   */
+  reason: 'update' | 'auto_start' | 'edit' | 'sequence';
+  /** Whether any todo started, finished or was reopened */
+  significant: boolean;
+}
+
+export interface ErrorEvent {
+  error: Error;
+  /** True for a failed model request that will be retried; false once the chat itself fails */
+  retrying: boolean;
+  attempt?: number;
+  delayMs?: number;
+}
+
+export interface NoticeEvent {
+  kind: 'todo_suggestion' | 'sequence_start' | 'sequence_todo' | 'todo_stuck' | 'todo_file_invalid' | 'mcp_unavailable' | 'transcript_unsaved';
+  message: string;
+}
+
+/**
+ * Observers for the agent loop. Every hook is optional and called
+ * synchronously; a hook that throws is ignored so observers cannot break a
+ * chat.
+ */
+export interface AgentHooks {
+  onTurnStart?(event: TurnStartEvent): void;
+  onModelResponse?(event: ModelResponseEvent): void;
+  onToolStart?(event: ToolStartEvent): void;
+  onToolEnd?(event: ToolEndEvent): void;
+  onTodoChange?(event: TodoChangeEvent): void;
+  onError?(event: ErrorEvent): void;
+  /** Progress messages that used to be printed straight to the console */
+  onNotice?(event: NoticeEvent): void;
+}
+
+export type HookName = keyof AgentHooks;
+
+export type HookEvent<K extends HookName> = Parameters<NonNullable<AgentHooks[K]>>[0];
+
+export function callHook<K extends HookName>(hooks: AgentHooks, name: K, event: HookEvent<K>): void {
+  const hook = hooks[name] as ((event: HookEvent<K>) => void) | undefined;
+  try {
+    hook?.call(hooks, event);
+  } catch {
+    // Observers must not change the outcome of a chat
+  }
+}
+
+/** Calls each set of hooks in order; undefined entries are skipped */
+export function combineHooks(...hookSets: (AgentHooks | undefined)[]): AgentHooks {
+  const sets = hookSets.filter((hooks): hooks is AgentHooks => hooks !== undefined);
+  const names: HookName[] = ['onTurnStart', 'onModelResponse', 'onToolStart', 'onToolEnd', 'onTodoChange', 'onError', 'onNotice'];
+  const combined: AgentHooks = {};
+  for (const name of names) {
+    if (sets.some(hooks => hooks[name])) {
+      combined[name] = ((event: any) => sets.forEach(hooks => callHook(hooks, name, event))) as any;
+    }
+  }
+  return combined;
+}
+
+const NOTICE_ICONS: Record<NoticeEvent['kind'], string> = {
+  todo_suggestion: '💡',
+  sequence_start: '🚀',
+  sequence_todo: '🔄',
+  todo_stuck: '⚠️ ',
+  todo_file_invalid: '⚠️ ',
+  mcp_unavailable: '🔌',
+  transcript_unsaved: '⚠️ '
+};
+
+/** Renders todo progress and notices the way the REPL shows them */
+export function consoleHooks(log: (line: string) => void = line => console.log(line)): AgentHooks {
+  return {
+    onTodoChange({ todos, reason, significant }) {
+      if (reason === 'auto_start') {
+        const started = todos.find(todo => todo.status === 'in_progress');
+        if (started) log(`\n🔄 Auto-starting next todo: ${started.content}`);
+        return;
+      }
+      if (!significant || todos.length === 0) return;
+
+      const completed = todos.filter(todo => todo.status === 'completed');
+      const inProgress = todos.filter(todo => todo.status === 'in_progress');
+      log(`\n📊 Progress: ${completed.length}/${todos.length} todos completed (${Math.round(completed.length / todos.length * 100)}%)`);
+      if (completed.length > 0) {
+        log('✅ Recently completed:');
+        completed.slice(-2).forEach(todo => log(`   • ${todo.content}`));
+      }
+      if (inProgress.length > 0) {
+        log('🔄 Currently working on:');
+        inProgress.forEach(todo => log(`   • ${todo.content}`));
+      }
+      log('');
+    },
+    onNotice({ kind, message }) {
+      log(`\n${NOTICE_ICONS[kind]} ${message}`);
+    }
+  };
+}
+
+/**
+ * Appends one JSON object per line to `filePath`: a `turn` record per model
+ * request with its timing and token usage, a `tool` record per tool call and
+ * an `error` record per failure.
+ */
+export class JsonlTraceWriter implements AgentHooks {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  onModelResponse(event: ModelResponseEvent): void {
+    this.write({
+      type: 'turn',
+      turn: event.turn,
+      model: event.model,
+      startedAt: new Date(Date.now() - event.durationMs).toISOString(),
+      durationMs: event.durationMs,
+      inputTokens: event.usage.inputTokens,
+      outputTokens: event.usage.outputTokens,
+      stopReason: event.stopReason,
+      toolCalls: event.toolCalls
+    });
+  }
+
+  onToolEnd(event: ToolEndEvent): void {
+    this.write({
+      type: 'tool',
+      id: event.id,
+      name: event.name,
+      startedAt: new Date(Date.now() - event.durationMs).toISOString(),
+      durationMs: event.durationMs,
+      isError: event.isError
+    });
+  }
+
+  onError(event: ErrorEvent): void {
+    this.write({
+      type: 'error',
+      at: new Date().toISOString(),
+      error: event.error.message,
+      retrying: event.retrying,
+      ...(event.attempt !== undefined ? { attempt: event.attempt, delayMs: event.delayMs } : {})
+    });
+  }
+
+  private write(record: object): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+  }
+}
@@ -0,0 +1,321 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import { Agent, Response, fetch } from 'undici';
+import { globToRegExp } from './glob';
+
+export interface HttpClientOptions {
+  /** Hosts that may be fetched, as names or wildcards like `*.example.com`; any host if omitted */
+  allowHosts?: string[];
+  /** Hosts that are never fetched; wins over `allowHosts` */
+  denyHosts?: string[];
+  /**
+   * Refuse hosts that resolve to loopback, private, link-local (including the
+   * 169.254.169.254 cloud metadata service) or other non-public addresses
+   * (default true)
+   */
+  blockPrivateNetworks?: boolean;
+  /** Redirects followed per request; each target is checked like the original URL (default 5) */
+  maxRedirects?: number;
+  /** Response bytes read; the rest is dropped with a notice (default 1 MB) */
+  maxResponseBytes?: number;
+  /** Timeout when the call gives none (default 10s) */
+  defaultTimeoutMs?: number;
+  /** Longest timeout a call may ask for (default 60s) */
+  maxTimeoutMs?: number;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+export interface HttpRequestOptions {
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  /** Added to the URL's query string */
+  query?: Record<string, string | number | boolean>;
+  body?: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+  /** The URL that answered, after redirects */
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Buffer;
+  /** The body was longer than `maxResponseBytes` and was cut */
+  truncated: boolean;
+  /** Size from Content-Length, if the server sent one */
+  declaredBytes: number | null;
+  /** Each URL redirected to, in order */
+  redirects: string[];
+}
+
+/** Thrown when a URL or a redirect target is refused by the outbound policy */
+export class HttpPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HttpPolicyError';
+  }
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_TIMEOUT_MS = 60000;
+
+/**
+ * Makes outbound HTTP requests under a policy: host allow and deny lists,
+ * private address blocking, a redirect limit and a response size cap.
+ * Redirects are followed by hand so every hop is checked. Host names are
+ * checked when connecting, against the addresses the connection actually
+ * uses, so a DNS answer cannot change between the check and the request.
+ */
+export class HttpClient {
+  private options: HttpClientOptions;
+  private allowHosts: RegExp[] | null;
+  private denyHosts: RegExp[];
+  private dispatcher: Agent;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.options = options;
+    this.allowHosts = options.allowHosts ? options.allowHosts.map(hostPattern) : null;
+    this.denyHosts = (options.denyHosts || []).map(hostPattern);
+    this.dispatcher = new Agent({
+      connect: (options.blockPrivateNetworks ?? true) ? { lookup: publicOnlyLookup } : {}
+    });
+  }
+
+  /** Closes idle connections */
+  async close(): Promise<void> {
+    await this.dispatcher.close();
+  }
+
+  effectiveTimeout(requested?: number): number {
+    return Math.min(requested ?? this.options.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS, this.options.maxTimeoutMs ?? DEFAULT_MAX_TIMEOUT_MS);
+  }
+
+  /**
+   * Throws HttpPolicyError if the policy refuses the URL. IP addresses are
+   * checked here; the addresses a host name resolves to are checked when
+   * `request` connects.
+   */
+  async checkUrl(url: URL): Promise<void> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new HttpPolicyError(`Only http and https URLs are allowed, not ${url.protocol}`);
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (this.denyHosts.some(pattern => pattern.test(host))) {
+      throw new HttpPolicyError(`${host} is on the deny list`);
+    }
+    if (this.allowHosts && !this.allowHosts.some(pattern => pattern.test(host))) {
+      throw new HttpPolicyError(`${host} is not on the allow list`);
+    }
+
+    if ((this.options.blockPrivateNetworks ?? true) && net.isIP(host) && isPrivateAddress(host)) {
+      throw new HttpPolicyError(`${host} resolves to the private address ${host}`);
+    }
+  }
+
+  async request(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    let current = new URL(url);
+    Object.entries(options.query || {}).forEach(([name, value]) => current.searchParams.append(name, String(value)));
+
+    let method: HttpMethod = options.method || 'GET';
+    let body = options.body;
+    const headers = { ...options.headers };
+    const signal = withTimeout(options.signal, this.effectiveTimeout(options.timeoutMs));
+    const maxRedirects = this.options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    const redirects: string[] = [];
+
+    for (;;) {
+      await this.checkUrl(current);
+      let response: Response;
+      try {
+        response = await fetch(current, { method, headers, body, signal, redirect: 'manual', dispatcher: this.dispatcher });
+      } catch (error) {
+        // fetch hides why the connection failed; a refused address is the useful part
+        const cause = (error as { cause?: unknown } | undefined)?.cause;
+        throw cause instanceof HttpPolicyError ? cause : error;
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects.length >= maxRedirects) {
+          throw new Error(`Too many redirects (more than ${maxRedirects}); the last one pointed to ${location}`);
+        }
+        const next = new URL(location, current);
+        // 303, and 301/302 after a POST, turn into a GET without the body, as browsers do
+        if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+          method = method === 'HEAD' ? 'HEAD' : 'GET';
+          body = undefined;
+          delete headers['content-type'];
+          delete headers['Content-Type'];
+        }
+        // Credentials are only sent to the origin they were given for
+        if (next.origin !== current.origin) {
+          Object.keys(headers)
+            .filter(name => ['authorization', 'cookie'].includes(name.toLowerCase()))
+            .forEach(name => delete headers[name]);
+        }
+        redirects.push(next.toString());
+        current = next;
+        continue;
+      }
+
+      const declared = response.headers.get('content-length');
+      const { bytes, truncated } = await readLimited(response, this.options.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES);
+      return {
+        url: current.toString(),
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: bytes,
+        truncated,
+        declaredBytes: declared !== null && /^\d+$/.test(declared) ? Number(declared) : null,
+        redirects
+      };
+    }
+  }
+}
+
+/** dns.lookup for sockets, failing when any address a name resolves to is private */
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (error: Error | null, address: any, family?: number) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, undefined);
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      return callback(new HttpPolicyError(`${hostname} resolves to the private address ${blocked.address}`), undefined);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
+
+function hostPattern(pattern: string): RegExp {
+  return globToRegExp(pattern.toLowerCase());
+}
+
+/** Aborts after `ms`, or earlier if the caller's signal fires */
+function withTimeout(signal: AbortSignal | undefined, ms: number): AbortSignal {
+  return signal ? AbortSignal.any([signal, AbortSignal.timeout(ms)]) : AbortSignal.timeout(ms);
+}
+
+async function readLimited(response: Response, limit: number): Promise<{ bytes: Buffer; truncated: boolean }> {
+  if (!response.body) return { bytes: Buffer.alloc(0), truncated: false };
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return { bytes: Buffer.concat(chunks), truncated: false };
+    chunks.push(Buffer.from(value));
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return { bytes: Buffer.concat(chunks).subarray(0, limit), truncated: true };
+    }
+  }
+}
+
+const PRIVATE_IPV4 = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => PRIVATE_IPV4.addSubnet(network as string, prefix as number, 'ipv4'));
+
+const PRIVATE_IPV6 = new net.BlockList();
+[
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8], ['100::', 64], ['2001:db8::', 32],
+  // Teredo tunnels hide the IPv4 address they reach
+  ['2001::', 32]
+].forEach(([network, prefix]) => PRIVATE_IPV6.addSubnet(network as string, prefix as number, 'ipv6'));
+
+/**
+ * Loopback, private, link-local, carrier-grade NAT, documentation, multicast
+ * and reserved ranges. IPv6 addresses that embed an IPv4 address (mapped
+ * `::ffff:0:0/96`, compatible `::/96`, NAT64 `64:ff9b::/96` and
+ * `64:ff9b:1::/48`, 6to4 `2002::/16`) are judged by that address, in any
+ * notation.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return PRIVATE_IPV4.check(address, 'ipv4');
+  }
+  const groups = expandIPv6(address);
+  if (!groups) return true; // not an IP address at all; refuse rather than guess
+
+  const embedded = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+  const zeros = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+  if (zeros(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isPrivateAddress(embedded(groups[6], groups[7]));
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && (zeros(2, 6) || groups[2] === 1)) {
+    return isPrivateAddress(embedded(groups[6], groups[7]));
+  }
+  if (groups[0] === 0x2002) {
+    return isPrivateAddress(embedded(groups[1], groups[2]));
+  }
+  return PRIVATE_IPV6.check(groups.map(group => group.toString(16)).join(':'), 'ipv6');
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null if it is not one */
+function expandIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '').toLowerCase();
+  if (!net.isIPv6(text)) return null;
+
+  // A trailing dotted quad stands for the last two groups
+  const quad = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (quad) {
+    const [a, b, c, d] = quad.slice(1).map(Number);
+    text = `${text.slice(0, quad.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part: string | undefined) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const start = parse(head);
+  const end = parse(tail);
+  const groups = tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+  return groups.length === 8 ? groups : null;
+}
+
+/** Readable text from an HTML page: scripts, styles and tags removed, block elements on their own lines, links kept */
+export function htmlToText(html: string): string {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<a\b[^>]*?\bhref\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a\s*>/gi,
+      (_match, href: string, label: string) => /^(https?:|\/)/i.test(href) && label.trim() ? `${label} (${href})` : label)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<h([1-6])\b[^>]*>/gi, (_match, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|nav|main|aside|h[1-6]|ul|ol|table|tr|blockquote|pre|form)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/(td|th)\s*>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  const lines = decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \u00a0]*\t[ \t\u00a0]*/g, '\t').replace(/[ \u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return title ? `${decodeEntities(title[1]).trim()}\n\n${lines}` : lines;
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', mdash: '—', ndash: '–', hellip: '…', copy: '©' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+export const defaultHttpClient = new HttpClient();
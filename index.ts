@@ -1,15 +1,257 @@
-import Agent from './agent';
+#!/usr/bin/env node
+import Agent, { CancelledError, Message } from './agent';
+import { AgentConfig, CliOptions, createAgentFromProfile, loadConfig, parseCliArgs, resolveProfile, ResolvedProfile } from './config';
+import { ApprovalRequest, ApprovalResponse, PermissionPolicy } from './permissions';
+import { SessionStore } from './sessions';
+import { BudgetLimits, UsageTotals } from './budget';
+import { ModelRequestError } from './retry';
+import { JsonlTraceWriter, combineHooks, consoleHooks } from './hooks';
+import { McpManager } from './mcp';
+import { ShellSession } from './shell';
+import { USAGE_EXIT_CODE, runHeadlessCli } from './headless';
+import {
+  TODO_PRIORITIES,
+  TODO_STATUSES,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+  TodoStore,
+  addTodo,
+  formatTodoList,
+  moveTodo,
+  nextRunnableTodo,
+  removeTodo,
+  updateTodo
+} from './todos';
 import * as readline from 'readline';
 
 async function main() {
-  const agent = new Agent();
-  
+  let cli: CliOptions;
+  let config: AgentConfig;
+  try {
+    cli = parseCliArgs(process.argv.slice(2));
+    config = loadConfig(cli.configPath);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = USAGE_EXIT_CODE;
+    return;
+  }
+
+  // A prompt or `-` means a one-shot run for scripts and CI; a stdin that is not a terminal alone does not
+  if (cli.prompt !== undefined || cli.stdin) {
+    process.exitCode = await runHeadlessCli(cli, config);
+    return;
+  }
+
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
   });
 
-  console.log('🤖 Agent started! Type "exit" to quit.\n');
+  // Aborted by Ctrl+C while the agent is working on a message
+  let turn: AbortController | null = null;
+
+  const approve = (request: ApprovalRequest): Promise<ApprovalResponse> => {
+    return new Promise((resolve) => {
+      // A cancelled turn withdraws its pending question
+      const signal = turn?.signal;
+      signal?.addEventListener('abort', () => resolve('deny'), { once: true });
+      rl.question(`\n🔐 Allow ${request.toolCall.name}: ${request.subject}? [y]es / [n]o / [a]lways: `, { signal }, (answer) => {
+        const choice = answer.trim().toLowerCase();
+        resolve(choice === 'a' || choice === 'always' ? 'always' : choice === 'y' || choice === 'yes' ? 'allow' : 'deny');
+      });
+    });
+  };
+
+  // The REPL renders todo progress; embedded agents stay silent unless given hooks
+  const hooks = combineHooks(consoleHooks(), cli.tracePath ? new JsonlTraceWriter(cli.tracePath) : undefined);
+
+  // Started with the first message and shared by every profile's agent
+  const mcp = new McpManager(config.mcpServers);
+
+  // Shared across profile switches so the shell keeps its directory and variables
+  const shell = new ShellSession();
+
+  const todoStore = cli.todoFile ? new TodoStore(cli.todoFile) : undefined;
+  const sessionStore = new SessionStore();
+  // Shared across profile switches so "always" approvals survive them
+  const permissions = new PermissionPolicy();
+
+  // Command line flags only apply to the profile the REPL starts with
+  let profile: ResolvedProfile = resolveProfile(config, cli.profile, cli.overrides);
+  let agent: Agent = createAgentFromProfile(profile, { approve, permissions, sessionStore, hooks, mcp, shell, todoStore });
+
+  const switchProfile = (name: string): void => {
+    const next = resolveProfile(config, name);
+    const replacement = createAgentFromProfile(next, { approve, permissions, hooks, mcp, shell, todoStore });
+    replacement.importState(agent.exportState());
+    replacement.attachSession(sessionStore, agent.getSessionId());
+    agent = replacement;
+    profile = next;
+  };
+
+  const TODOS_USAGE = 'Usage: /todos [add [priority] <text> | edit <id> <text> | status <id> <status> | priority <id> <priority> | ' +
+    'note <id> <text> | depends <id> <ids|none> | move <id> <position> | remove <id>]';
+
+  // Applies a /todos subcommand to a copy of the list; throws on bad input
+  const editTodos = (todos: TodoItem[], [action, id, ...rest]: string[]): TodoItem[] => {
+    const text = rest.join(' ');
+    switch (action) {
+      case 'add': {
+        const words = [id, ...rest].filter(Boolean);
+        const priority = TODO_PRIORITIES.includes(words[0] as TodoPriority) ? words.shift() as TodoPriority : undefined;
+        if (words.length === 0) throw new Error(TODOS_USAGE);
+        return addTodo(todos, words.join(' '), priority);
+      }
+      case 'edit':
+        return updateTodo(todos, id, { content: text });
+      case 'status':
+        if (!TODO_STATUSES.includes(text as TodoStatus)) throw new Error(`Status must be one of ${TODO_STATUSES.join(', ')}`);
+        return updateTodo(todos, id, { status: text as TodoStatus });
+      case 'priority':
+        if (!TODO_PRIORITIES.includes(text as TodoPriority)) throw new Error(`Priority must be one of ${TODO_PRIORITIES.join(', ')}`);
+        return updateTodo(todos, id, { priority: text as TodoPriority });
+      case 'note':
+        return updateTodo(todos, id, { notes: text || undefined });
+      case 'depends':
+        return updateTodo(todos, id, { dependsOn: text === 'none' ? [] : text.split(/[\s,]+/).filter(Boolean) });
+      case 'move':
+        if (!/^\d+$/.test(text)) throw new Error(TODOS_USAGE);
+        return moveTodo(todos, id, Number(text));
+      case 'remove':
+        return removeTodo(todos, id);
+      default:
+        throw new Error(TODOS_USAGE);
+    }
+  };
+
+  const showTodos = (): void => {
+    const todos = agent.getTodos();
+    if (todos.length === 0) {
+      console.log('No todos. Add one with /todos add <text>.\n');
+      return;
+    }
+    const next = nextRunnableTodo(todos);
+    console.log(`📋 Todos:\n${formatTodoList(todos)}`);
+    console.log(next ? `   Next up: ${next.content}\n` : '');
+  };
+
+  // REPL-only commands; returns false for input that should go to the agent
+  const handleCommand = (input: string): boolean => {
+    const [command, ...args] = input.trim().split(/\s+/);
+
+    switch (command) {
+      case '/sessions': {
+        const sessions = sessionStore.list();
+        if (sessions.length === 0) {
+          console.log('No saved sessions.\n');
+          return true;
+        }
+        console.log('💾 Saved sessions:');
+        sessions.forEach(session => {
+          const current = session.id === agent.getSessionId() ? ' (current)' : '';
+          console.log(`   ${session.id}${current}  ${session.updatedAt}  ${session.messageCount} messages, ${session.todoCount} todos  ${session.title}`);
+        });
+        console.log('');
+        return true;
+      }
+      case '/resume': {
+        if (!args[0]) {
+          console.log('Usage: /resume <session-id>\n');
+          return true;
+        }
+        const record = agent.resumeSession(args[0]);
+        console.log(`💾 Resumed session ${record.id}: ${record.title} (${record.history.length} messages, ${record.todos.length} todos)\n`);
+        return true;
+      }
+      case '/profile': {
+        if (!args[0]) {
+          console.log('🎛️  Profiles:');
+          Object.entries(config.profiles).forEach(([name, entry]) => {
+            const current = name === profile.name ? ' (current)' : '';
+            console.log(`   ${name}${current}${entry.description ? `  ${entry.description}` : ''}`);
+          });
+          console.log('');
+          return true;
+        }
+        switchProfile(args[0]);
+        console.log(`🎛️  Switched to profile ${profile.name}\n`);
+        return true;
+      }
+      case '/usage': {
+        const usage = agent.getUsage();
+        const line = (label: string, totals: UsageTotals, limits: BudgetLimits) => {
+          const of = (max?: number) => max !== undefined ? `/${max}` : '';
+          console.log(`   ${label}: ${totals.turns}${of(limits.maxTurns)} turns, ${totals.toolCalls}${of(limits.maxToolCalls)} tool calls, ` +
+            `${totals.inputTokens}${of(limits.maxInputTokens)} input + ${totals.outputTokens}${of(limits.maxOutputTokens)} output tokens, ` +
+            `$${totals.costUsd.toFixed(4)}${limits.maxCostUsd !== undefined ? `/$${limits.maxCostUsd}` : ''}`);
+        };
+        console.log('📈 Usage:');
+        line('Last message', usage.chat, usage.limits.chat);
+        line('Session', usage.session, usage.limits.session);
+        console.log('');
+        return true;
+      }
+      case '/todos': {
+        if (args.length > 0) {
+          try {
+            agent.updateTodos(editTodos(agent.getTodos(), args));
+          } catch (error) {
+            console.log(`${error instanceof Error ? error.message : String(error)}\n`);
+            return true;
+          }
+        }
+        showTodos();
+        return true;
+      }
+      case '/subagents': {
+        const transcripts = agent.getSubAgentTranscripts();
+        if (!args[0]) {
+          if (transcripts.length === 0) {
+            console.log('No sub-agents have run yet.\n');
+            return true;
+          }
+          console.log('🧩 Sub-agents:');
+          transcripts.forEach(({ id, status, task, usage }) => {
+            console.log(`   ${id}  ${status}  ${usage ? `${usage.session.turns} turns  ` : ''}${task.split('\n')[0]}`);
+          });
+          console.log('');
+          return true;
+        }
+        const transcript = transcripts.find(item => item.id === args[0]);
+        if (!transcript) {
+          console.log(`No sub-agent ${args[0]}. Use /subagents to list them.\n`);
+          return true;
+        }
+        console.log(`🧩 ${transcript.id} (${transcript.status}, tools: ${transcript.tools.join(', ') || 'none'})`);
+        transcript.history.forEach(message => console.log(describeMessage(message)));
+        console.log('');
+        return true;
+      }
+      case '/save': {
+        const record = agent.saveSession();
+        console.log(`💾 Saved session ${record.id} to ${sessionStore.directory}\n`);
+        return true;
+      }
+      default:
+        return false;
+    }
+  };
+
+  console.log(`🤖 Agent started! Profile ${profile.name}, session ${agent.getSessionId()}. Type "exit" to quit.`);
+  console.log('   Commands: /profile [name], /usage, /sessions, /resume <id>, /save, /todos, /subagents [id], /execute-todos\n');
+
+  // The first Ctrl+C cancels the running turn; another one (or one at the prompt) exits
+  rl.on('SIGINT', () => {
+    if (turn && !turn.signal.aborted) {
+      process.stdout.write('\n⏹️  Cancelling... (press Ctrl+C again to quit)\n');
+      turn.abort();
+      return;
+    }
+    console.log('\n👋 Goodbye!');
+    rl.close();
+    agent.close().finally(() => process.exit(0));
+  });
 
   const askQuestion = (): Promise<string> => {
     return new Promise((resolve) => {
@@ -28,16 +270,73 @@ async function main() {
         break;
       }
 
-      console.log('🤖 Agent: Thinking...');
-      const response = await agent.processMessage(userInput);
-      console.log(`🤖 Agent: ${response}\n`);
+      if (handleCommand(userInput)) {
+        continue;
+      }
+
+      process.stdout.write('🤖 Agent: ');
+      turn = new AbortController();
+      for await (const event of agent.processMessageStream(userInput, turn.signal)) {
+        switch (event.type) {
+          case 'text_delta':
+            process.stdout.write(event.text);
+            break;
+          case 'tool_use_start':
+            process.stdout.write(`\n🔧 Using ${event.name}...`);
+            break;
+          case 'tool_result':
+            process.stdout.write(event.isError ? ` ❌ failed\n` : ` done\n`);
+            break;
+          case 'retry':
+            process.stdout.write(`\n⏳ Model API ${event.reason}, retrying in ${(event.delayMs / 1000).toFixed(1)}s (retry ${event.attempt})...\n`);
+            break;
+          case 'budget_exceeded':
+            process.stdout.write(`\n⛔ ${event.scope} budget exceeded: ${event.limit} (${event.used}/${event.max})\n`);
+            break;
+          case 'context_compacted':
+            process.stdout.write(`\n🗜️  Compacted context from ~${event.tokensBefore} to ~${event.tokensAfter} tokens\n`);
+            break;
+          case 'message':
+            process.stdout.write('\n\n');
+            break;
+        }
+      }
 
     } catch (error) {
-      console.error('❌ Error:', error);
+      if (error instanceof CancelledError) {
+        console.log('\n⏹️  Cancelled. The conversation keeps everything up to the cancelled step.\n');
+      } else if (error instanceof ModelRequestError) {
+        console.error(`\n❌ ${error.message}`);
+        console.error('   The conversation was rolled back to before your last message; send it again to retry.\n');
+      } else {
+        console.error('❌ Error:', error);
+      }
+    } finally {
+      turn = null;
     }
   }
 
   rl.close();
+  await agent.close();
+}
+
+// One line per block of a sub-agent transcript, with long tool results cut short
+function describeMessage(message: Message): string {
+  const clip = (text: string) => text.length > 200 ? `${text.slice(0, 200)}...` : text;
+  const blocks = typeof message.content === 'string' ? [{ type: 'text' as const, text: message.content }] : message.content;
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'text':
+        return `   ${message.role}: ${clip(block.text)}`;
+      case 'tool_use':
+        return `   🔧 ${block.name} ${JSON.stringify(block.input)}`;
+      case 'tool_result':
+        return `   ${block.is_error ? '❌' : '✓'} ${clip(block.content)}`;
+    }
+  }).join('\n');
 }
 
-main().catch(console.error);
\ No newline at end of file
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
\ No newline at end of file
@@ -0,0 +1,380 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createHash } from 'crypto';
+import * as readline from 'readline';
+import { Tool, ToolRegistry, ToolSchema } from './tools';
+
+export interface McpServerConfig {
+  command: string;
+  args?: string[];
+  /** Added to the agent's own environment */
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Timeout for each request to the server (default 30000ms) */
+  timeoutMs?: number;
+}
+
+export interface McpClientOptions {
+  /** How often a server that exits unexpectedly is started again (default 3) */
+  maxRestarts?: number;
+}
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: { type?: string; properties?: Record<string, any>; required?: string[] };
+}
+
+export interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  resource?: { uri: string; text?: string };
+}
+
+export interface McpCallResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export interface McpConnectResult {
+  /** Registry names of the tools that were registered */
+  tools: string[];
+  /** Servers that could not be started, and tools (`tool` set) left out because their name was taken */
+  failures: { server: string; tool?: string; error: Error }[];
+}
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+export const DEFAULT_MCP_TIMEOUT_MS = 30000;
+export const DEFAULT_MCP_MAX_RESTARTS = 3;
+
+const CLIENT_INFO = { name: 'simple-agent', version: '1.0.0' };
+const STDERR_TAIL = 2000;
+const SHUTDOWN_GRACE_MS = 2000;
+
+export class McpError extends Error {
+  /** JSON-RPC error code, when the server sent one */
+  readonly code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * JSON-RPC client for one MCP server over stdio (newline-delimited JSON).
+ * The server is spawned and initialized on first use and started again if it
+ * exits unexpectedly, up to `maxRestarts` times.
+ */
+export class McpClient {
+  readonly serverName: string;
+  private config: McpServerConfig;
+  private maxRestarts: number;
+  private child: ChildProcess | null = null;
+  private ready: Promise<void> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private stderr = '';
+  private starts = 0;
+  private closed = false;
+
+  constructor(serverName: string, config: McpServerConfig, options: McpClientOptions = {}) {
+    this.serverName = serverName;
+    this.config = config;
+    this.maxRestarts = options.maxRestarts ?? DEFAULT_MCP_MAX_RESTARTS;
+  }
+
+  get running(): boolean {
+    return this.child !== null;
+  }
+
+  /** Number of times the server had to be started again after exiting */
+  get restarts(): number {
+    return Math.max(0, this.starts - 1);
+  }
+
+  /** Spawns and initializes the server unless it is already running */
+  start(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new McpError(`MCP server '${this.serverName}' has been shut down`));
+    }
+    if (this.ready) {
+      return this.ready;
+    }
+    if (this.starts > this.maxRestarts) {
+      return Promise.reject(new McpError(`MCP server '${this.serverName}' keeps exiting; gave up after ${this.maxRestarts} restarts`));
+    }
+
+    this.starts++;
+    this.ready = this.spawnServer().catch(error => {
+      const child = this.child;
+      this.child = null;
+      this.ready = null;
+      child?.kill('SIGKILL');
+      throw error;
+    });
+    return this.ready;
+  }
+
+  async listTools(): Promise<McpToolInfo[]> {
+    await this.start();
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(page.tools || []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: any, signal?: AbortSignal): Promise<McpCallResult> {
+    await this.start();
+    return this.request('tools/call', { name, arguments: args ?? {} }, signal);
+  }
+
+  /** Closes the server's stdin and waits for it to exit, killing it if it does not */
+  async close(): Promise<void> {
+    this.closed = true;
+    const child = this.child;
+    if (!child) return;
+
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+    child.stdin?.end();
+    const timer = setTimeout(() => child.kill('SIGTERM'), SHUTDOWN_GRACE_MS);
+    const killer = setTimeout(() => child.kill('SIGKILL'), SHUTDOWN_GRACE_MS * 2);
+    await exited;
+    clearTimeout(timer);
+    clearTimeout(killer);
+  }
+
+  private async spawnServer(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args || [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.child = child;
+    this.stderr = '';
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', error => reject(new McpError(`Could not start MCP server '${this.serverName}': ${error.message}`)));
+    });
+
+    // Later errors (e.g. EPIPE after a crash) surface through 'exit' and pending requests
+    child.on('error', () => {});
+    child.stdin!.on('error', () => {});
+    child.stderr!.on('data', chunk => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-STDERR_TAIL);
+    });
+    readline.createInterface({ input: child.stdout! }).on('line', line => this.handleLine(line));
+    child.once('exit', (code, signal) => this.handleExit(child, code, signal));
+
+    await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO
+    });
+    this.notify('notifications/initialized');
+  }
+
+  private request(method: string, params: any, signal?: AbortSignal): Promise<any> {
+    if (!this.child) {
+      return Promise.reject(new McpError(`MCP server '${this.serverName}' is not running`));
+    }
+    signal?.throwIfAborted();
+
+    const id = this.nextId++;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(id);
+      };
+      const cancel = (error: Error, reason: string) => {
+        settle();
+        this.notify('notifications/cancelled', { requestId: id, reason });
+        reject(error);
+      };
+      const onAbort = () => cancel(signal!.reason, 'Cancelled by the user');
+      const timer = setTimeout(() => cancel(
+        new McpError(`MCP request ${method} to '${this.serverName}' timed out after ${timeoutMs}ms`), 'Timed out'), timeoutMs);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: result => { settle(); resolve(result); },
+        reject: error => { settle(); reject(error); }
+      });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: any): void {
+    this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  private send(message: object): void {
+    this.child?.stdin?.write(JSON.stringify(message) + '\n');
+  }
+
+  private handleLine(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      // Servers should only write JSON-RPC to stdout; ignore stray output
+      return;
+    }
+
+    if (message.method !== undefined) {
+      // Requests from the server: answer pings, decline everything else
+      if (message.id !== undefined) {
+        this.send(message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+      }
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    if (message.error) {
+      pending.reject(new McpError(`MCP server '${this.serverName}' returned an error: ${message.error.message}`, message.error.code));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private handleExit(child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    if (this.child !== child) return;
+    this.child = null;
+    this.ready = null;
+
+    const status = signal ? `was killed by ${signal}` : `exited with code ${code}`;
+    const stderr = this.stderr.trim() ? `: ${this.stderr.trim()}` : '';
+    const error = new McpError(`MCP server '${this.serverName}' ${status}${stderr}`);
+    for (const pending of Array.from(this.pending.values())) {
+      pending.reject(error);
+    }
+  }
+}
+
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Registry name for a server's tool; only the characters model APIs accept in
+ * tool names are kept. Names over 64 characters are cut short and end in a
+ * hash of the full name, so tools that share a long prefix stay apart.
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  const name = `${serverName}__${toolName}`;
+  const safe = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+  if (safe.length <= MAX_TOOL_NAME_LENGTH) {
+    return safe;
+  }
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, 8);
+  return `${safe.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+/** Renders tool result content as text; non-text content is described rather than dropped */
+export function formatMcpContent(content: McpContent[]): string {
+  return content.map(item => {
+    switch (item.type) {
+      case 'text':
+        return item.text ?? '';
+      case 'resource':
+        return item.resource?.text ?? `[resource: ${item.resource?.uri}]`;
+      default:
+        return `[${item.type}${item.mimeType ? `: ${item.mimeType}` : ''}]`;
+    }
+  }).join('\n');
+}
+
+/** Wraps a server's tool so calls are forwarded as `tools/call` requests */
+export function createMcpTool(client: McpClient, info: McpToolInfo): Tool {
+  const schema = info.inputSchema || {};
+  const inputSchema: ToolSchema = {
+    ...schema,
+    type: 'object',
+    properties: schema.properties || {},
+    required: schema.required || []
+  };
+
+  return {
+    name: mcpToolName(client.serverName, info.name),
+    description: `[${client.serverName}] ${info.description || info.name}`,
+    input_schema: inputSchema,
+    execute: async (input: any, { signal }): Promise<string> => {
+      const result = await client.callTool(info.name, input, signal);
+      const text = formatMcpContent(result.content || []);
+      if (result.isError) {
+        throw new Error(`MCP tool ${info.name} failed: ${text}`);
+      }
+      return text;
+    }
+  };
+}
+
+/**
+ * The configured MCP servers of an agent. `connect` starts them and
+ * registers their tools as `<server>__<tool>`; `close` shuts them down.
+ */
+export class McpManager {
+  private clients: Map<string, McpClient>;
+
+  constructor(servers: Record<string, McpServerConfig> = {}, options: McpClientOptions = {}) {
+    this.clients = new Map(Object.entries(servers).map(([name, config]) => [name, new McpClient(name, config, options)]));
+  }
+
+  get serverNames(): string[] {
+    return Array.from(this.clients.keys());
+  }
+
+  getClient(serverName: string): McpClient | undefined {
+    return this.clients.get(serverName);
+  }
+
+  /**
+   * Starts every server and registers its tools; a server that fails is
+   * reported and skipped, as is a tool whose name is already registered
+   */
+  async connect(registry: ToolRegistry): Promise<McpConnectResult> {
+    const result: McpConnectResult = { tools: [], failures: [] };
+
+    await Promise.all(Array.from(this.clients.values()).map(async client => {
+      try {
+        for (const info of await client.listTools()) {
+          const tool = createMcpTool(client, info);
+          // Different names can come out the same once unsupported characters are replaced
+          if (registry.get(tool.name)) {
+            result.failures.push({
+              server: client.serverName,
+              tool: info.name,
+              error: new McpError(`Its registry name ${tool.name} is already taken by another tool`)
+            });
+            continue;
+          }
+          registry.register(tool);
+          result.tools.push(tool.name);
+        }
+      } catch (error) {
+        result.failures.push({ server: client.serverName, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }));
+
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.clients.values()).map(client => client.close()));
+  }
+}
@@ -0,0 +1,146 @@
+import { ToolCall } from './tools';
+
+export type PermissionDecision = 'allow' | 'ask' | 'deny';
+
+export interface PermissionRule {
+  /** Tool name the rule applies to, or `*` for every tool */
+  tool: string;
+  /**
+   * Wildcard pattern matched against the call's subject (`*` matches anything);
+   * omit to match every call. In `allow` rules for commands, `*` never spans
+   * `;`, `&`, `|`, a backtick, a newline or `$(`, so `git status*` does not
+   * allow `git status && rm -rf ~`.
+   */
+  pattern?: string;
+  /** Match `pattern` as written, with `*` as a plain character */
+  exact?: boolean;
+  decision: PermissionDecision;
+}
+
+export interface PermissionPolicyOptions {
+  /** Decision per tool name when no rule matches */
+  tools?: Record<string, PermissionDecision>;
+  rules?: PermissionRule[];
+  /** Decision for tools that have neither a rule nor a per-tool entry */
+  defaultDecision?: PermissionDecision;
+}
+
+export interface PermissionCheck {
+  decision: PermissionDecision;
+  subject: string;
+  reason: string;
+}
+
+export interface ApprovalRequest {
+  toolCall: ToolCall;
+  subject: string;
+  reason: string;
+}
+
+export type ApprovalResponse = 'allow' | 'deny' | 'always';
+
+/** Asks a human whether a tool call may run; resolve `always` to also allow matching calls for the rest of the session */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalResponse>;
+
+export const DEFAULT_TOOL_PERMISSIONS: Record<string, PermissionDecision> = {
+  execute_command: 'ask',
+  start_process: 'ask',
+  shell: 'ask',
+  http_request: 'ask',
+  write_file: 'ask',
+  edit_file: 'ask'
+};
+
+const DECISION_PRECEDENCE: PermissionDecision[] = ['deny', 'ask', 'allow'];
+
+// Input fields that identify what a call acts on, in order of preference
+const SUBJECT_FIELDS = ['command', 'url', 'file_path', 'dir_path', 'path', 'q'];
+
+// What `*` matches in an allow rule for a command: anything but shell operators that start another command
+const COMMAND_WILDCARD = '(?:(?!\\$\\()[^;&|`\\n])*';
+
+/**
+ * Decides whether a tool call may run. Among matching rules the most
+ * restrictive wins (deny, then ask, then allow); without a matching rule the
+ * per-tool decision applies, then `defaultDecision`.
+ */
+export class PermissionPolicy {
+  private tools: Record<string, PermissionDecision>;
+  private rules: PermissionRule[];
+  private defaultDecision: PermissionDecision;
+
+  constructor(options: PermissionPolicyOptions = {}) {
+    this.tools = { ...DEFAULT_TOOL_PERMISSIONS, ...options.tools };
+    this.rules = [...(options.rules || [])];
+    this.defaultDecision = options.defaultDecision || 'allow';
+  }
+
+  addRule(rule: PermissionRule): void {
+    this.rules.push(rule);
+  }
+
+  /** Sets the per-tool decision for `tool` unless one was configured */
+  setToolDefault(tool: string, decision: PermissionDecision): void {
+    if (this.tools[tool] === undefined) {
+      this.tools[tool] = decision;
+    }
+  }
+
+  getRules(): PermissionRule[] {
+    return [...this.rules];
+  }
+
+  evaluate(toolCall: Omit<ToolCall, 'id'>): PermissionCheck {
+    const subject = describeSubject(toolCall);
+    const isCommand = typeof toolCall.input?.command === 'string';
+    const matching = this.rules.filter(rule =>
+      (rule.tool === '*' || rule.tool === toolCall.name) &&
+      (rule.pattern === undefined || matchesPattern(subject, rule.pattern, {
+        exact: rule.exact,
+        command: isCommand && rule.decision === 'allow'
+      }))
+    );
+
+    for (const decision of DECISION_PRECEDENCE) {
+      const rule = matching.find(candidate => candidate.decision === decision);
+      if (rule) {
+        return { decision, subject, reason: `rule ${rule.tool}${rule.pattern !== undefined ? ` "${rule.pattern}"` : ''}` };
+      }
+    }
+
+    if (this.tools[toolCall.name]) {
+      return { decision: this.tools[toolCall.name], subject, reason: `default policy for ${toolCall.name}` };
+    }
+
+    return { decision: this.defaultDecision, subject, reason: 'default policy' };
+  }
+}
+
+/** The string rules are matched against: the command, URL or path a call acts on */
+export function describeSubject(toolCall: Omit<ToolCall, 'id'>): string {
+  const input = toolCall.input || {};
+  for (const field of SUBJECT_FIELDS) {
+    if (typeof input[field] === 'string') {
+      return input[field];
+    }
+  }
+  return JSON.stringify(input);
+}
+
+export interface PatternOptions {
+  /** Compare literally; `*` is not a wildcard */
+  exact?: boolean;
+  /** Keep `*` from matching across shell operators, for allow rules on commands */
+  command?: boolean;
+}
+
+export function matchesPattern(subject: string, pattern: string, options: PatternOptions = {}): boolean {
+  if (options.exact) {
+    return subject.trim() === pattern.trim();
+  }
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join(options.command ? COMMAND_WILDCARD : '.*');
+  return new RegExp(`^${source}$`, 's').test(subject.trim());
+}
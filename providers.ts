@@ -0,0 +1,511 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { Message, ContentBlock, TextBlock, ToolUseBlock, ToolResultBlock } from './agent';
+import { ToolDefinition } from './tools';
+
+export interface ModelRequest {
+  /** System prompt sent ahead of the conversation */
+  system?: string;
+  messages: Message[];
+  tools: ToolDefinition[];
+  /** Cancels the request */
+  signal?: AbortSignal;
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type StopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence';
+
+export interface ModelResponse {
+  content: ContentBlock[];
+  stopReason: StopReason;
+  usage: ModelUsage;
+}
+
+export type ModelStreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_use_start'; id: string; name: string }
+  | { type: 'tool_use_end'; block: ToolUseBlock }
+  | { type: 'response'; response: ModelResponse };
+
+export interface ModelProvider {
+  readonly name: string;
+  readonly model: string;
+  createMessage(request: ModelRequest): Promise<ModelResponse>;
+  /** Optional incremental variant; must finish with a single `response` event. */
+  streamMessage?(request: ModelRequest): AsyncIterable<ModelStreamEvent>;
+}
+
+/**
+ * Replays a complete response as stream events, for providers that cannot
+ * stream and for the tail of streams that only know tool inputs at the end.
+ */
+export async function* streamResponse(response: ModelResponse, emitStarts = true): AsyncGenerator<ModelStreamEvent> {
+  for (const block of response.content) {
+    if (block.type === 'text' && emitStarts) {
+      yield { type: 'text_delta', text: block.text };
+    } else if (block.type === 'tool_use') {
+      if (emitStarts) {
+        yield { type: 'tool_use_start', id: block.id, name: block.name };
+      }
+      yield { type: 'tool_use_end', block };
+    }
+  }
+  yield { type: 'response', response };
+}
+
+/** A non-OK HTTP response from a model API; `status` and `headers` drive retry decisions */
+export class ModelApiError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(message: string, status: number, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'ModelApiError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_MAX_TOKENS = 1000;
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private client: Anthropic;
+  private maxTokens: number;
+  private temperature?: number;
+
+  constructor(options: AnthropicProviderOptions = {}) {
+    this.client = new Anthropic({
+      apiKey: options.apiKey ?? process.env.ANTHROPIC_API_KEY,
+      // Retries are handled by the agent's RetryPolicy so they are not multiplied
+      maxRetries: 0,
+    });
+    this.model = options.model || DEFAULT_ANTHROPIC_MODEL;
+    this.maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
+    this.temperature = options.temperature;
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.client.messages.create(this.buildParams(request), { signal: request.signal });
+    return fromAnthropicMessage(response);
+  }
+
+  async *streamMessage(request: ModelRequest): AsyncGenerator<ModelStreamEvent> {
+    const stream = this.client.messages.stream(this.buildParams(request), { signal: request.signal });
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+        yield { type: 'tool_use_start', id: event.content_block.id, name: event.content_block.name };
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield { type: 'text_delta', text: event.delta.text };
+      }
+    }
+
+    // Tool inputs arrive as partial JSON; take the parsed versions from the final message
+    yield* streamResponse(fromAnthropicMessage(await stream.finalMessage()), false);
+  }
+
+  private buildParams(request: ModelRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: this.model,
+      max_tokens: this.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      ...(this.temperature !== undefined ? { temperature: this.temperature } : {}),
+      messages: request.messages.map(toAnthropicMessage),
+      tools: request.tools as unknown as Anthropic.Tool[],
+    };
+  }
+}
+
+function fromAnthropicMessage(message: Anthropic.Message): ModelResponse {
+  return {
+    content: message.content.map(fromAnthropicBlock),
+    stopReason: message.stop_reason || 'end_turn',
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens
+    }
+  };
+}
+
+function toAnthropicMessage(message: Message): Anthropic.MessageParam {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content };
+  }
+
+  return {
+    role: message.role,
+    content: message.content.map(block => {
+      switch (block.type) {
+        case 'text':
+          return { type: 'text', text: block.text };
+        case 'tool_use':
+          return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+        case 'tool_result':
+          return {
+            type: 'tool_result',
+            tool_use_id: block.tool_use_id,
+            content: block.content,
+            ...(block.is_error ? { is_error: true } : {})
+          };
+      }
+    })
+  };
+}
+
+function fromAnthropicBlock(block: Anthropic.ContentBlock): ContentBlock {
+  if (block.type === 'tool_use') {
+    return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+  }
+  return { type: 'text', text: block.text };
+}
+
+export interface OpenAICompatibleProviderOptions {
+  baseURL?: string;
+  apiKey?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API
+ * (OpenAI itself, vLLM, Ollama, llama.cpp, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseURL: string;
+  private apiKey?: string;
+  private maxTokens: number;
+  private temperature?: number;
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    this.baseURL = (options.baseURL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
+    this.maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
+    this.temperature = options.temperature;
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.post(request, false);
+    return fromOpenAIResponse(await response.json());
+  }
+
+  async *streamMessage(request: ModelRequest): AsyncGenerator<ModelStreamEvent> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error('OpenAI-compatible API returned an empty stream');
+    }
+
+    let text = '';
+    let finishReason: string | undefined;
+    let usage: any;
+    const toolCalls: { id: string; function: { name: string; arguments: string } }[] = [];
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') break;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        throw new Error(`OpenAI-compatible API sent a malformed stream chunk: ${data.slice(0, 200)}`);
+      }
+      if (chunk.usage) usage = chunk.usage;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+
+      if (choice.delta?.content) {
+        text += choice.delta.content;
+        yield { type: 'text_delta', text: choice.delta.content };
+      }
+
+      // Tool calls stream as fragments keyed by index: the first carries id and name
+      for (const fragment of choice.delta?.tool_calls || []) {
+        const index = fragment.index ?? 0;
+        if (!toolCalls[index]) {
+          toolCalls[index] = { id: fragment.id, function: { name: fragment.function?.name || '', arguments: '' } };
+          yield { type: 'tool_use_start', id: fragment.id, name: toolCalls[index].function.name };
+        }
+        toolCalls[index].function.arguments += fragment.function?.arguments || '';
+      }
+    }
+
+    const final = fromOpenAIResponse({
+      choices: [{ message: { content: text, tool_calls: toolCalls.filter(Boolean) }, finish_reason: finishReason }],
+      usage
+    });
+    yield* streamResponse(final, false);
+  }
+
+  private async post(request: ModelRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        ...(this.temperature !== undefined ? { temperature: this.temperature } : {}),
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          ...request.messages.flatMap(toOpenAIMessages)
+        ],
+        ...(request.tools.length > 0 ? { tools: request.tools.map(toOpenAITool) } : {}),
+        // Without include_usage the stream carries no token counts at all
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 500);
+      throw new ModelApiError(
+        `OpenAI-compatible API error: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`,
+        response.status,
+        Object.fromEntries(response.headers.entries())
+      );
+    }
+
+    return response;
+  }
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    // A consumer that stops early (or throws) would otherwise leave the connection open
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+function toOpenAITool(tool: ToolDefinition): any {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema
+    }
+  };
+}
+
+function toOpenAIMessages(message: Message): any[] {
+  if (typeof message.content === 'string') {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  const text = message.content
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+
+  if (message.role === 'assistant') {
+    const toolUses = message.content.filter((block): block is ToolUseBlock => block.type === 'tool_use');
+    return [{
+      role: 'assistant',
+      content: text || null,
+      ...(toolUses.length > 0 ? {
+        tool_calls: toolUses.map(block => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+        }))
+      } : {})
+    }];
+  }
+
+  // Tool results become one `tool` message each; any accompanying text follows as a user message
+  const messages: any[] = message.content
+    .filter((block): block is ToolResultBlock => block.type === 'tool_result')
+    .map(block => ({
+      role: 'tool',
+      tool_call_id: block.tool_use_id,
+      // The chat format has no error flag, so failures are marked in the text unless they say so already
+      content: block.is_error && !/^error\b/i.test(block.content) ? `Error: ${block.content}` : block.content
+    }));
+
+  if (text) {
+    messages.push({ role: 'user', content: text });
+  }
+
+  return messages;
+}
+
+function fromOpenAIResponse(data: any): ModelResponse {
+  const choice = data.choices?.[0];
+  if (!choice) {
+    throw new Error('OpenAI-compatible API returned no choices');
+  }
+
+  const content: ContentBlock[] = [];
+  if (choice.message?.content) {
+    content.push({ type: 'text', text: choice.message.content });
+  }
+
+  for (const toolCall of choice.message?.tool_calls || []) {
+    let input: any = {};
+    try {
+      input = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch {
+      // Leave malformed arguments for the tool to reject rather than failing the whole turn
+      input = { _raw: toolCall.function.arguments };
+    }
+    content.push({ type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input });
+  }
+
+  // Some local servers report `stop` even when they return tool calls
+  const stopReason: StopReason =
+    content.some(block => block.type === 'tool_use') ? 'tool_use' :
+    choice.finish_reason === 'length' ? 'max_tokens' :
+    'end_turn';
+
+  return {
+    content,
+    stopReason,
+    usage: {
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0
+    }
+  };
+}
+
+export interface ProviderSettings {
+  /** `openai` or `anthropic`; overrides `MODEL_PROVIDER` */
+  provider?: 'anthropic' | 'openai';
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Picks a provider from the environment: `MODEL_PROVIDER=openai` selects the
+ * OpenAI-compatible adapter (configured through `OPENAI_BASE_URL`, `OPENAI_API_KEY`
+ * and `OPENAI_MODEL`), anything else uses Anthropic. `settings` take precedence
+ * over the environment.
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env, settings: ProviderSettings = {}): ModelProvider {
+  const { maxTokens, temperature } = settings;
+
+  if ((settings.provider || env.MODEL_PROVIDER) === 'openai') {
+    return new OpenAICompatibleProvider({
+      baseURL: env.OPENAI_BASE_URL,
+      apiKey: env.OPENAI_API_KEY,
+      model: settings.model || env.OPENAI_MODEL,
+      maxTokens,
+      temperature
+    });
+  }
+
+  return new AnthropicProvider({ model: settings.model || env.ANTHROPIC_MODEL, maxTokens, temperature });
+}
+
+export interface ScriptedTurn {
+  content: ContentBlock[];
+  stopReason?: StopReason;
+  usage?: Partial<ModelUsage>;
+}
+
+export type ScriptStep = ScriptedTurn | ContentBlock[] | ((request: ModelRequest) => ScriptedTurn | ContentBlock[]);
+
+/**
+ * Deterministic provider that replays a fixed script of assistant turns and
+ * records every request it receives. Used to drive the agent loop in tests
+ * and offline runs without a live model.
+ */
+export class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+  readonly model: string;
+  readonly requests: ModelRequest[] = [];
+  private steps: ScriptStep[];
+
+  constructor(steps: ScriptStep[] = [], model = 'scripted-model') {
+    this.steps = [...steps];
+    this.model = model;
+  }
+
+  enqueue(...steps: ScriptStep[]): void {
+    this.steps.push(...steps);
+  }
+
+  get remaining(): number {
+    return this.steps.length;
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    // Snapshot the request: the agent keeps mutating its history after the call
+    const { signal, ...serializable } = request;
+    const snapshot: ModelRequest = JSON.parse(JSON.stringify(serializable));
+    this.requests.push(snapshot);
+    signal?.throwIfAborted();
+
+    const step = this.steps.shift();
+    if (!step) {
+      throw new Error(`ScriptedProvider script exhausted after ${this.requests.length - 1} turns`);
+    }
+
+    const resolved = typeof step === 'function' ? step(snapshot) : step;
+    const turn: ScriptedTurn = Array.isArray(resolved) ? { content: resolved } : resolved;
+
+    return {
+      content: turn.content,
+      stopReason: turn.stopReason || (turn.content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn'),
+      usage: {
+        inputTokens: turn.usage?.inputTokens || 0,
+        outputTokens: turn.usage?.outputTokens || 0
+      }
+    };
+  }
+}
+
+export function textBlock(text: string): TextBlock {
+  return { type: 'text', text };
+}
+
+export function toolUseBlock(id: string, name: string, input: any = {}): ToolUseBlock {
+  return { type: 'tool_use', id, name, input };
+}
@@ -0,0 +1,202 @@
+export interface ErrorClassification {
+  retryable: boolean;
+  /** HTTP status, when the error came from an API response */
+  status?: number;
+  /** Delay the server asked for through `retry-after` */
+  retryAfterMs?: number;
+  reason: string;
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on each further retry (default 1000ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay, including one requested through `retry-after` (default 30000ms) */
+  maxDelayMs?: number;
+  /** Source of jitter in [0, 1) (default `Math.random`) */
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_BASE_DELAY_MS = 1000;
+export const DEFAULT_MAX_DELAY_MS = 30000;
+
+const FATAL_STATUSES: Record<number, string> = {
+  400: 'invalid request',
+  401: 'authentication failed',
+  403: 'permission denied',
+  404: 'not found',
+  409: 'conflict',
+  413: 'request too large',
+  422: 'invalid request'
+};
+
+const RETRYABLE_STATUSES: Record<number, string> = {
+  408: 'request timed out',
+  429: 'rate limited',
+  529: 'overloaded'
+};
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+/** A model request that failed for good, after any retries */
+export class ModelRequestError extends Error {
+  readonly classification: ErrorClassification;
+  readonly attempts: number;
+  readonly cause: unknown;
+
+  constructor(cause: unknown, classification: ErrorClassification, attempts: number) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    super(`Model request failed (${classification.reason}) after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${message}`);
+    this.name = 'ModelRequestError';
+    this.classification = classification;
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Sorts provider errors into retryable (rate limits, overload, 5xx, timeouts,
+ * dropped connections) and fatal (authentication, validation and anything
+ * unrecognised). Works with any error carrying a numeric `status` and
+ * optional `headers`, which covers the Anthropic SDK and `ModelApiError`.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  const candidate = error as any;
+  const status = typeof candidate?.status === 'number' ? candidate.status : undefined;
+
+  if (status !== undefined) {
+    const retryAfterMs = parseRetryAfter(readHeader(candidate.headers, 'retry-after'));
+    if (FATAL_STATUSES[status]) {
+      return { retryable: false, status, reason: FATAL_STATUSES[status] };
+    }
+    if (RETRYABLE_STATUSES[status] || status >= 500) {
+      return { retryable: true, status, retryAfterMs, reason: RETRYABLE_STATUSES[status] || 'server error' };
+    }
+    return { retryable: false, status, reason: `HTTP ${status}` };
+  }
+
+  const name = String(candidate?.name || '');
+  const code = candidate?.code || candidate?.cause?.code;
+  if (name === 'AbortError') {
+    return { retryable: false, reason: 'aborted' };
+  }
+  // A misspelled host will not start resolving on the next attempt
+  if (code === 'ENOTFOUND') {
+    return { retryable: false, reason: 'host not found' };
+  }
+  if (/timeout/i.test(name) || code === 'ETIMEDOUT') {
+    return { retryable: true, reason: 'timed out' };
+  }
+  if (name === 'APIConnectionError' || NETWORK_ERROR_CODES.has(code) || (error instanceof TypeError && /fetch failed/i.test(error.message))) {
+    return { retryable: true, reason: 'network error' };
+  }
+
+  return { retryable: false, reason: 'unexpected error' };
+}
+
+/** Parses a `retry-after` value given in seconds or as an HTTP date */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Decides whether and when to retry a failed model request: exponential
+ * backoff with jitter, or the server's `retry-after` when it gives one.
+ */
+export class RetryPolicy {
+  readonly maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private random: () => number;
+  private sleeper?: (ms: number) => Promise<void>;
+
+  constructor(options: RetryOptions = {}) {
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.random = options.random || Math.random;
+    this.sleeper = options.sleep;
+  }
+
+  /** Delay before retrying after `failures` failed attempts, or null to give up */
+  delayFor(classification: ErrorClassification, failures: number): number | null {
+    if (!classification.retryable || failures > this.maxRetries) {
+      return null;
+    }
+
+    if (classification.retryAfterMs !== undefined) {
+      // Waiting longer than we are willing to would only postpone the failure
+      return classification.retryAfterMs <= this.maxDelayMs ? classification.retryAfterMs : null;
+    }
+
+    // Keep at least half of the exponential delay so retries never bunch up at zero
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (failures - 1));
+    return Math.round(ceiling / 2 + this.random() * ceiling / 2);
+  }
+
+  /** Waits `ms`, rejecting early with the signal's reason if it is aborted */
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const done = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (this.sleeper) {
+        this.sleeper(ms).then(done, reject);
+      } else {
+        timer = setTimeout(done, ms);
+      }
+    });
+  }
+
+  /**
+   * Runs `operation`, retrying retryable failures; throws `ModelRequestError`
+   * once it gives up. Aborting `signal` ends a backoff wait with the signal's reason.
+   */
+  async run<T>(
+    operation: () => Promise<T>,
+    onRetry?: (classification: ErrorClassification, attempt: number, delayMs: number) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    for (let failures = 1; ; failures++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const classification = classifyError(error);
+        const delay = this.delayFor(classification, failures);
+        if (delay === null) {
+          throw new ModelRequestError(error, classification, failures);
+        }
+        onRetry?.(classification, failures, delay);
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+}
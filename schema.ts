@@ -0,0 +1,155 @@
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: any[];
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ValidationIssue {
+  /** Location of the offending value, e.g. `todos[0].status`; empty for the input itself */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  /** The input with schema defaults applied */
+  value: any;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Validates a value against the subset of JSON Schema used by tool definitions:
+ * types, required properties, enums, numeric/length/item bounds and defaults.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: any): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const result = check(schema, value, '', issues);
+  return { value: result, issues };
+}
+
+function check(schema: JsonSchema, value: any, path: string, issues: ValidationIssue[]): any {
+  const fail = (message: string) => issues.push({ path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      fail(`expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    fail(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters long`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      return value.map((item, index) => check(itemSchema, item, `${path}[${index}]`, issues));
+    }
+    return value;
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.required)) {
+    const properties = schema.properties || {};
+    const result: Record<string, any> = { ...value };
+
+    for (const name of schema.required || []) {
+      if (value[name] === undefined && properties[name]?.default === undefined) {
+        issues.push({ path: joinPath(path, name), message: 'is required' });
+      }
+    }
+
+    for (const [name, propertySchema] of Object.entries(properties)) {
+      if (value[name] === undefined) {
+        if (propertySchema.default !== undefined) {
+          result[name] = propertySchema.default;
+        }
+        continue;
+      }
+      result[name] = check(propertySchema, value[name], joinPath(path, name), issues);
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const name of Object.keys(value)) {
+        if (!(name in properties)) {
+          issues.push({ path: joinPath(path, name), message: 'is not an allowed property' });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'nothing';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
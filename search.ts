@@ -0,0 +1,294 @@
+import * as fs from 'fs';
+import { HttpClient, HttpResponse, defaultHttpClient } from './http';
+
+export type SearchFreshness = 'day' | 'week' | 'month' | 'year';
+
+export const SEARCH_FRESHNESS: SearchFreshness[] = ['day', 'week', 'month', 'year'];
+
+export interface SearchQuery {
+  query: string;
+  /** Results per page */
+  count: number;
+  /** 1-based page number */
+  page: number;
+  /** Only results published within this window */
+  freshness?: SearchFreshness;
+  /** Country code such as `US`; providers without regional results ignore it */
+  country?: string;
+}
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  /** ISO date or date-time, if the provider knows it */
+  publishedAt: string | null;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  /** Another page of results is available */
+  moreAvailable: boolean;
+}
+
+/** A web search backend behind the `search` tool */
+export interface SearchProvider {
+  readonly name: string;
+  search(query: SearchQuery, signal?: AbortSignal): Promise<SearchPage>;
+}
+
+/** The `search` section of a profile: which provider the `search` tool uses */
+export interface SearchConfig {
+  provider: 'brave' | 'searxng' | 'fixture';
+  /** Base URL of the Brave API or of a SearXNG instance */
+  baseUrl?: string;
+  /** JSON file of documents for the `fixture` provider */
+  indexPath?: string;
+  /** Let the provider reach localhost and private networks, e.g. a self-hosted SearXNG (default false) */
+  allowPrivateNetworks?: boolean;
+}
+
+export interface BraveSearchOptions {
+  /** Defaults to the `BRAVE_API_KEY` environment variable, read at search time */
+  apiKey?: string;
+  /** Default `https://api.search.brave.com` */
+  baseUrl?: string;
+  http?: HttpClient;
+}
+
+const BRAVE_FRESHNESS: Record<SearchFreshness, string> = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+// Brave pages through at most 10 pages of results
+const BRAVE_MAX_PAGE = 10;
+
+/** The Brave Search web API */
+export class BraveSearchProvider implements SearchProvider {
+  readonly name = 'brave';
+  private options: BraveSearchOptions;
+
+  constructor(options: BraveSearchOptions = {}) {
+    this.options = options;
+  }
+
+  async search(query: SearchQuery, signal?: AbortSignal): Promise<SearchPage> {
+    const apiKey = this.options.apiKey ?? process.env.BRAVE_API_KEY;
+    if (!apiKey) {
+      throw new Error('BRAVE_API_KEY environment variable is not set');
+    }
+    if (query.page > BRAVE_MAX_PAGE) {
+      throw new Error(`Brave Search returns at most ${BRAVE_MAX_PAGE} pages`);
+    }
+
+    const response = await (this.options.http || defaultHttpClient).request(`${trimSlash(this.options.baseUrl || 'https://api.search.brave.com')}/res/v1/web/search`, {
+      headers: { 'Accept': 'application/json', 'X-Subscription-Token': apiKey },
+      query: {
+        q: query.query,
+        count: query.count,
+        offset: query.page - 1,
+        country: query.country || 'US',
+        ...(query.freshness ? { freshness: BRAVE_FRESHNESS[query.freshness] } : {})
+      },
+      signal
+    });
+    const data = parseJson(response, 'Brave Search API');
+
+    return {
+      results: (data.web?.results || []).map((item: any): SearchResult => ({
+        title: stripTags(item.title || ''),
+        url: item.url,
+        snippet: stripTags(item.description || ''),
+        publishedAt: item.page_age || null
+      })),
+      moreAvailable: data.query?.more_results_available === true && query.page < BRAVE_MAX_PAGE
+    };
+  }
+}
+
+export interface SearxngSearchOptions {
+  /** The instance, e.g. `https://searx.example.org`; its JSON output format must be enabled */
+  baseUrl: string;
+  /**
+   * A self-hosted instance on localhost or a private network needs a client
+   * created with `blockPrivateNetworks: false`
+   */
+  http?: HttpClient;
+}
+
+/** A SearXNG metasearch instance, through its JSON API */
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng';
+  private options: SearxngSearchOptions;
+
+  constructor(options: SearxngSearchOptions) {
+    this.options = options;
+  }
+
+  async search(query: SearchQuery, signal?: AbortSignal): Promise<SearchPage> {
+    const response = await (this.options.http || defaultHttpClient).request(`${trimSlash(this.options.baseUrl)}/search`, {
+      headers: { 'Accept': 'application/json' },
+      query: {
+        q: query.query,
+        format: 'json',
+        pageno: query.page,
+        ...(query.freshness ? { time_range: query.freshness } : {})
+      },
+      signal
+    });
+    const data = parseJson(response, 'SearXNG');
+
+    // SearXNG has no page size; its pages hold whatever its engines returned
+    const results: any[] = data.results || [];
+    // Many engines report no total (0), so a page with fewer results than asked for is taken as the last
+    const total = typeof data.number_of_results === 'number' ? data.number_of_results : 0;
+    return {
+      results: results.slice(0, query.count).map((item): SearchResult => ({
+        title: item.title || '',
+        url: item.url,
+        snippet: item.content || '',
+        publishedAt: item.publishedDate || null
+      })),
+      moreAvailable: total > 0 ? total > query.page * results.length : results.length >= query.count
+    };
+  }
+}
+
+/** One entry of a fixture index */
+export interface FixtureDocument {
+  title: string;
+  url: string;
+  snippet: string;
+  publishedAt?: string;
+  /** Searched but not returned */
+  content?: string;
+}
+
+export interface FixtureSearchOptions {
+  /** A JSON file holding an array of documents, read on the first search */
+  indexPath?: string;
+  documents?: FixtureDocument[];
+  /** The time freshness windows are measured from (default: now) */
+  now?: () => Date;
+}
+
+const FRESHNESS_DAYS: Record<SearchFreshness, number> = { day: 1, week: 7, month: 31, year: 366 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Searches a local list of documents, for offline runs and tests. Documents
+ * matching more query words rank higher, and title matches count triple.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'fixture';
+  private options: FixtureSearchOptions;
+  private documents: FixtureDocument[] | null;
+
+  constructor(options: FixtureSearchOptions) {
+    if (!options.indexPath && !options.documents) {
+      throw new Error('The fixture search provider needs an indexPath or documents');
+    }
+    this.options = options;
+    this.documents = options.documents || null;
+  }
+
+  async search(query: SearchQuery): Promise<SearchPage> {
+    const words = tokenize(query.query);
+    const since = query.freshness
+      ? (this.options.now ? this.options.now() : new Date()).getTime() - FRESHNESS_DAYS[query.freshness] * DAY_MS
+      : null;
+
+    const matches = this.load()
+      .filter(document => since === null || (document.publishedAt !== undefined && Date.parse(document.publishedAt) >= since))
+      .map(document => ({ document, score: score(document, words) }))
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const start = (query.page - 1) * query.count;
+    return {
+      results: matches.slice(start, start + query.count).map(({ document }) => ({
+        title: document.title,
+        url: document.url,
+        snippet: document.snippet,
+        publishedAt: document.publishedAt || null
+      })),
+      moreAvailable: matches.length > start + query.count
+    };
+  }
+
+  private load(): FixtureDocument[] {
+    if (this.documents) return this.documents;
+
+    const indexPath = this.options.indexPath!;
+    let documents: unknown;
+    try {
+      documents = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not read search index ${indexPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(documents) || documents.some(document => typeof document?.title !== 'string' || typeof document?.url !== 'string')) {
+      throw new Error(`Search index ${indexPath} must be an array of documents with a title and url`);
+    }
+    this.documents = documents.map(document => ({ ...document, snippet: document.snippet || '' }));
+    return this.documents;
+  }
+}
+
+/**
+ * Builds the provider a profile's `search` section names. HTTP providers use
+ * `http`, or with `allowPrivateNetworks` a client of their own that lets them
+ * reach private addresses.
+ */
+export function createSearchProvider(config: SearchConfig, http?: HttpClient): SearchProvider {
+  if (config.allowPrivateNetworks && config.provider !== 'fixture') {
+    http = new HttpClient({ blockPrivateNetworks: false });
+  }
+  switch (config.provider) {
+    case 'brave':
+      return new BraveSearchProvider({ baseUrl: config.baseUrl, http });
+    case 'searxng':
+      if (!config.baseUrl) {
+        throw new Error('The searxng search provider needs a baseUrl');
+      }
+      return new SearxngSearchProvider({ baseUrl: config.baseUrl, http });
+    case 'fixture':
+      if (!config.indexPath) {
+        throw new Error('The fixture search provider needs an indexPath');
+      }
+      return new FixtureSearchProvider({ indexPath: config.indexPath });
+    default:
+      throw new Error(`Unknown search provider '${(config as SearchConfig).provider}'`);
+  }
+}
+
+function parseJson(response: HttpResponse, service: string): any {
+  if (response.status >= 400) {
+    throw new Error(`${service} error: ${response.status} ${response.statusText}`);
+  }
+  if (response.truncated) {
+    throw new Error(`${service} response was larger than the HTTP client's size limit`);
+  }
+  try {
+    return JSON.parse(response.body.toString('utf-8'));
+  } catch {
+    throw new Error(`${service} returned invalid JSON`);
+  }
+}
+
+function score(document: FixtureDocument, words: string[]): number {
+  const title = new Set(tokenize(document.title));
+  const body = new Set(tokenize(`${document.snippet} ${document.content || ''} ${document.url}`));
+  return words.reduce((total, word) => total + (title.has(word) ? 3 : 0) + (body.has(word) ? 1 : 0), 0);
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Brave marks query words in titles and descriptions with <strong>
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, '');
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export const defaultSearchProvider: SearchProvider = new BraveSearchProvider();
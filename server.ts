@@ -0,0 +1,355 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import Agent, { AgentEvent, CancelledError } from './agent';
+import { createAgentFromProfile, loadConfig, parseCliArgs, resolveProfile } from './config';
+import { JsonlTraceWriter } from './hooks';
+import { McpManager } from './mcp';
+import { SessionStore } from './sessions';
+
+export interface SessionInfo {
+  id: string;
+  profile?: string;
+  createdAt: string;
+  /** Whether a message is being processed right now */
+  busy: boolean;
+}
+
+export interface AgentServerOptions {
+  /** Builds the agent for a new session; `profile` is whatever the client asked for */
+  createAgent: (sessionId: string, profile?: string) => Agent;
+  /** Used to create session ids; sessions are also persisted if the agents are given this store */
+  sessionStore?: SessionStore;
+  /** Largest accepted request body (default 1 MiB) */
+  maxBodyBytes?: number;
+  /** Clients must send `Authorization: Bearer <token>`; leave unset only where every local process is trusted */
+  token?: string;
+}
+
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+interface Session {
+  id: string;
+  profile?: string;
+  createdAt: string;
+  agent: Agent;
+  turn: AbortController | null;
+}
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  handle: (request: http.IncomingMessage, response: http.ServerResponse, params: string[]) => Promise<void>;
+};
+
+/**
+ * HTTP/JSON API over a set of sessions, each with its own `Agent`:
+ *
+ * - `POST /sessions` creates a session (`{ "profile"?: string }`) under an id chosen by the server
+ * - `GET /sessions` lists sessions; `GET /sessions/:id` returns one with its history, todos and usage
+ * - `GET /sessions/:id/history`, `GET /sessions/:id/todos` and `GET /sessions/:id/subagents` (sub-agent transcripts)
+ * - `POST /sessions/:id/messages` sends `{ "message": string }` and answers `{ text, cancelled, usage }`;
+ *   with `Accept: text/event-stream` (or `?stream=true`) the agent's events are streamed as
+ *   Server-Sent Events, ending with a `done` or `error` event
+ * - `POST /sessions/:id/cancel` cancels the running message
+ * - `DELETE /sessions/:id` cancels and forgets the session
+ *
+ * Tool calls that need approval are denied, as there is nobody to ask.
+ * Requests from browsers (with an `Origin` header) are refused, and POST
+ * bodies must be `application/json`, so a web page cannot start an agent.
+ */
+export class AgentServer {
+  private sessions = new Map<string, Session>();
+  private options: AgentServerOptions;
+  private server: http.Server;
+  private routes: Route[];
+
+  constructor(options: AgentServerOptions) {
+    this.options = options;
+    this.server = http.createServer((request, response) => this.handle(request, response));
+    this.routes = [
+      { method: 'POST', pattern: /^\/sessions$/, handle: (request, response) => this.createSession(request, response) },
+      { method: 'GET', pattern: /^\/sessions$/, handle: async (_request, response) => sendJson(response, 200, { sessions: this.listSessions() }) },
+      { method: 'GET', pattern: /^\/sessions\/([^/]+)$/, handle: async (_request, response, [id]) => sendJson(response, 200, this.describeSession(this.getSession(id))) },
+      { method: 'GET', pattern: /^\/sessions\/([^/]+)\/history$/, handle: async (_request, response, [id]) => sendJson(response, 200, { history: this.getSession(id).agent.getConversationHistory() }) },
+      { method: 'GET', pattern: /^\/sessions\/([^/]+)\/todos$/, handle: async (_request, response, [id]) => sendJson(response, 200, { todos: this.getSession(id).agent.getTodos() }) },
+      { method: 'GET', pattern: /^\/sessions\/([^/]+)\/subagents$/, handle: async (_request, response, [id]) => sendJson(response, 200, { subAgents: this.getSession(id).agent.getSubAgentTranscripts() }) },
+      { method: 'POST', pattern: /^\/sessions\/([^/]+)\/messages$/, handle: (request, response, [id]) => this.postMessage(request, response, this.getSession(id)) },
+      { method: 'POST', pattern: /^\/sessions\/([^/]+)\/cancel$/, handle: async (_request, response, [id]) => sendJson(response, 202, { cancelled: this.cancel(this.getSession(id)) }) },
+      { method: 'DELETE', pattern: /^\/sessions\/([^/]+)$/, handle: async (_request, response, [id]) => this.deleteSession(response, this.getSession(id)) }
+    ];
+  }
+
+  /** Starts listening; resolves with the bound address (port 0 picks a free port) */
+  listen(port: number = DEFAULT_PORT, host: string = DEFAULT_HOST): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /** Cancels running messages and stops accepting connections */
+  async close(): Promise<void> {
+    this.sessions.forEach(session => session.turn?.abort());
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  listSessions(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map(({ id, profile, createdAt, turn }) => ({ id, profile, createdAt, busy: turn !== null }));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+
+    try {
+      this.checkRequest(request);
+      const matches = this.routes.filter(route => route.pattern.test(pathname));
+      const route = matches.find(candidate => candidate.method === request.method);
+      if (!route) {
+        throw matches.length > 0
+          ? new HttpError(405, `Method ${request.method} is not allowed for ${pathname}`)
+          : new HttpError(404, `No route for ${pathname}`);
+      }
+      const params = route.pattern.exec(pathname)!.slice(1).map(decodeURIComponent);
+      await route.handle(request, response, params);
+    } catch (error) {
+      if (response.headersSent) {
+        response.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private checkRequest(request: http.IncomingMessage): void {
+    const { token } = this.options;
+    if (token !== undefined) {
+      const given = Buffer.from(/^Bearer (.+)$/i.exec(request.headers.authorization || '')?.[1] || '');
+      const expected = Buffer.from(token);
+      if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        throw new HttpError(401, 'Missing or wrong bearer token');
+      }
+    }
+    if (request.headers.origin !== undefined) {
+      throw new HttpError(403, 'Requests from browsers are not allowed');
+    }
+    // Only simple requests, which skip the CORS preflight, can carry another content type
+    if (request.method === 'POST' && !/^application\/json\s*(;|$)/i.test(request.headers['content-type'] || '')) {
+      throw new HttpError(415, 'Content-Type must be application/json');
+    }
+  }
+
+  private async createSession(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const body = await this.readJson(request);
+    if (body.profile !== undefined && typeof body.profile !== 'string') {
+      throw new HttpError(400, 'profile must be a string');
+    }
+
+    // Ids come from the server, so a client cannot pick one that resumes somebody else's saved session
+    const id = this.newSessionId();
+
+    let agent: Agent;
+    try {
+      agent = this.options.createAgent(id, body.profile);
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+
+    const session: Session = { id, profile: body.profile, createdAt: new Date().toISOString(), agent, turn: null };
+    this.sessions.set(id, session);
+    sendJson(response, 201, this.describeSession(session));
+  }
+
+  private async postMessage(request: http.IncomingMessage, response: http.ServerResponse, session: Session): Promise<void> {
+    const body = await this.readJson(request);
+    if (typeof body.message !== 'string' || body.message.trim() === '') {
+      throw new HttpError(400, 'message must be a non-empty string');
+    }
+    if (session.turn) {
+      throw new HttpError(409, `Session ${session.id} is already processing a message`);
+    }
+
+    const turn = new AbortController();
+    session.turn = turn;
+    // A client that goes away before the answer is complete cancels the turn
+    response.on('close', () => {
+      if (!response.writableFinished) turn.abort();
+    });
+
+    const streaming = new URL(request.url || '/', 'http://localhost').searchParams.get('stream') === 'true'
+      || (request.headers.accept || '').includes('text/event-stream');
+
+    try {
+      if (streaming) {
+        await this.streamMessage(response, session, body.message, turn.signal);
+      } else {
+        const text = await session.agent.processMessage(body.message, turn.signal);
+        sendJson(response, 200, { text, cancelled: false, usage: session.agent.getUsage() });
+      }
+    } catch (error) {
+      if (!(error instanceof CancelledError)) {
+        throw error;
+      }
+      sendJson(response, 200, { text: null, cancelled: true, usage: session.agent.getUsage() });
+    } finally {
+      session.turn = null;
+    }
+  }
+
+  private async streamMessage(response: http.ServerResponse, session: Session, message: string, signal: AbortSignal): Promise<void> {
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+
+    try {
+      const events = session.agent.processMessageStream(message, signal);
+      let next: IteratorResult<AgentEvent, string>;
+      while (!(next = await events.next()).done) {
+        writeEvent(response, next.value.type, next.value);
+      }
+      writeEvent(response, 'done', { text: next.value, usage: session.agent.getUsage() });
+    } catch (error) {
+      writeEvent(response, 'error', {
+        error: error instanceof Error ? error.message : String(error),
+        cancelled: error instanceof CancelledError
+      });
+    }
+    response.end();
+  }
+
+  private cancel(session: Session): boolean {
+    if (!session.turn || session.turn.signal.aborted) {
+      return false;
+    }
+    session.turn.abort();
+    return true;
+  }
+
+  private deleteSession(response: http.ServerResponse, session: Session): void {
+    session.turn?.abort();
+    session.agent.closeShell();
+    this.sessions.delete(session.id);
+    response.writeHead(204).end();
+  }
+
+  private newSessionId(): string {
+    const { sessionStore } = this.options;
+    for (;;) {
+      const id = sessionStore ? sessionStore.createId() : `${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+      if (!this.sessions.has(id) && !sessionStore?.exists(id)) {
+        return id;
+      }
+    }
+  }
+
+  private getSession(id: string): Session {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new HttpError(404, `Session ${id} not found`);
+    }
+    return session;
+  }
+
+  private describeSession(session: Session) {
+    return {
+      id: session.id,
+      profile: session.profile,
+      createdAt: session.createdAt,
+      busy: session.turn !== null,
+      history: session.agent.getConversationHistory(),
+      todos: session.agent.getTodos(),
+      usage: session.agent.getUsage()
+    };
+  }
+
+  private async readJson(request: http.IncomingMessage): Promise<any> {
+    const limit = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      size += chunk.length;
+      if (size > limit) {
+        throw new HttpError(413, `Request body is larger than ${limit} bytes`);
+      }
+      chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8').trim();
+    if (!text) return {};
+    try {
+      const body = JSON.parse(text);
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new Error('expected an object');
+      }
+      return body;
+    } catch (error) {
+      throw new HttpError(400, `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function writeEvent(response: http.ServerResponse, event: string, data: unknown): void {
+  response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+async function main() {
+  const cli = parseCliArgs(process.argv.slice(2));
+  const config = loadConfig(cli.configPath);
+  const sessionStore = new SessionStore();
+  const mcp = new McpManager(config.mcpServers);
+  const hooks = cli.tracePath ? new JsonlTraceWriter(cli.tracePath) : undefined;
+  const token = process.env.AGENT_SERVER_TOKEN || randomBytes(24).toString('hex');
+
+  const server = new AgentServer({
+    sessionStore,
+    token,
+    // Command line flags apply to the default profile; clients may pick another one per session
+    createAgent: (sessionId, profile) => createAgentFromProfile(
+      profile ? resolveProfile(config, profile) : resolveProfile(config, cli.profile, cli.overrides),
+      { sessionStore, sessionId, hooks, mcp }
+    )
+  });
+
+  const address = await server.listen(cli.port ?? DEFAULT_PORT, cli.host ?? DEFAULT_HOST);
+  console.log(`🌐 Agent API listening on http://${address.address}:${address.port}`);
+  if (!process.env.AGENT_SERVER_TOKEN) {
+    console.log(`🔑 Bearer token: ${token}`);
+  }
+
+  const shutdown = () => {
+    Promise.all([server.close(), mcp.close()]).finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
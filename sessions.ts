@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { Message, TodoWriteInput } from './agent';
+import { UsageTotals } from './budget';
+
+export const SESSION_STATE_VERSION = 1;
+export const DEFAULT_SESSION_DIR = '.agent/sessions';
+
+/** Everything needed to restore an agent: conversation history and the todo list */
+export interface AgentState {
+  version: number;
+  history: Message[];
+  todos: TodoWriteInput['todos'];
+  /** Session usage totals, so budgets keep counting after a resume */
+  usage?: UsageTotals;
+}
+
+export interface SessionRecord extends AgentState {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  todoCount: number;
+}
+
+/**
+ * Stores sessions as one JSON file each under a directory
+ * (`AGENT_SESSION_DIR`, default `.agent/sessions`).
+ */
+export class SessionStore {
+  readonly directory: string;
+
+  constructor(directory: string = process.env.AGENT_SESSION_DIR || DEFAULT_SESSION_DIR) {
+    this.directory = path.resolve(directory);
+  }
+
+  createId(): string {
+    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    return `${timestamp.slice(0, 8)}-${timestamp.slice(8)}-${randomBytes(2).toString('hex')}`;
+  }
+
+  save(id: string, state: AgentState): SessionRecord {
+    const now = new Date().toISOString();
+    const existing = this.exists(id) ? this.load(id) : null;
+    const record: SessionRecord = {
+      id,
+      title: existing?.title || titleFor(state.history),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      version: state.version,
+      history: state.history,
+      todos: state.todos,
+      ...(state.usage ? { usage: state.usage } : {})
+    };
+
+    // Write to a temporary file first so a crash never leaves a truncated session
+    fs.mkdirSync(this.directory, { recursive: true });
+    const filePath = this.filePath(id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+
+    return record;
+  }
+
+  load(id: string): SessionRecord {
+    const filePath = this.filePath(id);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Session '${id}' not found`);
+    }
+
+    const record = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(record.history) || !Array.isArray(record.todos)) {
+      throw new Error(`Session '${id}' is not a valid session file`);
+    }
+    if (record.version > SESSION_STATE_VERSION) {
+      throw new Error(`Session '${id}' was written by a newer version (state version ${record.version})`);
+    }
+
+    return record;
+  }
+
+  exists(id: string): boolean {
+    return fs.existsSync(this.filePath(id));
+  }
+
+  list(): SessionSummary[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const record = this.load(path.basename(file, '.json'));
+        summaries.push({
+          id: record.id,
+          title: record.title,
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+          messageCount: record.history.length,
+          todoCount: record.todos.length
+        });
+      } catch {
+        // Skip unreadable files rather than hiding every other session
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  delete(id: string): void {
+    fs.rmSync(this.filePath(id), { force: true });
+  }
+
+  private filePath(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid session id '${id}'`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+function titleFor(history: Message[]): string {
+  const first = history.find(message => message.role === 'user' && typeof message.content === 'string');
+  const text = typeof first?.content === 'string' ? first.content.replace(/\s+/g, ' ').trim() : '';
+  if (!text) return 'Untitled session';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
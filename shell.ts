@@ -0,0 +1,313 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChildProcess, execFile, spawn } from 'child_process';
+import { OutputBuffer, defaultCommandRunner } from './commands';
+
+export interface ShellSessionOptions {
+  /** Where the shell starts, and where `reset` returns to (default: the current directory) */
+  cwd?: string;
+  /** Environment the shell starts with (default: the default command runner's allowlisted variables) */
+  env?: NodeJS.ProcessEnv;
+  /** Shell executable (default `bash`) */
+  shell?: string;
+  /** Timeout for a command when the call gives none (default 30s) */
+  defaultTimeoutMs?: number;
+  /** Longer output keeps its head and tail (default 30000 characters) */
+  maxOutputChars?: number;
+}
+
+export interface ShellRunOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface ShellResult {
+  /** stdout and stderr, interleaved as the command wrote them */
+  output: string;
+  exitCode: number;
+  /** The shell's working directory after the command */
+  cwd: string;
+  durationMs: number;
+  /** The command ended the shell (e.g. `exit`); the next command starts a new one */
+  shellExited: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_OUTPUT_CHARS = 30000;
+// Trailing output kept unparsed in case it holds the start of the end marker
+const MARKER_WINDOW = 8192;
+// How long output still in the pipes may take to arrive after the shell exits
+const EXIT_DRAIN_MS = 200;
+const SYNTAX_CHECK_TIMEOUT_MS = 5000;
+
+// Shells still running when this process exits are killed with it
+const liveShells = new Set<ChildProcess>();
+let exitHandlerInstalled = false;
+
+interface PendingCommand {
+  begin: string;
+  end: RegExp;
+  started: boolean;
+  text: string;
+  output: OutputBuffer;
+  finish: (exitCode: number, cwd: string | null) => void;
+}
+
+/**
+ * A long-lived bash process whose working directory and environment carry
+ * over from one command to the next. Each command's output is framed by
+ * random begin/end markers, and the end marker carries the exit status and
+ * the new working directory. Exported variables and the working directory
+ * are saved after every command, so a shell that is killed (timeout,
+ * cancellation, `exit`) comes back in the same state on the next command;
+ * `reset` starts over from a clean shell.
+ */
+export class ShellSession {
+  private options: ShellSessionOptions;
+  private initialCwd: string;
+  private cwd: string;
+  private child: ChildProcess | null = null;
+  private pending: PendingCommand | null = null;
+  private checking = false;
+  private stateDir: string | null = null;
+
+  constructor(options: ShellSessionOptions = {}) {
+    this.options = options;
+    this.initialCwd = path.resolve(options.cwd || process.cwd());
+    this.cwd = this.initialCwd;
+  }
+
+  /** The working directory the next command runs in */
+  get workingDirectory(): string {
+    return this.cwd;
+  }
+
+  get running(): boolean {
+    return this.child !== null;
+  }
+
+  async run(command: string, options: ShellRunOptions = {}): Promise<ShellResult> {
+    if (this.pending || this.checking) {
+      throw new Error('The shell is already running a command');
+    }
+    options.signal?.throwIfAborted();
+    const startedAt = Date.now();
+
+    // Catch unterminated quotes and the like before they leave the shell waiting for more input
+    this.checking = true;
+    let syntaxError: string | null;
+    try {
+      syntaxError = await checkSyntax(this.options.shell || 'bash', command, options.signal);
+    } finally {
+      this.checking = false;
+    }
+    options.signal?.throwIfAborted();
+    if (syntaxError !== null) {
+      return { output: syntaxError, exitCode: 2, cwd: this.cwd, durationMs: Date.now() - startedAt, shellExited: false };
+    }
+
+    const child = this.ensureStarted();
+    const token = crypto.randomBytes(8).toString('hex');
+    const begin = `__AGENT_SHELL_BEGIN_${token}__`;
+    const end = `__AGENT_SHELL_END_${token}__`;
+    const statePath = this.statePath();
+
+    return new Promise<ShellResult>((resolve, reject) => {
+      const timeoutMs = options.timeoutMs ?? this.options.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+      const timer = setTimeout(() => stop(`Shell command timed out after ${timeoutMs}ms`), timeoutMs);
+      const onAbort = () => stop('Shell command cancelled');
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const pending: PendingCommand = {
+        begin: `${begin}\n`,
+        end: new RegExp(`\\n${end} (\\d+) (.*)\\n`),
+        started: false,
+        text: '',
+        output: new OutputBuffer(this.options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS),
+        finish: (exitCode, cwd) => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener('abort', onAbort);
+          this.pending = null;
+          if (cwd !== null) this.cwd = cwd;
+          pending.output.append(pending.text);
+          resolve({ output: pending.output.toString(), exitCode, cwd: this.cwd, durationMs: Date.now() - startedAt, shellExited: cwd === null });
+        }
+      };
+
+      // Killing the shell loses nothing that was saved after the previous command
+      const stop = (reason: string) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.pending = null;
+        this.kill();
+        pending.output.append(pending.text);
+        const output = pending.output.toString();
+        reject(new Error(`${reason}. The shell was restarted in ${this.cwd} with its exported variables restored.` +
+          (output ? `\n\nOutput so far:\n${output}` : '')));
+      };
+
+      this.pending = pending;
+      child.stdin!.write([
+        `printf '%s\\n' '${begin}'`,
+        '{',
+        command,
+        '} < /dev/null',
+        '__agent_status=$?',
+        `export -p > ${quote(statePath)}`,
+        `printf '%s\\n' "$PWD" > ${quote(`${statePath}.cwd`)}`,
+        `printf '\\n%s %s %s\\n' '${end}' "$__agent_status" "$PWD"`,
+        ''
+      ].join('\n'));
+    });
+  }
+
+  /** Kills the shell and forgets its directory and variables; the next command starts fresh */
+  reset(): void {
+    this.kill();
+    this.removeState();
+    this.cwd = this.initialCwd;
+  }
+
+  /** Kills the shell and removes its saved state */
+  close(): void {
+    this.reset();
+  }
+
+  private ensureStarted(): ChildProcess {
+    if (this.child) return this.child;
+
+    if (!fs.existsSync(this.cwd)) {
+      this.cwd = this.initialCwd;
+    }
+    const child = spawn(this.options.shell || 'bash', ['--noprofile', '--norc'], {
+      cwd: this.cwd,
+      env: this.options.env || defaultCommandRunner.buildEnv(),
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.child = child;
+    liveShells.add(child);
+    installExitHandler();
+
+    const onData = (text: string) => this.receive(text);
+    child.stdout!.setEncoding('utf-8').on('data', onData);
+    child.stderr!.setEncoding('utf-8').on('data', onData);
+    // Writes after the shell died are reported through 'exit', not as stream errors
+    child.stdin!.on('error', () => {});
+    child.on('error', error => this.onExit(child, 127, `${error.message}\n`));
+    child.on('exit', code => {
+      // 'close' follows once the pipes are drained, unless a background job keeps them open
+      const finish = () => {
+        clearTimeout(timer);
+        child.off('close', finish);
+        this.onExit(child, code ?? 1);
+      };
+      const timer = setTimeout(finish, EXIT_DRAIN_MS);
+      child.once('close', finish);
+    });
+
+    // One stream keeps stdout and stderr in order; restore what the previous shell had saved
+    const statePath = this.statePath();
+    child.stdin!.write(`exec 2>&1\nif [ -f ${quote(statePath)} ]; then . ${quote(statePath)} >/dev/null 2>&1; fi\n`);
+    return child;
+  }
+
+  private receive(text: string): void {
+    const pending = this.pending;
+    if (!pending) return;
+    pending.text += text;
+
+    if (!pending.started) {
+      const index = pending.text.indexOf(pending.begin);
+      if (index === -1) return;
+      // Anything before the marker belongs to earlier background jobs
+      pending.text = pending.text.slice(index + pending.begin.length);
+      pending.started = true;
+    }
+
+    const match = pending.end.exec(pending.text);
+    if (match) {
+      pending.text = pending.text.slice(0, match.index);
+      pending.finish(Number(match[1]), match[2]);
+      return;
+    }
+    if (pending.text.length > MARKER_WINDOW * 2) {
+      pending.output.append(pending.text.slice(0, -MARKER_WINDOW));
+      pending.text = pending.text.slice(-MARKER_WINDOW);
+    }
+  }
+
+  private onExit(child: ChildProcess, code: number, message = ''): void {
+    liveShells.delete(child);
+    if (this.child !== child) return;
+    this.child = null;
+    const pending = this.pending;
+    // The next shell starts where this one last saved its directory
+    const savedCwd = readFile(`${this.statePath()}.cwd`)?.trim();
+    if (savedCwd) this.cwd = savedCwd;
+    if (pending) {
+      pending.text += message;
+      pending.finish(code, null);
+    }
+  }
+
+  private kill(): void {
+    const child = this.child;
+    if (!child) return;
+    this.child = null;
+    liveShells.delete(child);
+    killGroup(child);
+  }
+
+  private statePath(): string {
+    if (!this.stateDir) {
+      this.stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-shell-'));
+    }
+    return path.join(this.stateDir, 'exports.sh');
+  }
+
+  private removeState(): void {
+    if (this.stateDir) {
+      fs.rmSync(this.stateDir, { recursive: true, force: true });
+      this.stateDir = null;
+    }
+  }
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function readFile(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function killGroup(child: ChildProcess): void {
+  if (child.pid === undefined) return;
+  try {
+    process.kill(-child.pid, 'SIGKILL');
+  } catch {
+    // Already gone
+  }
+}
+
+function installExitHandler(): void {
+  if (exitHandlerInstalled) return;
+  exitHandlerInstalled = true;
+  process.once('exit', () => liveShells.forEach(killGroup));
+}
+
+// Parses `command` with `-n`, which runs nothing; resolves to the shell's complaint, or null if it parses
+function checkSyntax(shell: string, command: string, signal?: AbortSignal): Promise<string | null> {
+  return new Promise(resolve => {
+    execFile(shell, ['-n', '-c', command], { encoding: 'utf-8', timeout: SYNTAX_CHECK_TIMEOUT_MS, signal }, (error, _stdout, stderr) => {
+      resolve(error ? stderr || error.message : null);
+    });
+  });
+}
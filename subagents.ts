@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Agent, { CancelledError, Message } from './agent';
+import { UsageReport, UsageTracker } from './budget';
+import { AgentHooks, callHook } from './hooks';
+import { PermissionPolicy } from './permissions';
+import { ModelProvider } from './providers';
+import { Tool, ToolRegistry } from './tools';
+
+export const DELEGATE_TASK_TOOL = 'delegate_task';
+
+export const DEFAULT_SUB_AGENT_MAX_TURNS = 10;
+
+export const DEFAULT_SUB_AGENT_PROMPT = `You are a sub-agent working in {{cwd}} on one task delegated by another agent.
+Use your tools ({{tools}}) to complete it, then reply with a concise summary of what you found or did.
+That summary is all the other agent will see, so include the file paths, names and values it needs.`;
+
+// Tools that only make sense in the parent's own conversation
+const PARENT_ONLY_TOOLS = [DELEGATE_TASK_TOOL, 'todo_write', 'execute_sequence'];
+
+export interface SubAgentOptions {
+  /** Tools sub-agents may use; defaults to the parent's concurrency-safe (read-only) tools */
+  tools?: string[];
+  /** Model turns each sub-agent gets before it is stopped (default 10) */
+  maxTurns?: number;
+  /** System prompt template for sub-agents; `{{cwd}}` and `{{tools}}` are filled in */
+  systemPrompt?: string;
+  /** Each finished transcript is also written here, named after its start time and id */
+  transcriptDir?: string;
+  /** Observers attached to every sub-agent, also told when a transcript cannot be saved */
+  hooks?: AgentHooks;
+}
+
+export type SubAgentStatus = 'running' | 'completed' | 'budget_exceeded' | 'failed' | 'cancelled';
+
+export interface SubAgentTranscript {
+  id: string;
+  task: string;
+  context?: string;
+  tools: string[];
+  status: SubAgentStatus;
+  /** What the parent got back; null until the sub-agent finishes */
+  summary: string | null;
+  error?: string;
+  history: Message[];
+  usage: UsageReport | null;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+/** What a sub-agent borrows from the agent that delegates to it */
+export interface SubAgentParent {
+  toolRegistry: ToolRegistry;
+  provider: ModelProvider;
+  permissions: PermissionPolicy;
+  /** Charged with the tokens and cost each sub-agent spends */
+  usage: UsageTracker;
+}
+
+interface DelegateTaskInput {
+  task: string;
+  context?: string;
+  tools?: string[];
+}
+
+/**
+ * Runs delegated subtasks in child agents, each with its own history, a
+ * subset of the parent's tools and a turn budget, and keeps their transcripts.
+ * Sub-agents cannot ask for approval, so calls that would ask are denied.
+ * Their tokens and cost count against the parent's budget.
+ */
+export class SubAgentManager {
+  private options: SubAgentOptions;
+  private transcripts: SubAgentTranscript[] = [];
+  private nextId = 1;
+
+  constructor(options: SubAgentOptions = {}) {
+    this.options = options;
+  }
+
+  /** The `delegate_task` tool for `parent`; several calls in one turn run in parallel when every allowed tool is concurrency-safe */
+  createTool(parent: SubAgentParent): Tool {
+    const configured = this.options.tools;
+    return {
+      name: DELEGATE_TASK_TOOL,
+      description: 'Hand a self-contained subtask (research, exploring files, answering a question about the code) to a sub-agent ' +
+        'with its own conversation. Only its final summary comes back, which keeps intermediate tool output out of this conversation. ' +
+        'Delegate independent subtasks in the same turn to run them in parallel.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          task: { type: 'string', minLength: 1, description: 'What the sub-agent should do and what its summary should contain' },
+          context: { type: 'string', description: 'Background the sub-agent needs, since it cannot see this conversation' },
+          tools: { type: 'array', items: { type: 'string' }, description: 'Restrict the sub-agent to these tools' }
+        },
+        required: ['task']
+      },
+      concurrencySafe: configured ? configured.every(name => parent.toolRegistry.isConcurrencySafe(name)) : true,
+      execute: (input: DelegateTaskInput, { signal }) => this.delegate(parent, input, signal)
+    };
+  }
+
+  getTranscripts(): SubAgentTranscript[] {
+    return this.transcripts.map(transcript => ({ ...transcript }));
+  }
+
+  getTranscript(id: string): SubAgentTranscript | undefined {
+    const transcript = this.transcripts.find(item => item.id === id);
+    return transcript && { ...transcript };
+  }
+
+  /** Tools from the parent's registry that sub-agents may use, in registry order */
+  allowedTools(toolRegistry: ToolRegistry): string[] {
+    const available = toolRegistry.getAll().map(tool => tool.name).filter(name => !PARENT_ONLY_TOOLS.includes(name));
+    return this.options.tools
+      ? available.filter(name => this.options.tools!.includes(name))
+      : available.filter(name => toolRegistry.isConcurrencySafe(name));
+  }
+
+  private async delegate(parent: SubAgentParent, input: DelegateTaskInput, signal?: AbortSignal): Promise<string> {
+    const allowed = this.allowedTools(parent.toolRegistry);
+    const tools = input.tools || allowed;
+    const refused = tools.filter(name => !allowed.includes(name));
+    if (refused.length > 0) {
+      throw new Error(`Sub-agents may not use ${refused.join(', ')}. Allowed: ${allowed.join(', ') || 'none'}`);
+    }
+
+    const registry = parent.toolRegistry.subset(tools);
+    const child = new Agent(registry, parent.provider, {
+      systemPrompt: (this.options.systemPrompt || DEFAULT_SUB_AGENT_PROMPT)
+        .replace(/\{\{\s*cwd\s*\}\}/g, parent.toolRegistry.workspace.root)
+        .replace(/\{\{\s*tools\s*\}\}/g, tools.join(', ') || 'none'),
+      permissions: parent.permissions,
+      budget: { chat: { maxTurns: this.options.maxTurns ?? DEFAULT_SUB_AGENT_MAX_TURNS } },
+      autoProgressTodos: false,
+      hooks: this.options.hooks
+    });
+
+    const transcript: SubAgentTranscript = {
+      id: `sub-${this.nextId++}`,
+      task: input.task,
+      ...(input.context ? { context: input.context } : {}),
+      tools,
+      status: 'running',
+      summary: null,
+      history: [],
+      usage: null,
+      startedAt: new Date().toISOString()
+    };
+    this.transcripts.push(transcript);
+
+    const prompt = input.context ? `${input.task}\n\nContext:\n${input.context}` : input.task;
+    try {
+      const text = await child.chat(prompt, signal);
+      const exceeded = child.getUsage().exceeded;
+      transcript.status = exceeded ? 'budget_exceeded' : 'completed';
+      // A stopped sub-agent's reply is the budget notice; its last real message is more useful to the parent
+      transcript.summary = exceeded
+        ? `${lastAssistantText(child.getConversationHistory()) || 'The sub-agent produced no summary.'}\n\n[${text} The task may be incomplete.]`
+        : text;
+      return transcript.summary;
+    } catch (error) {
+      transcript.status = error instanceof CancelledError ? 'cancelled' : 'failed';
+      transcript.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      transcript.history = child.getConversationHistory();
+      transcript.usage = child.getUsage();
+      parent.usage.recordSpend(transcript.usage.chat);
+      transcript.finishedAt = new Date().toISOString();
+      child.closeShell();
+      // Losing the file must not hide the sub-agent's own result or error
+      try {
+        this.saveTranscript(transcript);
+      } catch (error) {
+        callHook(this.options.hooks || {}, 'onNotice', {
+          kind: 'transcript_unsaved',
+          message: `Could not save transcript ${transcript.id}: ${error instanceof Error ? error.message : String(error)}`
+        });
+      }
+    }
+  }
+
+  private saveTranscript(transcript: SubAgentTranscript): void {
+    if (!this.options.transcriptDir) return;
+    fs.mkdirSync(this.options.transcriptDir, { recursive: true });
+    // Ids restart with every manager, so the start time keeps files from different runs apart
+    const filePath = path.join(this.options.transcriptDir, `${transcript.startedAt.replace(/[:.]/g, '-')}-${transcript.id}.json`);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(transcript, null, 2), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  }
+}
+
+function lastAssistantText(history: Message[]): string | null {
+  for (let index = history.length - 1; index >= 0; index--) {
+    const { role, content } = history[index];
+    if (role !== 'assistant') continue;
+    const text = typeof content === 'string'
+      ? content
+      : content.filter(block => block.type === 'text').map(block => (block as { text: string }).text).join('\n');
+    if (text.trim()) return text;
+  }
+  return null;
+}
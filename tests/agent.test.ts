@@ -0,0 +1,634 @@
+import Agent, { AgentEvent, AgentOptions, Message, ToolResultBlock, validateToolPairing } from '../agent';
+import { PermissionPolicy } from '../permissions';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { SESSION_STATE_VERSION } from '../sessions';
+import { TodoItem } from '../todos';
+import { ToolRegistry, todoWriteTool, executeSequenceTool, Tool } from '../tools';
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the input text back',
+  input_schema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'Text to echo' }
+    },
+    required: ['text']
+  },
+  execute: async (input: { text: string }): Promise<string> => `echo: ${input.text}`
+};
+
+const lastToolResults = (provider: ScriptedProvider, requestIndex: number): ToolResultBlock[] => {
+  const messages = provider.requests[requestIndex].messages;
+  const last = messages[messages.length - 1];
+  expect(last.role).toBe('user');
+  expect(Array.isArray(last.content)).toBe(true);
+  return last.content as ToolResultBlock[];
+};
+
+describe('Agent Control Loop', () => {
+  let toolRegistry: ToolRegistry;
+
+  beforeEach(() => {
+    toolRegistry = new ToolRegistry();
+    toolRegistry.register(echoTool);
+    toolRegistry.register(todoWriteTool);
+    toolRegistry.register(executeSequenceTool);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('chat', () => {
+    it('should return the text response when no tools are used', async () => {
+      const provider = new ScriptedProvider([[textBlock('Hello there!')]]);
+      const agent = new Agent(toolRegistry, provider);
+
+      const response = await agent.chat('Hi');
+
+      expect(response).toBe('Hello there!');
+      expect(provider.requests).toHaveLength(1);
+      expect(provider.requests[0].messages).toEqual([{ role: 'user', content: 'Hi' }]);
+      expect(provider.requests[0].tools.map(t => t.name)).toEqual(['echo', 'todo_write', 'execute_sequence']);
+      expect(agent.getConversationHistory()).toHaveLength(2);
+    });
+
+    it('should pair tool results with the matching tool_use_id', async () => {
+      const provider = new ScriptedProvider([
+        [textBlock('Let me echo that.'), toolUseBlock('toolu_1', 'echo', { text: 'ping' })],
+        [textBlock('The tool said ping.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      const response = await agent.chat('Echo ping');
+
+      expect(response).toBe('The tool said ping.');
+      expect(lastToolResults(provider, 1)).toEqual([
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: 'echo: ping' }
+      ]);
+    });
+
+    it('should keep ids distinct for repeated calls to the same tool', async () => {
+      const provider = new ScriptedProvider([
+        [
+          toolUseBlock('toolu_a', 'echo', { text: 'first' }),
+          toolUseBlock('toolu_b', 'echo', { text: 'second' })
+        ],
+        [textBlock('Echoed twice.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Echo twice');
+
+      expect(lastToolResults(provider, 1)).toEqual([
+        { type: 'tool_result', tool_use_id: 'toolu_a', content: 'echo: first' },
+        { type: 'tool_result', tool_use_id: 'toolu_b', content: 'echo: second' }
+      ]);
+    });
+
+    it('should send the auto-progress prompt in the same message as the tool results', async () => {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'todo_write', {
+          todos: [
+            { id: '1', content: 'Done task', status: 'completed', priority: 'high' },
+            { id: '2', content: 'Next task', status: 'pending', priority: 'high' }
+          ]
+        })],
+        [textBlock('Working on the next task.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Update the plan');
+
+      const messages = provider.requests[1].messages;
+      const last = messages[messages.length - 1].content as any[];
+      expect(messages.filter(message => message.role === 'user')).toHaveLength(2);
+      expect(last[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_1' });
+      expect(last[1].type).toBe('text');
+      expect(last[1].text).toContain('"Next task"');
+    });
+
+    it('should return unknown tool errors as is_error results', async () => {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'missing_tool', {})],
+        [textBlock('That tool does not exist.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Use a missing tool');
+
+      const [result] = lastToolResults(provider, 1);
+      expect(result.tool_use_id).toBe('toolu_1');
+      expect(result.is_error).toBe(true);
+      expect(result.content).toBe("Error: Tool 'missing_tool' not found");
+    });
+
+    it('should return a throwing tool as an is_error result', async () => {
+      toolRegistry.register({
+        name: 'explode',
+        description: 'Always fails',
+        input_schema: { type: 'object', properties: {}, required: [] },
+        execute: async () => { throw new Error('boom'); }
+      });
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'explode', {}), toolUseBlock('toolu_2', 'echo', { text: 'fine' })],
+        [textBlock('One tool failed.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Try both');
+
+      expect(lastToolResults(provider, 1)).toEqual([
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: "Error executing tool 'explode': boom", is_error: true },
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: 'echo: fine' }
+      ]);
+    });
+
+    it('should return schema validation failures as is_error results naming the field', async () => {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'echo', { text: 42 })],
+        [textBlock('Let me fix that.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Echo a number');
+
+      const [result] = lastToolResults(provider, 1);
+      expect(result.is_error).toBe(true);
+      expect(result.content).toContain("Invalid input for tool 'echo'");
+      expect(result.content).toContain('- text: expected string, got number');
+    });
+
+    it('should not update todos when todo_write input is invalid', async () => {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'todo_write', { todos: [{ id: '1', content: 'Task', status: 'done', priority: 'high' }] })],
+        [textBlock('Retrying.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Plan');
+
+      const [result] = lastToolResults(provider, 1);
+      expect(result.is_error).toBe(true);
+      expect(result.content).toContain('todos[0].status: must be one of');
+      expect(agent.getTodos()).toEqual([]);
+    });
+
+    it('should surface provider failures to the caller', async () => {
+      const provider = new ScriptedProvider([]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await expect(agent.chat('Hi')).rejects.toThrow('ScriptedProvider script exhausted');
+    });
+  });
+
+  describe('validateToolPairing', () => {
+    const toolUse = (id: string): Message => ({ role: 'assistant', content: [toolUseBlock(id, 'echo', { text: id })] });
+    const toolResult = (...ids: string[]): Message => ({
+      role: 'user',
+      content: ids.map(id => ({ type: 'tool_result' as const, tool_use_id: id, content: 'ok' }))
+    });
+
+    it('should accept correctly paired history', () => {
+      expect(() => validateToolPairing([
+        { role: 'user', content: 'Hi' },
+        toolUse('toolu_1'),
+        toolResult('toolu_1'),
+        { role: 'assistant', content: 'Done' }
+      ])).not.toThrow();
+    });
+
+    it('should reject a tool_use without a result', () => {
+      expect(() => validateToolPairing([
+        { role: 'user', content: 'Hi' },
+        toolUse('toolu_1'),
+        { role: 'user', content: 'Something else' }
+      ])).toThrow("tool_use 'toolu_1' in message 1 has 0 tool_result blocks, expected exactly 1");
+    });
+
+    it('should reject duplicate and unknown results', () => {
+      expect(() => validateToolPairing([toolUse('toolu_1'), toolResult('toolu_1', 'toolu_1')]))
+        .toThrow('has 2 tool_result blocks');
+      expect(() => validateToolPairing([toolUse('toolu_1'), toolResult('toolu_1', 'toolu_x')]))
+        .toThrow("refers to unknown tool_use 'toolu_x'");
+    });
+  });
+
+  describe('chatStream', () => {
+    it('should yield text, tool and final message events in order', async () => {
+      const provider = new ScriptedProvider([
+        [textBlock('Echoing.'), toolUseBlock('toolu_1', 'echo', { text: 'hi' })],
+        [textBlock('Finished.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      const events: AgentEvent[] = [];
+      for await (const event of agent.chatStream('Echo hi')) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: 'text_delta', text: 'Echoing.' },
+        { type: 'tool_use_start', id: 'toolu_1', name: 'echo' },
+        { type: 'tool_use_end', id: 'toolu_1', name: 'echo', input: { text: 'hi' } },
+        { type: 'tool_result', id: 'toolu_1', name: 'echo', content: 'echo: hi', isError: false },
+        { type: 'text_delta', text: 'Finished.' },
+        { type: 'message', text: 'Finished.' }
+      ]);
+    });
+
+    it('should yield todo updates from todo_write', async () => {
+      const todos = [{ id: '1', content: 'Only task', status: 'pending', priority: 'high' }];
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'todo_write', { todos })],
+        [textBlock('Planned.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      const updates: AgentEvent[] = [];
+      for await (const event of agent.chatStream('Plan')) {
+        if (event.type === 'todo_update') updates.push(event);
+      }
+
+      expect(updates).toEqual([{ type: 'todo_update', todos }]);
+    });
+  });
+
+  describe('parallel tool execution', () => {
+    let active: number;
+    let peak: number;
+    let order: string[];
+
+    const slowTool = (name: string, concurrencySafe: boolean, delay: number): Tool => ({
+      name,
+      description: `Slow tool ${name}`,
+      input_schema: { type: 'object', properties: {}, required: [] },
+      concurrencySafe,
+      execute: async (): Promise<string> => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        active--;
+        order.push(name);
+        return `${name} done`;
+      }
+    });
+
+    beforeEach(() => {
+      active = 0;
+      peak = 0;
+      order = [];
+      toolRegistry.register(slowTool('fast_read', true, 5));
+      toolRegistry.register(slowTool('slow_read', true, 30));
+      toolRegistry.register(slowTool('other_read', true, 15));
+      toolRegistry.register(slowTool('write', false, 5));
+    });
+
+    const runTurn = async (options = {}) => {
+      const provider = new ScriptedProvider([
+        [
+          toolUseBlock('toolu_1', 'slow_read'),
+          toolUseBlock('toolu_2', 'other_read'),
+          toolUseBlock('toolu_3', 'fast_read'),
+          toolUseBlock('toolu_4', 'write')
+        ],
+        [textBlock('Done.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider, options);
+      await agent.chat('Read things');
+      return lastToolResults(provider, 1);
+    };
+
+    it('should run concurrency-safe calls in parallel and keep result order', async () => {
+      const results = await runTurn();
+
+      expect(peak).toBe(3);
+      expect(order).toEqual(['fast_read', 'other_read', 'slow_read', 'write']);
+      expect(results.map(result => result.tool_use_id)).toEqual(['toolu_1', 'toolu_2', 'toolu_3', 'toolu_4']);
+      expect(results.map(result => result.content)).toEqual(['slow_read done', 'other_read done', 'fast_read done', 'write done']);
+    });
+
+    it('should respect the concurrency limit', async () => {
+      await runTurn({ maxToolConcurrency: 2 });
+      expect(peak).toBe(2);
+    });
+
+    it('should run tools sequentially when the limit is 1', async () => {
+      await runTurn({ maxToolConcurrency: 1 });
+      expect(peak).toBe(1);
+      expect(order).toEqual(['slow_read', 'other_read', 'fast_read', 'write']);
+    });
+  });
+
+  describe('permissions', () => {
+    const runCommandTool: Tool = {
+      name: 'run',
+      description: 'Pretend to run a command',
+      input_schema: {
+        type: 'object',
+        properties: { command: { type: 'string', description: 'Command to run' } },
+        required: ['command']
+      },
+      execute: async (input: { command: string }): Promise<string> => `ran: ${input.command}`
+    };
+
+    beforeEach(() => {
+      toolRegistry.register(runCommandTool);
+    });
+
+    const runTool = async (options: AgentOptions) => {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'run', { command: 'rm -rf /' })],
+        [textBlock('Okay.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider, options);
+      await agent.chat('Run it');
+      return lastToolResults(provider, 1)[0];
+    };
+
+    it('should return policy denials as tool errors without running the tool', async () => {
+      const execute = jest.spyOn(runCommandTool, 'execute');
+      const result = await runTool({
+        permissions: new PermissionPolicy({ rules: [{ tool: 'run', pattern: 'rm *', decision: 'deny' }] })
+      });
+
+      expect(result.is_error).toBe(true);
+      expect(result.content).toContain('Permission denied: run (rm -rf /) is blocked by rule run "rm *"');
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('should deny ask decisions when no approver is configured', async () => {
+      const result = await runTool({ permissions: new PermissionPolicy({ tools: { run: 'ask' } }) });
+
+      expect(result.is_error).toBe(true);
+      expect(result.content).toContain('requires approval and no approver is available');
+    });
+
+    it('should run the tool when the approver allows it', async () => {
+      const approve = jest.fn().mockResolvedValue('allow');
+      const result = await runTool({ permissions: new PermissionPolicy({ tools: { run: 'ask' } }), approve });
+
+      expect(approve).toHaveBeenCalledWith(expect.objectContaining({ subject: 'rm -rf /', reason: 'default policy for run' }));
+      expect(result).toEqual({ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ran: rm -rf /' });
+    });
+
+    it('should report a declined approval to the model', async () => {
+      const result = await runTool({
+        permissions: new PermissionPolicy({ tools: { run: 'ask' } }),
+        approve: async () => 'deny'
+      });
+
+      expect(result.is_error).toBe(true);
+      expect(result.content).toBe('Error: Permission denied: the user declined to run run (rm -rf /).');
+    });
+
+    it('should remember always-allow answers for the session', async () => {
+      const permissions = new PermissionPolicy({ tools: { run: 'ask' } });
+      const approve = jest.fn().mockResolvedValue('always');
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'run', { command: 'ls' })],
+        [toolUseBlock('toolu_2', 'run', { command: 'ls' })],
+        [textBlock('Done.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider, { permissions, approve });
+
+      await agent.chat('List twice');
+
+      expect(approve).toHaveBeenCalledTimes(1);
+      expect(lastToolResults(provider, 2)[0].content).toBe('ran: ls');
+    });
+
+    it('should remember an always answer for that exact call only', async () => {
+      const permissions = new PermissionPolicy({ tools: { run: 'ask' } });
+      const approve = jest.fn().mockResolvedValueOnce('always').mockResolvedValue('deny');
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'run', { command: 'ls *' })],
+        [toolUseBlock('toolu_2', 'run', { command: 'ls x; rm -rf /' })],
+        [textBlock('Done.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider, { permissions, approve });
+
+      await agent.chat('List');
+
+      expect(approve).toHaveBeenCalledTimes(2);
+      expect(permissions.getRules()).toEqual([{ tool: 'run', pattern: 'ls *', exact: true, decision: 'allow' }]);
+      expect(lastToolResults(provider, 2)[0].is_error).toBe(true);
+    });
+  });
+
+  describe('todo_write handling', () => {
+    it('should update the agent todo list', async () => {
+      const todos = [
+        { id: '1', content: 'Write code', status: 'pending', priority: 'high' },
+        { id: '2', content: 'Write tests', status: 'pending', priority: 'medium' }
+      ];
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'todo_write', { todos })],
+        [textBlock('Plan created.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Plan the work');
+
+      expect(agent.getTodos()).toEqual(todos);
+      const [result] = lastToolResults(provider, 1);
+      expect(result.tool_use_id).toBe('toolu_1');
+      expect(result.content).toContain('Todos updated successfully!');
+      expect(result.content).toContain(`Internal todo state updated: ${JSON.stringify(todos)}`);
+    });
+  });
+
+  describe('execute_sequence handling', () => {
+    const pendingTodos = [
+      { id: 'a', content: 'First task', status: 'pending', priority: 'high' },
+      { id: 'b', content: 'Second task', status: 'pending', priority: 'low' }
+    ];
+
+    const seedTodos = async (agent: Agent, provider: ScriptedProvider) => {
+      provider.enqueue(
+        [toolUseBlock('toolu_seed', 'todo_write', { todos: pendingTodos })],
+        [textBlock('Plan created.')]
+      );
+      await agent.chat('Plan the work');
+    };
+
+    it('should work through pending todos and report the result', async () => {
+      const provider = new ScriptedProvider();
+      const agent = new Agent(toolRegistry, provider);
+      await seedTodos(agent, provider);
+
+      provider.enqueue(
+        [toolUseBlock('toolu_seq', 'execute_sequence', { confirm: true })],
+        // Nested turn started by the sequence for the first pending todo, sent
+        // together with the execute_sequence tool result
+        request => {
+          const messages = request.messages;
+          const last = messages[messages.length - 1].content as any[];
+          expect(last[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_seq' });
+          expect(last[1].text).toContain('"First task"');
+          return [toolUseBlock('toolu_done', 'todo_write', {
+            todos: pendingTodos.map(todo => ({ ...todo, status: 'completed' }))
+          })];
+        },
+        [textBlock('Both tasks finished.')],
+        [textBlock('All done.')]
+      );
+
+      const response = await agent.chat('Run the plan');
+
+      expect(response).toBe('All done.');
+      expect(agent.getTodos().every(todo => todo.status === 'completed')).toBe(true);
+
+      const finalMessages = provider.requests[provider.requests.length - 1].messages;
+      expect(finalMessages[finalMessages.length - 1]).toEqual({
+        role: 'user',
+        content: 'Todo sequence completed! 2/2 todos finished.'
+      });
+      expect(provider.remaining).toBe(0);
+    });
+
+    it('should not run the sequence when confirm is false', async () => {
+      const provider = new ScriptedProvider();
+      const agent = new Agent(toolRegistry, provider);
+      await seedTodos(agent, provider);
+
+      provider.enqueue(
+        [toolUseBlock('toolu_seq', 'execute_sequence', { confirm: false })],
+        [textBlock('Okay, not running it.')]
+      );
+
+      await agent.chat('Do not run the plan');
+
+      const [result] = lastToolResults(provider, provider.requests.length - 1);
+      expect(result).toEqual({ type: 'tool_result', tool_use_id: 'toolu_seq', content: 'Todo sequence execution cancelled.' });
+      expect(agent.getTodos().every(todo => todo.status === 'pending')).toBe(true);
+    });
+  });
+
+  describe('todo dependencies', () => {
+    const withTodos = (agent: Agent, todos: TodoItem[]): void =>
+      agent.importState({ version: SESSION_STATE_VERSION, history: [], todos });
+
+    it('should start todos in dependency order, then by priority', async () => {
+      const provider = new ScriptedProvider([
+        request => {
+          const last = request.messages[request.messages.length - 1];
+          expect(last.content).toContain('"Build the package"');
+          return [textBlock('Built.')];
+        }
+      ]);
+      const agent = new Agent(toolRegistry, provider, { autoProgressTodos: false });
+      withTodos(agent, [
+        { id: 'release', content: 'Publish the release', status: 'pending', priority: 'high', dependsOn: ['build'] },
+        { id: 'build', content: 'Build the package', status: 'pending', priority: 'low' }
+      ]);
+
+      await agent.executeTodoSequence();
+
+      // Neither todo is finished by the scripted reply, so the release never starts
+      expect(agent.getTodos().map(todo => todo.status)).toEqual(['blocked', 'failed']);
+    });
+
+    it('should mark an unfinished todo failed, block its dependents and keep going', async () => {
+      const provider = new ScriptedProvider();
+      const agent = new Agent(toolRegistry, provider);
+      withTodos(agent, [
+        { id: 'a', content: 'Migrate the database', status: 'pending', priority: 'high' },
+        { id: 'b', content: 'Deploy the app', status: 'pending', priority: 'high', dependsOn: ['a'] },
+        { id: 'c', content: 'Update the docs', status: 'pending', priority: 'low' }
+      ]);
+      provider.enqueue(
+        [textBlock('The migration needs credentials I do not have.')],
+        request => {
+          const last = request.messages[request.messages.length - 1];
+          expect(last.content).toContain('"Update the docs"');
+          return [toolUseBlock('toolu_docs', 'todo_write', {
+            todos: agent.getTodos().map(todo => todo.id === 'c' ? { ...todo, status: 'completed', result: 'Docs updated' } : todo)
+          })];
+        },
+        [textBlock('Docs are done.')]
+      );
+
+      const response = await agent.executeTodoSequence();
+
+      expect(response).toBe('Todo sequence completed! 1/3 todos finished. 1 failed. 1 blocked.');
+      expect(agent.getTodos()).toEqual([
+        expect.objectContaining({ id: 'a', status: 'failed', result: 'Not completed: the agent stopped with "The migration needs credentials I do not have."' }),
+        expect.objectContaining({ id: 'b', status: 'blocked', result: 'Blocked: depends on "Migrate the database", which is failed' }),
+        expect.objectContaining({ id: 'c', status: 'completed', result: 'Docs updated' })
+      ]);
+      expect(provider.remaining).toBe(0);
+    });
+
+    it('should pass notes and dependency results to the todo prompt', async () => {
+      const provider = new ScriptedProvider([
+        request => {
+          const last = request.messages[request.messages.length - 1].content as string;
+          expect(last).toContain('Notes: Announce in #releases');
+          expect(last).toContain('- Build the package: dist/app-1.2.0.tgz');
+          return [textBlock('Announced.')];
+        }
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+      withTodos(agent, [
+        { id: '1', content: 'Build the package', status: 'completed', priority: 'high', result: 'dist/app-1.2.0.tgz' },
+        { id: '2', content: 'Announce the release', status: 'pending', priority: 'high', dependsOn: ['1'], notes: 'Announce in #releases' }
+      ]);
+
+      await agent.executeTodoSequence();
+
+      expect(provider.remaining).toBe(0);
+    });
+
+    it('should reject a todo_write with circular dependencies', async () => {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'todo_write', {
+          todos: [
+            { id: '1', content: 'A', status: 'pending', priority: 'high', dependsOn: ['2'] },
+            { id: '2', content: 'B', status: 'pending', priority: 'high', dependsOn: ['1'] }
+          ]
+        })],
+        [textBlock('Let me fix that.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider);
+
+      await agent.chat('Plan it');
+
+      const [result] = lastToolResults(provider, 1);
+      expect(result.is_error).toBe(true);
+      expect(result.content).toContain('Circular dependency: 1 -> 2 -> 1');
+      expect(agent.getTodos()).toEqual([]);
+    });
+
+    it('should tell the model about todo edits with the next message', async () => {
+      const provider = new ScriptedProvider([[textBlock('Noted.')], [textBlock('Sure.')]]);
+      const agent = new Agent(toolRegistry, provider);
+      const todos = [{ id: '1', content: 'Write tests', status: 'pending' as const, priority: 'high' as const }];
+
+      agent.updateTodos(todos);
+      await agent.chat('I added a todo');
+      await agent.chat('Thanks');
+
+      expect(provider.requests[0].messages[0].content).toEqual([
+        { type: 'text', text: `[The user edited the todo list. Current todos: ${JSON.stringify(todos)}]` },
+        { type: 'text', text: 'I added a todo' }
+      ]);
+      expect(provider.requests[1].messages[2].content).toBe('Thanks');
+      expect(() => agent.updateTodos([...todos, { ...todos[0] }])).toThrow("Invalid todo list: Duplicate todo id '1'");
+    });
+  });
+
+  describe('processMessage', () => {
+    it('should report when there are no pending todos to execute', async () => {
+      const provider = new ScriptedProvider();
+      const agent = new Agent(toolRegistry, provider);
+
+      const response = await agent.processMessage('/execute-todos');
+
+      expect(response).toBe('No pending todos to execute.');
+      expect(provider.requests).toHaveLength(0);
+    });
+  });
+});
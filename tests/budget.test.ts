@@ -0,0 +1,148 @@
+import Agent, { AgentEvent, validateToolPairing } from '../agent';
+import { UsageTracker, describeBudgetExceeded, estimateCost, priceFor } from '../budget';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ToolRegistry, Tool } from '../tools';
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the input text back',
+  input_schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  execute: async (input: { text: string }): Promise<string> => `echo: ${input.text}`
+};
+
+const echoForever = (usage = { inputTokens: 100, outputTokens: 10 }) => {
+  let turn = 0;
+  return () => ({ content: [toolUseBlock(`toolu_${++turn}`, 'echo', { text: `again ${turn}` })], usage });
+};
+
+describe('Budgets', () => {
+  describe('UsageTracker', () => {
+    it('should price models by their longest matching prefix', () => {
+      expect(priceFor('claude-3-5-sonnet-20241022')).toEqual({ input: 3, output: 15 });
+      expect(priceFor('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+      expect(priceFor('llama3')).toBeUndefined();
+      expect(estimateCost('claude-3-5-sonnet-20241022', { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(4.5);
+      expect(estimateCost('llama3', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0);
+    });
+
+    it('should report the first limit reached in either scope', () => {
+      const tracker = new UsageTracker({ chat: { maxTurns: 5 }, session: { maxOutputTokens: 15 } });
+
+      tracker.recordModelUsage('llama3', { inputTokens: 10, outputTokens: 10 });
+      expect(tracker.checkTurn()).toBeNull();
+
+      tracker.recordModelUsage('llama3', { inputTokens: 10, outputTokens: 10 });
+      expect(tracker.checkTurn()).toEqual({ scope: 'session', limit: 'maxOutputTokens', used: 20, max: 15 });
+    });
+
+    it('should reset chat totals but keep session totals', () => {
+      const tracker = new UsageTracker({ chat: { maxToolCalls: 3 }, session: { maxToolCalls: 4 } });
+
+      tracker.recordToolCalls(2);
+      expect(tracker.remainingToolCalls().remaining).toBe(1);
+
+      tracker.startChat();
+      expect(tracker.getChatUsage().toolCalls).toBe(0);
+      expect(tracker.remainingToolCalls()).toEqual({
+        remaining: 2,
+        exceeded: { scope: 'session', limit: 'maxToolCalls', used: 2, max: 4 }
+      });
+    });
+
+    it('should describe exceeded budgets', () => {
+      expect(describeBudgetExceeded({ scope: 'chat', limit: 'maxCostUsd', used: 0.51234, max: 0.5 }))
+        .toBe('Stopped: chat budget exceeded (maxCostUsd: used $0.5123 of $0.5000).');
+    });
+  });
+
+  describe('Agent', () => {
+    let toolRegistry: ToolRegistry;
+
+    beforeEach(() => {
+      toolRegistry = new ToolRegistry();
+      toolRegistry.register(echoTool);
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should stop a tool loop after the maximum number of turns', async () => {
+      const step = echoForever();
+      const provider = new ScriptedProvider([step, step, step, step, step]);
+      const agent = new Agent(toolRegistry, provider, { budget: { chat: { maxTurns: 3 } } });
+
+      const events: AgentEvent[] = [];
+      for await (const event of agent.chatStream('Echo forever')) {
+        events.push(event);
+      }
+
+      expect(provider.requests).toHaveLength(3);
+      expect(events).toContainEqual({ type: 'budget_exceeded', scope: 'chat', limit: 'maxTurns', used: 3, max: 3 });
+      expect(events[events.length - 1]).toEqual({
+        type: 'message',
+        text: 'Stopped: chat budget exceeded (maxTurns: used 3 of 3).'
+      });
+      expect(() => validateToolPairing(agent.getConversationHistory())).not.toThrow();
+      expect(agent.getUsage()).toMatchObject({
+        chat: { turns: 3, toolCalls: 3, inputTokens: 300, outputTokens: 30 },
+        exceeded: { scope: 'chat', limit: 'maxTurns' }
+      });
+    });
+
+    it('should answer tool calls over the limit with errors and stop', async () => {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'echo', { text: 'a' }), toolUseBlock('toolu_2', 'echo', { text: 'b' })]
+      ]);
+      const agent = new Agent(toolRegistry, provider, { budget: { chat: { maxToolCalls: 1 } } });
+
+      const response = await agent.chat('Echo twice');
+
+      expect(response).toBe('Stopped: chat budget exceeded (maxToolCalls: used 1 of 1).');
+      const history = agent.getConversationHistory();
+      expect(history[history.length - 1].content).toEqual([
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: 'echo: a' },
+        {
+          type: 'tool_result',
+          tool_use_id: 'toolu_2',
+          content: 'Error: Stopped: chat budget exceeded (maxToolCalls: used 1 of 1). This call was not run.',
+          is_error: true
+        }
+      ]);
+    });
+
+    it('should stop once the estimated cost reaches the limit', async () => {
+      const step = echoForever({ inputTokens: 100_000, outputTokens: 0 });
+      const provider = new ScriptedProvider([step, step, step], 'claude-3-5-sonnet-20241022');
+      const agent = new Agent(toolRegistry, provider, { budget: { chat: { maxCostUsd: 0.5 } } });
+
+      const response = await agent.chat('Spend');
+
+      expect(provider.requests).toHaveLength(2);
+      expect(response).toBe('Stopped: chat budget exceeded (maxCostUsd: used $0.6000 of $0.5000).');
+    });
+
+    it('should count session limits across chats and continue after a new message', async () => {
+      const provider = new ScriptedProvider([[textBlock('One')], [textBlock('Two')], [textBlock('Three')]]);
+      const agent = new Agent(toolRegistry, provider, { budget: { session: { maxTurns: 2 } } });
+
+      expect(await agent.chat('1')).toBe('One');
+      expect(await agent.chat('2')).toBe('Two');
+      expect(await agent.chat('3')).toBe('Stopped: session budget exceeded (maxTurns: used 2 of 2).');
+      expect(agent.getUsage().session.turns).toBe(2);
+      expect(provider.remaining).toBe(1);
+    });
+
+    it('should keep session totals in exported state', async () => {
+      const provider = new ScriptedProvider([{ content: [textBlock('Hi')], usage: { inputTokens: 7, outputTokens: 3 } }]);
+      const agent = new Agent(toolRegistry, provider);
+      await agent.chat('Hello');
+
+      const restored = new Agent(toolRegistry, new ScriptedProvider([]));
+      restored.importState(agent.exportState());
+
+      expect(restored.getUsage().session).toEqual({ turns: 1, toolCalls: 0, inputTokens: 7, outputTokens: 3, costUsd: 0 });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import Agent, { CancelledError, validateToolPairing } from '../agent';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { RetryPolicy } from '../retry';
+import { ToolRegistry, Tool, ToolContext, executeCommandTool, todoWriteTool } from '../tools';
+
+describe('Cancellation', () => {
+  let toolRegistry: ToolRegistry;
+  let controller: AbortController;
+  let executed: string[];
+
+  // Cancels the turn from inside a tool, the way a Ctrl+C would arrive mid-call
+  const cancelTool: Tool = {
+    name: 'cancel',
+    description: 'Cancels the current turn while running',
+    input_schema: { type: 'object', properties: {}, required: [] },
+    execute: async (_input: {}, context: ToolContext): Promise<string> => {
+      executed.push('cancel');
+      controller.abort();
+      return context.signal?.aborted ? 'stopped early' : 'finished';
+    }
+  };
+
+  const echoTool: Tool = {
+    name: 'echo',
+    description: 'Echo the input text back',
+    input_schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    execute: async (input: { text: string }): Promise<string> => {
+      executed.push(`echo ${input.text}`);
+      return `echo: ${input.text}`;
+    }
+  };
+
+  beforeEach(() => {
+    toolRegistry = new ToolRegistry();
+    toolRegistry.register(cancelTool);
+    toolRegistry.register(echoTool);
+    toolRegistry.register(todoWriteTool);
+    controller = new AbortController();
+    executed = [];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the signal to tools and stop before the next model request', async () => {
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'cancel'), toolUseBlock('toolu_2', 'echo', { text: 'late' })],
+      [textBlock('never sent')]
+    ]);
+    const agent = new Agent(toolRegistry, provider);
+
+    await expect(agent.chat('Do it', controller.signal)).rejects.toBeInstanceOf(CancelledError);
+
+    expect(executed).toEqual(['cancel']);
+    expect(provider.requests).toHaveLength(1);
+    const history = agent.getConversationHistory();
+    expect(() => validateToolPairing(history)).not.toThrow();
+    expect(history[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: 'stopped early' },
+      { type: 'tool_result', tool_use_id: 'toolu_2', content: 'Error: Cancelled by the user before this call ran.', is_error: true },
+      textBlock('[The user cancelled this request before it finished.]')
+    ]);
+  });
+
+  it('should keep the conversation usable after a cancelled turn', async () => {
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'cancel')],
+      [textBlock('Starting over.')]
+    ]);
+    const agent = new Agent(toolRegistry, provider);
+
+    await expect(agent.chat('Do it', controller.signal)).rejects.toThrow('Cancelled by the user');
+    const response = await agent.chat('Try again');
+
+    expect(response).toBe('Starting over.');
+    const lastRequest = provider.requests[1].messages;
+    expect(lastRequest[lastRequest.length - 1].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: 'stopped early' },
+      textBlock('[The user cancelled this request before it finished.]'),
+      textBlock('Try again')
+    ]);
+  });
+
+  it('should stop a todo sequence', async () => {
+    const todos = [
+      { id: '1', content: 'First', status: 'pending' as const, priority: 'high' as const },
+      { id: '2', content: 'Second', status: 'pending' as const, priority: 'high' as const }
+    ];
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'todo_write', { todos })],
+      [textBlock('Planned.')],
+      [toolUseBlock('toolu_2', 'cancel')],
+      [textBlock('never sent')]
+    ]);
+    const agent = new Agent(toolRegistry, provider, { autoProgressTodos: false });
+    await agent.chat('Plan');
+
+    await expect(agent.executeTodoSequence(controller.signal)).rejects.toBeInstanceOf(CancelledError);
+
+    expect(provider.requests).toHaveLength(3);
+    expect(agent.getTodos().map(todo => todo.status)).toEqual(['in_progress', 'pending']);
+    expect(() => validateToolPairing(agent.getConversationHistory())).not.toThrow();
+  });
+
+  it('should kill a running command', async () => {
+    const registry = new ToolRegistry();
+    registry.register(executeCommandTool);
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 200);
+
+    const result = await registry.execute({ name: 'execute_command', input: { command: 'sleep 10' } }, controller.signal);
+
+    expect(result).toContain('Command execution failed');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should interrupt a retry delay', async () => {
+    const policy = new RetryPolicy();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(policy.sleep(10000, controller.signal)).rejects.toThrow();
+  });
+});
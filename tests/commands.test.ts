@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandRunner, OutputBuffer } from '../commands';
+import { ToolRegistry, executeCommandTool, killProcessTool, pollProcessTool, startProcessTool } from '../tools';
+import { Workspace } from '../workspace';
+
+describe('CommandRunner', () => {
+  let runner: CommandRunner;
+  const cwd = process.cwd();
+
+  beforeEach(() => {
+    runner = new CommandRunner();
+  });
+
+  afterEach(() => {
+    runner.killAll();
+  });
+
+  it('should capture stdout, stderr and the exit code', async () => {
+    const result = await runner.run('echo out; echo err >&2; exit 3', { cwd });
+
+    expect(result).toMatchObject({ exitCode: 3, signal: null, stdout: 'out\n', stderr: 'err\n', timedOut: false, cancelled: false });
+  });
+
+  it('should kill the whole process group on timeout', async () => {
+    const started = Date.now();
+
+    const result = await runner.run('echo started; sleep 10 & sleep 10; wait', { cwd, timeoutMs: 300 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.stdout).toBe('started\n');
+    expect(result.signal).toBe('SIGTERM');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should cap timeouts at maxTimeoutMs', () => {
+    const capped = new CommandRunner({ defaultTimeoutMs: 1000, maxTimeoutMs: 5000 });
+
+    expect(capped.effectiveTimeout()).toBe(1000);
+    expect(capped.effectiveTimeout(60000)).toBe(5000);
+  });
+
+  it('should only pass allowlisted environment variables', async () => {
+    process.env.COMMANDS_TEST_SECRET = 'hunter2';
+    try {
+      const result = await runner.run('echo "secret=$COMMANDS_TEST_SECRET lang=$LC_TEST"', { cwd, env: { LC_TEST: 'C' } });
+
+      expect(result.stdout).toBe('secret= lang=C\n');
+      expect(() => runner.buildEnv({ COMMANDS_TEST_SECRET: 'x' })).toThrow('Environment variables not allowed: COMMANDS_TEST_SECRET');
+      expect(new CommandRunner({ envAllowlist: ['COMMANDS_TEST_*'] }).buildEnv()).toEqual({ COMMANDS_TEST_SECRET: 'hunter2' });
+    } finally {
+      delete process.env.COMMANDS_TEST_SECRET;
+    }
+  });
+
+  it('should keep the head and tail of huge output', async () => {
+    const small = new CommandRunner({ maxOutputChars: 20 });
+
+    const result = await small.run('seq 1 10000', { cwd });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toMatch(/^1\n2\n3\n4\n5\n\n\[\.\.\. \d+ characters omitted \.\.\.\]\n/);
+    expect(result.stdout.endsWith('999\n10000\n')).toBe(true);
+  });
+
+  it('should start, poll and kill background processes', async () => {
+    const started = runner.start('echo ready; sleep 10', { cwd });
+    expect(started).toMatchObject({ id: '1', running: true });
+
+    const first = await runner.poll('1', 5000);
+    expect(first).toMatchObject({ running: true, output: 'ready\n' });
+    expect((await runner.poll('1')).output).toBe('');
+
+    const killed = await runner.kill('1');
+    expect(killed).toMatchObject({ running: false, exitCode: null, signal: 'SIGTERM' });
+    expect(runner.list()).toEqual([expect.objectContaining({ id: '1', running: false })]);
+  });
+
+  it('should report the exit code of a finished background process', async () => {
+    runner.start('echo done; exit 4', { cwd });
+
+    let status = await runner.poll('1', 5000);
+    while (status.running) {
+      status = await runner.poll('1', 100);
+    }
+
+    expect(status.exitCode).toBe(4);
+    await expect(runner.poll('9')).rejects.toThrow("No background process with id '9'");
+  });
+
+  it('should wake every poll waiting on the same process', async () => {
+    runner.start('sleep 0.2; echo late; sleep 10', { cwd });
+
+    const started = Date.now();
+    const [first, second] = await Promise.all([runner.poll('1', 5000), runner.poll('1', 5000)]);
+
+    expect(Date.now() - started).toBeLessThan(4000);
+    expect(first.output + second.output).toBe('late\n');
+  });
+
+  it('should finish a background process that fails to start', async () => {
+    runner.start('echo never', { cwd: path.join(cwd, 'missing-directory') });
+
+    // Returns at once instead of waiting for a 'close' that never comes
+    expect((await runner.kill('1')).pid).toBeUndefined();
+
+    const status = await runner.poll('1', 5000);
+    expect(status.running).toBe(false);
+    expect(status.output).toContain('[Failed to start: spawn');
+  });
+
+  it('should limit how many background processes run at once', () => {
+    const limited = new CommandRunner({ maxBackgroundProcesses: 1 });
+    try {
+      limited.start('sleep 10', { cwd });
+      expect(() => limited.start('sleep 10', { cwd })).toThrow('Too many background processes (1 running)');
+    } finally {
+      limited.killAll();
+    }
+  });
+});
+
+describe('OutputBuffer', () => {
+  it('should keep short output unchanged', () => {
+    const buffer = new OutputBuffer(10);
+    buffer.append('abc');
+    buffer.append('de');
+
+    expect(buffer.toString()).toBe('abcde');
+  });
+
+  it('should drop the middle of long output', () => {
+    const buffer = new OutputBuffer(6);
+    buffer.append('abcdef');
+    buffer.append('ghijkl');
+
+    expect(buffer.toString()).toBe('abc\n[... 6 characters omitted ...]\njkl');
+  });
+});
+
+describe('command tools', () => {
+  let root: string;
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'commands-test-')));
+    fs.mkdirSync(path.join(root, 'sub'));
+    registry = new ToolRegistry({ workspace: new Workspace({ root }), commands: new CommandRunner() });
+    [executeCommandTool, startProcessTool, pollProcessTool, killProcessTool].forEach(tool => registry.register(tool));
+  });
+
+  afterEach(() => {
+    registry.commands.killAll();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should run in a directory of the workspace and report the exit code', async () => {
+    const result = await registry.execute({ name: 'execute_command', input: { command: 'pwd', cwd: 'sub' } });
+
+    expect(result).toMatch(new RegExp(`^Output:\\n${path.join(root, 'sub')}\\n\\nExit code: 0 \\(\\d+\\.\\ds\\)$`));
+  });
+
+  it('should refuse a working directory outside the workspace', async () => {
+    const result = await registry.execute({ name: 'execute_command', input: { command: 'pwd', cwd: '..' } });
+
+    expect(result).toContain('outside the workspace');
+  });
+
+  it('should include output and exit code when a command fails or times out', async () => {
+    const failed = await registry.execute({ name: 'execute_command', input: { command: 'echo partial; exit 2' } });
+    expect(failed).toContain('Command execution failed');
+    expect(failed).toContain('Output:\npartial');
+    expect(failed).toContain('Exit code: 2');
+
+    const slow = await registry.execute({ name: 'execute_command', input: { command: 'echo begun; sleep 10', timeout_ms: 200 } });
+    expect(slow).toContain('Command execution failed: timed out after 200ms');
+    expect(slow).toContain('Output:\nbegun');
+    expect(slow).toContain('Killed by SIGTERM');
+  });
+
+  it('should drive a background process through the companion tools', async () => {
+    const started = await registry.execute({ name: 'start_process', input: { command: 'echo listening; sleep 10' } });
+    expect(started).toMatch(/^Started process 1 \(pid \d+\): echo listening; sleep 10/);
+
+    const polled = await registry.execute({ name: 'poll_process', input: { id: '1', wait_ms: 5000 } });
+    expect(polled).toMatch(/^Process 1 \(echo listening; sleep 10\) is running \(pid \d+, \d+s\)\.\n\nNew output:\nlistening\n$/);
+
+    const killed = await registry.execute({ name: 'kill_process', input: { id: '1', signal: 'SIGKILL' } });
+    expect(killed).toBe('Process 1 (echo listening; sleep 10) was killed by SIGKILL.\n\nNo new output.');
+  });
+});
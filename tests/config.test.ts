@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createAgentFromProfile,
+  DEFAULT_CONFIG,
+  loadConfig,
+  parseCliArgs,
+  parseConfig,
+  renderSystemPrompt,
+  resolveProfile
+} from '../config';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ToolRegistry, todoWriteTool, Tool } from '../tools';
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the input text back',
+  input_schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  execute: async (input: { text: string }): Promise<string> => `echo: ${input.text}`
+};
+
+describe('Agent config', () => {
+  describe('loadConfig', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should merge file profiles over the built-in default', () => {
+      const filePath = path.join(directory, 'agent.config.json');
+      fs.writeFileSync(filePath, JSON.stringify({
+        defaultProfile: 'reviewer',
+        profiles: { reviewer: { systemPrompt: 'Review {{cwd}}', tools: ['read_file'], temperature: 0 } }
+      }));
+
+      const config = loadConfig(filePath);
+
+      expect(config.defaultProfile).toBe('reviewer');
+      expect(Object.keys(config.profiles)).toEqual(['default', 'reviewer']);
+      expect(config.profiles.reviewer.tools).toEqual(['read_file']);
+    });
+
+    it('should fall back to the defaults only when no path was given', () => {
+      expect(() => loadConfig(path.join(directory, 'missing.json'))).toThrow('Config file not found');
+    });
+
+    it('should report every invalid profile field', () => {
+      expect(() => parseConfig({ profiles: { fast: { maxTokens: 0, colour: 'red' } } }, 'agent.config.json')).toThrow(
+        "Invalid agent.config.json:\n- profiles.fast.maxTokens: must be >= 1, got 0\n- profiles.fast.colour: is not an allowed property"
+      );
+      expect(() => parseConfig({ defaultProfile: 'missing' })).toThrow("defaultProfile 'missing' is not defined");
+    });
+
+    it('should read and validate MCP servers', () => {
+      const config = parseConfig({ mcpServers: { files: { command: 'npx', args: ['-y', 'mcp-files'], env: { ROOT: '.' } } } });
+      expect(config.mcpServers.files).toEqual({ command: 'npx', args: ['-y', 'mcp-files'], env: { ROOT: '.' } });
+      expect(parseConfig({}).mcpServers).toEqual({});
+
+      expect(() => parseConfig({ mcpServers: { files: { args: [1] } } }, 'agent.config.json')).toThrow(
+        "Invalid agent.config.json:\n- mcpServers.files.command: is required\n- mcpServers.files.args[0]: expected string, got number"
+      );
+    });
+  });
+
+  describe('resolveProfile', () => {
+    it('should apply overrides on top of the named profile', () => {
+      const config = parseConfig({ profiles: { fast: { model: 'small', maxTokens: 500 } } });
+
+      const profile = resolveProfile(config, 'fast', { maxTokens: 200, model: undefined });
+
+      expect(profile).toEqual({ name: 'fast', model: 'small', maxTokens: 200 });
+    });
+
+    it('should list the available profiles for unknown names', () => {
+      expect(() => resolveProfile(DEFAULT_CONFIG, 'nope')).toThrow("Unknown profile 'nope'. Available: default");
+    });
+  });
+
+  describe('renderSystemPrompt', () => {
+    it('should fill known placeholders and keep unknown ones', () => {
+      expect(renderSystemPrompt('In {{ cwd }} with {{tools}} and {{other}}', { cwd: '/repo', tools: 'a, b' }))
+        .toBe('In /repo with a, b and {{other}}');
+    });
+  });
+
+  describe('parseCliArgs', () => {
+    it('should parse profile, model and tool flags', () => {
+      const options = parseCliArgs([
+        '--profile', 'reviewer', '--model=claude-x', '--max-tokens', '2000',
+        '--temperature', '0.5', '--tools', 'read_file, grep', '--no-auto-todos', '--trace', 'trace.jsonl',
+        '--todos', 'plan.json'
+      ]);
+
+      expect(options).toEqual({
+        profile: 'reviewer',
+        tracePath: 'trace.jsonl',
+        todoFile: 'plan.json',
+        overrides: { model: 'claude-x', maxTokens: 2000, temperature: 0.5, tools: ['read_file', 'grep'], autoProgressTodos: false }
+      });
+    });
+
+    it('should parse headless flags', () => {
+      expect(parseCliArgs(['-p', 'Summarize README.md', '--output=json', '-y'])).toEqual({
+        prompt: 'Summarize README.md',
+        output: 'json',
+        yes: true,
+        overrides: {}
+      });
+      expect(parseCliArgs(['-p', '-'])).toEqual({ stdin: true, overrides: {} });
+      expect(parseCliArgs(['-p', 'Review this', '-'])).toEqual({ prompt: 'Review this', stdin: true, overrides: {} });
+      expect(() => parseCliArgs(['--output', 'xml'])).toThrow("Option --output must be text or json, got 'xml'");
+    });
+
+    it('should reject unknown flags and bad values', () => {
+      expect(() => parseCliArgs(['--verbose'])).toThrow("Unknown option '--verbose'");
+      expect(() => parseCliArgs(['--max-tokens', 'lots'])).toThrow("Option --max-tokens expects an integer, got 'lots'");
+      expect(() => parseCliArgs(['--model'])).toThrow('Option --model requires a value');
+      expect(() => parseCliArgs(['--port', '80.5'])).toThrow("Option --port expects an integer, got '80.5'");
+    });
+  });
+
+  describe('createAgentFromProfile', () => {
+    let toolRegistry: ToolRegistry;
+
+    beforeEach(() => {
+      toolRegistry = new ToolRegistry();
+      toolRegistry.register(echoTool);
+      toolRegistry.register(todoWriteTool);
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should send the rendered system prompt and only the allowed tools', async () => {
+      const provider = new ScriptedProvider([[textBlock('Hi')]]);
+      const agent = createAgentFromProfile(
+        { name: 'echoer', systemPrompt: 'Profile {{profile}} on {{model}} with {{tools}}', tools: ['echo'] },
+        {},
+        provider,
+        toolRegistry
+      );
+
+      await agent.chat('Hello');
+
+      expect(provider.requests[0].system).toBe('Profile echoer on scripted-model with echo');
+      expect(provider.requests[0].tools.map(tool => tool.name)).toEqual(['echo']);
+    });
+
+    it('should reject tools the registry does not have', () => {
+      expect(() => createAgentFromProfile({ name: 'bad', tools: ['teleport'] }, {}, new ScriptedProvider([]), toolRegistry))
+        .toThrow('Unknown tools: teleport. Available: echo, todo_write');
+    });
+
+    it('should not start the next todo when auto-progression is off', async () => {
+      const todos = [
+        { id: '1', content: 'First', status: 'completed' as const, priority: 'high' as const },
+        { id: '2', content: 'Second', status: 'pending' as const, priority: 'high' as const }
+      ];
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'todo_write', { todos })],
+        [textBlock('Done with the first.')]
+      ]);
+      const agent = createAgentFromProfile({ name: 'manual', autoProgressTodos: false }, {}, provider, toolRegistry);
+
+      await agent.chat('Finish the first todo');
+
+      expect(agent.getTodos().map(todo => todo.status)).toEqual(['completed', 'pending']);
+      const lastMessage = provider.requests[1].messages[provider.requests[1].messages.length - 1];
+      expect(lastMessage.content).toHaveLength(1);
+    });
+  });
+});
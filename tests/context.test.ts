@@ -0,0 +1,134 @@
+import Agent, { AgentEvent, Message, validateToolPairing } from '../agent';
+import { ContextManager, estimateMessageTokens, estimateTokens, SUMMARY_PREFIX } from '../context';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ToolRegistry, Tool } from '../tools';
+
+const toolTurn = (id: string, output: string): Message[] => [
+  { role: 'assistant', content: [textBlock('Reading.'), toolUseBlock(id, 'read', { path: `${id}.txt` })] },
+  { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: output }] }
+];
+
+describe('ContextManager', () => {
+  it('should estimate roughly four characters per token', () => {
+    const short = estimateMessageTokens({ role: 'user', content: 'abcd' });
+    const long = estimateMessageTokens({ role: 'user', content: 'abcd'.repeat(100) });
+
+    expect(long - short).toBe(99);
+    expect(estimateTokens([{ role: 'user', content: 'abcd' }, { role: 'user', content: 'abcd' }])).toBe(short * 2);
+  });
+
+  it('should leave history under budget untouched', async () => {
+    const provider = new ScriptedProvider([]);
+    const manager = new ContextManager({ maxTokens: 1000 });
+
+    expect(await manager.compact([{ role: 'user', content: 'Hi' }], provider)).toBeNull();
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('should truncate old tool results before summarizing', async () => {
+    const provider = new ScriptedProvider([]);
+    const manager = new ContextManager({ maxTokens: 1500, maxToolResultTokens: 100, preserveRecentMessages: 2 });
+    const messages: Message[] = [
+      { role: 'user', content: 'Read both files' },
+      ...toolTurn('toolu_1', 'x'.repeat(4000)),
+      ...toolTurn('toolu_2', 'y'.repeat(2000))
+    ];
+
+    const result = (await manager.compact(messages, provider))!;
+
+    expect(result.truncatedResults).toBe(1);
+    expect(result.summarizedMessages).toBe(0);
+    const oldResult = (result.messages[2].content as any[])[0].content as string;
+    expect(oldResult).toMatch(/^x{400}\n\[\.\.\. 3600 characters of old tool output truncated/);
+    expect((result.messages[4].content as any[])[0].content).toBe('y'.repeat(2000));
+    expect((messages[2].content as any[])[0].content).toHaveLength(4000);
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('should summarize older turns without splitting tool pairs', async () => {
+    const provider = new ScriptedProvider([[textBlock('User asked to read files a and b.')]]);
+    const manager = new ContextManager({ maxTokens: 1500, maxToolResultTokens: 1000, preserveRecentMessages: 2 });
+    const messages: Message[] = [
+      { role: 'user', content: 'Read the files' },
+      ...toolTurn('toolu_1', 'a'.repeat(3000)),
+      ...toolTurn('toolu_2', 'b'.repeat(3000)),
+      { role: 'assistant', content: [textBlock('Done.')] },
+      { role: 'user', content: 'Thanks, now what?' }
+    ];
+
+    const result = (await manager.compact(messages, provider))!;
+
+    expect(result.summarizedMessages).toBe(5);
+    expect(result.messages).toEqual([
+      { role: 'user', content: `${SUMMARY_PREFIX}\nUser asked to read files a and b.` },
+      { role: 'assistant', content: [textBlock('Done.')] },
+      { role: 'user', content: 'Thanks, now what?' }
+    ]);
+    expect(provider.requests[0].tools).toEqual([]);
+    expect(provider.requests[0].messages[0].content).toContain('Assistant called read({"path":"toolu_1.txt"})');
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
+
+  it('should keep the latest tool pair together when cutting mid tool loop', async () => {
+    const provider = new ScriptedProvider([[textBlock('Earlier reads.')]]);
+    const manager = new ContextManager({ maxTokens: 1200, maxToolResultTokens: 1000, preserveRecentMessages: 2 });
+    const messages: Message[] = [
+      { role: 'user', content: 'Read everything' },
+      ...toolTurn('toolu_1', 'a'.repeat(3000)),
+      ...toolTurn('toolu_2', 'b'.repeat(3000)),
+      ...toolTurn('toolu_3', 'c'.repeat(3000))
+    ];
+
+    const result = (await manager.compact(messages, provider))!;
+
+    expect(() => validateToolPairing(result.messages)).not.toThrow();
+    expect(result.messages[0]).toEqual({ role: 'user', content: `${SUMMARY_PREFIX}\nEarlier reads.` });
+    expect(result.messages[1].role).toBe('assistant');
+    expect(result.messages[result.messages.length - 1]).toEqual(messages[messages.length - 1]);
+  });
+});
+
+describe('Agent context management', () => {
+  const readTool: Tool = {
+    name: 'read',
+    description: 'Read a file',
+    input_schema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+    execute: async (): Promise<string> => 'z'.repeat(4000)
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compact history before a request that would exceed the budget', async () => {
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.register(readTool);
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'read', { path: 'big.txt' })],
+      [textBlock('The file is all z.')],
+      [textBlock('Summary: read big.txt, it was all z.')],
+      [textBlock('Yes, all z.')]
+    ]);
+    const contextManager = new ContextManager({ maxTokens: 1040, maxToolResultTokens: 2000 });
+    const agent = new Agent(toolRegistry, provider, { contextManager });
+
+    await agent.chat('Read big.txt');
+    const events: AgentEvent[] = [];
+    for await (const event of agent.chatStream('Was it all z?')) {
+      events.push(event);
+    }
+
+    expect(events[0]).toMatchObject({ type: 'context_compacted', summarizedMessages: 3 });
+    expect(provider.requests[2].messages[0].content).toContain('Tool result: zzzz');
+    expect(provider.requests[3].messages).toEqual([
+      { role: 'user', content: `${SUMMARY_PREFIX}\nSummary: read big.txt, it was all z.` },
+      { role: 'assistant', content: [textBlock('The file is all z.')] },
+      { role: 'user', content: 'Was it all z?' }
+    ]);
+    expect(agent.getConversationHistory()).toHaveLength(4);
+  });
+});
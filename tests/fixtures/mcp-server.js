@@ -0,0 +1,80 @@
+// Minimal MCP server over stdio used by tests/mcp.test.ts
+const readline = require('readline');
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the input text back',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] }
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers',
+    inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] }
+  },
+  { name: 'fail', description: 'Always reports an error', inputSchema: { type: 'object', properties: {} } },
+  { name: 'crash', description: 'Exits the server', inputSchema: { type: 'object', properties: {} } },
+  {
+    name: 'slow',
+    description: 'Answers after a delay',
+    inputSchema: { type: 'object', properties: { ms: { type: 'number' } }, required: ['ms'] }
+  },
+  { name: 'greeting', description: 'Reads MCP_FIXTURE_GREETING', inputSchema: { type: 'object', properties: {} } }
+];
+
+// Tools are listed two per page to exercise pagination
+const PAGE_SIZE = 2;
+
+const send = message => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+const text = value => ({ content: [{ type: 'text', text: String(value) }] });
+
+function callTool(name, args) {
+  switch (name) {
+    case 'echo':
+      return text(`echo: ${args.text}`);
+    case 'add':
+      return text(args.a + args.b);
+    case 'fail':
+      return { content: [{ type: 'text', text: 'something went wrong' }], isError: true };
+    case 'crash':
+      process.stderr.write('crashing on purpose\n');
+      process.exit(3);
+    case 'slow':
+      return new Promise(resolve => setTimeout(() => resolve(text(`waited ${args.ms}ms`)), args.ms));
+    case 'greeting':
+      return text(process.env.MCP_FIXTURE_GREETING || 'no greeting');
+    default:
+      return null;
+  }
+}
+
+const input = readline.createInterface({ input: process.stdin });
+
+// Like real servers, exit once the client closes stdin, even with calls still running
+input.on('close', () => process.exit(0));
+
+input.on('line', async line => {
+  const message = JSON.parse(line);
+  if (message.id === undefined) return;
+
+  switch (message.method) {
+    case 'initialize':
+      send({ id: message.id, result: { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'fixture', version: '1.0.0' } } });
+      break;
+    case 'tools/list': {
+      const start = Number(message.params.cursor || 0);
+      const next = start + PAGE_SIZE;
+      send({ id: message.id, result: { tools: tools.slice(start, next), ...(next < tools.length ? { nextCursor: String(next) } : {}) } });
+      break;
+    }
+    case 'tools/call': {
+      const result = await callTool(message.params.name, message.params.arguments);
+      send(result
+        ? { id: message.id, result }
+        : { id: message.id, error: { code: -32602, message: `Unknown tool: ${message.params.name}` } });
+      break;
+    }
+    default:
+      send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+  }
+});
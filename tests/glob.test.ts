@@ -0,0 +1,35 @@
+import { globToRegExp, matchesGlob } from '../glob';
+
+describe('globToRegExp', () => {
+  it('should match file names in any directory when the pattern has no slash', () => {
+    expect(matchesGlob('index.ts', '*.ts')).toBe(true);
+    expect(matchesGlob('src/deep/agent.ts', '*.ts')).toBe(true);
+    expect(matchesGlob('src/agent.tsx', '*.ts')).toBe(false);
+  });
+
+  it('should anchor patterns containing a slash to the root', () => {
+    expect(matchesGlob('src/agent.ts', 'src/*.ts')).toBe(true);
+    expect(matchesGlob('lib/src/agent.ts', 'src/*.ts')).toBe(false);
+    expect(matchesGlob('src/a/b/agent.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/agent.ts', 'src/**/*.ts')).toBe(true);
+  });
+
+  it('should support braces, character classes and single-character wildcards', () => {
+    const pattern = globToRegExp('config/{dev,prod}.[jt]s?');
+    expect(pattern.test('config/dev.json')).toBe(false);
+    expect(pattern.test('config/dev.tsx')).toBe(true);
+    expect(pattern.test('config/prod.jsx')).toBe(true);
+    expect(pattern.test('config/test.tsx')).toBe(false);
+  });
+
+  it('should treat a trailing slash as everything under a directory', () => {
+    expect(matchesGlob('.git/config', '.git/')).toBe(true);
+    expect(matchesGlob('vendor/.git/HEAD', '.git/')).toBe(true);
+    expect(matchesGlob('.github/workflows/ci.yml', '.git/')).toBe(false);
+  });
+
+  it('should escape regex characters in literal segments', () => {
+    expect(matchesGlob('notes(1).md', 'notes(1).md')).toBe(true);
+    expect(matchesGlob('notesX1Ymd', 'notes(1).md')).toBe(false);
+  });
+});
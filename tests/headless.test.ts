@@ -0,0 +1,121 @@
+import { PassThrough } from 'stream';
+import { DEFAULT_CONFIG, parseCliArgs, parseConfig } from '../config';
+import { HeadlessIO, runHeadlessCli } from '../headless';
+import { ModelApiError, ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+
+describe('Headless CLI', () => {
+  let stdout: string;
+  let stderr: string;
+
+  const createIO = (input?: string): HeadlessIO => {
+    // Without input, stdin is a pipe that never ends, like stdin under CI or `ssh -T`
+    const stdin = new PassThrough();
+    if (input !== undefined) {
+      stdin.end(input);
+    }
+    const collect = (append: (text: string) => void) => {
+      const stream = new PassThrough();
+      stream.on('data', chunk => append(chunk.toString()));
+      return stream;
+    };
+    return { stdin, stdout: collect(text => { stdout += text; }), stderr: collect(text => { stderr += text; }) };
+  };
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+  });
+
+  it('should print the final text and exit with 0', async () => {
+    const provider = new ScriptedProvider([[textBlock('All good.')]]);
+
+    const code = await runHeadlessCli(parseCliArgs(['-p', 'Check things']), DEFAULT_CONFIG, createIO(), provider);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('All good.\n');
+    expect(provider.requests[0].messages[0].content).toBe('Check things');
+  });
+
+  it('should append piped stdin to the prompt and report everything as JSON', async () => {
+    const todos = [{ id: '1', content: 'Summarize', status: 'completed', priority: 'high' }];
+    const provider = new ScriptedProvider([
+      { content: [toolUseBlock('toolu_1', 'read_file', { file_path: 'package.json' })], usage: { inputTokens: 30, outputTokens: 10 } },
+      [toolUseBlock('toolu_2', 'todo_write', { todos })],
+      [textBlock('It is a Node project.')]
+    ]);
+    const cli = parseCliArgs(['-p', 'Summarize this:', '-', '--output', 'json', '--tools', 'read_file,todo_write', '--no-auto-todos']);
+
+    const code = await runHeadlessCli(cli, DEFAULT_CONFIG, createIO('extra context\n'), provider);
+
+    expect(code).toBe(0);
+    expect(provider.requests[0].messages[0].content).toBe('Summarize this:\n\nextra context');
+    const result = JSON.parse(stdout);
+    expect(result).toMatchObject({
+      status: 'success',
+      text: 'It is a Node project.',
+      todos,
+      usage: { chat: { turns: 3, inputTokens: 30, outputTokens: 10 } }
+    });
+    expect(result.toolCalls).toHaveLength(2);
+    expect(result.toolCalls[0]).toMatchObject({ id: 'toolu_1', name: 'read_file', input: { file_path: 'package.json' }, isError: false });
+    expect(result.toolCalls[0].result).toContain('File contents of package.json');
+  });
+
+  it('should read the whole prompt from stdin with -p -', async () => {
+    const provider = new ScriptedProvider([[textBlock('Read it.')]]);
+
+    await runHeadlessCli(parseCliArgs(['-p', '-']), DEFAULT_CONFIG, createIO('from a pipe'), provider);
+
+    expect(provider.requests[0].messages[0].content).toBe('from a pipe');
+  });
+
+  it('should leave stdin alone unless - is given', async () => {
+    const provider = new ScriptedProvider([[textBlock('Done.')]]);
+    const code = await runHeadlessCli(parseCliArgs(['-p', 'Check things']), DEFAULT_CONFIG, createIO('ignored'), provider);
+
+    expect(code).toBe(0);
+    expect(provider.requests[0].messages[0].content).toBe('Check things');
+  });
+
+  it('should exit with 2 without a prompt', async () => {
+    const code = await runHeadlessCli(parseCliArgs([]), DEFAULT_CONFIG, createIO(''), new ScriptedProvider());
+
+    expect(code).toBe(2);
+    expect(stderr).toContain('No prompt given');
+  });
+
+  it('should exit with 1 when the model request fails', async () => {
+    const provider = new ScriptedProvider();
+    jest.spyOn(provider, 'createMessage').mockRejectedValue(new ModelApiError('Invalid API key', 401));
+
+    const code = await runHeadlessCli(parseCliArgs(['-p', 'Hi']), DEFAULT_CONFIG, createIO(), provider);
+
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('Model request failed (authentication failed)');
+  });
+
+  it('should exit with 3 when a budget stops the run', async () => {
+    const config = parseConfig({ profiles: { tight: { budget: { chat: { maxTurns: 1 } } } } });
+    const provider = new ScriptedProvider([[toolUseBlock('toolu_1', 'list_directory', { path: '.' })]]);
+
+    const code = await runHeadlessCli(parseCliArgs(['-p', 'Look around', '--profile', 'tight', '--output', 'json']), config, createIO(), provider);
+
+    expect(code).toBe(3);
+    expect(JSON.parse(stdout)).toMatchObject({ status: 'budget_exceeded', text: 'Stopped: chat budget exceeded (maxTurns: used 1 of 1).' });
+  });
+
+  it('should deny calls that need approval unless --yes is given', async () => {
+    const script = () => new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'execute_command', { command: 'echo approved' })],
+      [textBlock('Finished.')]
+    ]);
+
+    await runHeadlessCli(parseCliArgs(['-p', 'Run it', '--output', 'json']), DEFAULT_CONFIG, createIO(), script());
+    expect(JSON.parse(stdout).toolCalls[0]).toMatchObject({ isError: true, result: expect.stringContaining('requires approval') });
+
+    stdout = '';
+    await runHeadlessCli(parseCliArgs(['-p', 'Run it', '--output', 'json', '-y']), DEFAULT_CONFIG, createIO(), script());
+    expect(JSON.parse(stdout).toolCalls[0]).toMatchObject({ isError: false, result: expect.stringContaining('approved') });
+  });
+});
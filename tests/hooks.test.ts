@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Agent from '../agent';
+import { AgentHooks, JsonlTraceWriter, combineHooks, consoleHooks } from '../hooks';
+import { ModelApiError, ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ToolRegistry, Tool, todoWriteTool } from '../tools';
+
+describe('Agent hooks', () => {
+  let toolRegistry: ToolRegistry;
+  let calls: string[];
+  let recorder: AgentHooks;
+  let logSpy: jest.SpyInstance;
+
+  const echoTool: Tool = {
+    name: 'echo',
+    description: 'Echo the input text back',
+    input_schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    execute: async (input: { text: string }) => `echo: ${input.text}`
+  };
+
+  const todos = [
+    { id: '1', content: 'Write code', status: 'completed' as const, priority: 'high' as const },
+    { id: '2', content: 'Write tests', status: 'pending' as const, priority: 'medium' as const }
+  ];
+
+  beforeEach(() => {
+    toolRegistry = new ToolRegistry();
+    toolRegistry.register(echoTool);
+    toolRegistry.register(todoWriteTool);
+    calls = [];
+    recorder = {
+      onTurnStart: event => calls.push(`turn ${event.turn}`),
+      onModelResponse: event => calls.push(`response ${event.turn} ${event.stopReason} ${event.usage.outputTokens}`),
+      onToolStart: event => calls.push(`start ${event.name}`),
+      onToolEnd: event => calls.push(`end ${event.name} ${event.content}`),
+      onTodoChange: event => calls.push(`todos ${event.reason} ${event.todos.map(todo => todo.status).join(',')}`),
+      onError: event => calls.push(`error ${event.retrying} ${event.error.message}`)
+    };
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report turns, tool calls and todo changes in order', async () => {
+    const provider = new ScriptedProvider([
+      { content: [toolUseBlock('toolu_1', 'echo', { text: 'hi' })], usage: { inputTokens: 10, outputTokens: 5 } },
+      [toolUseBlock('toolu_2', 'todo_write', { todos })],
+      [textBlock('Done.')]
+    ]);
+    const agent = new Agent(toolRegistry, provider, { hooks: recorder });
+
+    await agent.chat('Go');
+
+    expect(calls).toEqual([
+      'turn 1',
+      'response 1 tool_use 5',
+      'start echo',
+      'end echo echo: hi',
+      'turn 2',
+      'response 2 tool_use 0',
+      'start todo_write',
+      'todos update completed,pending',
+      'todos auto_start completed,in_progress',
+      expect.stringMatching(/^end todo_write /),
+      'turn 3',
+      'response 3 end_turn 0'
+    ]);
+  });
+
+  it('should stay silent without hooks', async () => {
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'todo_write', { todos })],
+      [textBlock('Done.')]
+    ]);
+    const agent = new Agent(toolRegistry, provider);
+
+    await agent.chat('First build the api, then write the tests');
+
+    expect(logSpy).not.toHaveBeenCalled();
+  });
+
+  it('should report retries and the final failure', async () => {
+    const provider = new ScriptedProvider();
+    const overloaded = new ModelApiError('Overloaded', 529);
+    jest.spyOn(provider, 'createMessage').mockRejectedValue(overloaded);
+    const agent = new Agent(toolRegistry, provider, { hooks: recorder, retry: { maxRetries: 1, sleep: async () => {} } });
+
+    await expect(agent.chat('Go')).rejects.toThrow('Model request failed');
+
+    expect(calls).toEqual([
+      'turn 1',
+      'error true Overloaded',
+      'error false Model request failed (overloaded) after 2 attempts: Overloaded'
+    ]);
+  });
+
+  it('should ignore hooks that throw', async () => {
+    const provider = new ScriptedProvider([[textBlock('Still fine.')]]);
+    const hooks = combineHooks({ onTurnStart: () => { throw new Error('broken observer'); } }, recorder);
+    const agent = new Agent(toolRegistry, provider, { hooks });
+
+    await expect(agent.chat('Go')).resolves.toBe('Still fine.');
+    expect(calls).toEqual(['turn 1', 'response 1 end_turn 0']);
+  });
+
+  it('should render todo progress and notices to the console', async () => {
+    const lines: string[] = [];
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'todo_write', { todos })],
+      [textBlock('Done.')]
+    ]);
+    const agent = new Agent(toolRegistry, provider, { hooks: consoleHooks(line => lines.push(line)) });
+
+    await agent.processMessage('First build the api, then write the tests');
+
+    expect(lines).toEqual([
+      expect.stringContaining('💡 This looks like a complex task'),
+      '\n📊 Progress: 1/2 todos completed (50%)',
+      '✅ Recently completed:',
+      '   • Write code',
+      '',
+      '\n🔄 Auto-starting next todo: Write tests'
+    ]);
+  });
+
+  describe('JsonlTraceWriter', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-trace-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write one record per turn, tool call and error', async () => {
+      const tracePath = path.join(dir, 'nested', 'trace.jsonl');
+      const provider = new ScriptedProvider([
+        { content: [toolUseBlock('toolu_1', 'echo', { text: 'hi' })], usage: { inputTokens: 12, outputTokens: 3 } },
+        { content: [textBlock('Done.')], usage: { inputTokens: 20, outputTokens: 4 } }
+      ]);
+      const agent = new Agent(toolRegistry, provider, { hooks: new JsonlTraceWriter(tracePath) });
+
+      await agent.chat('Go');
+
+      const records = fs.readFileSync(tracePath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+      expect(records).toEqual([
+        expect.objectContaining({ type: 'turn', turn: 1, model: 'scripted-model', inputTokens: 12, outputTokens: 3, stopReason: 'tool_use', toolCalls: 1 }),
+        expect.objectContaining({ type: 'tool', id: 'toolu_1', name: 'echo', isError: false }),
+        expect.objectContaining({ type: 'turn', turn: 2, inputTokens: 20, outputTokens: 4, stopReason: 'end_turn', toolCalls: 0 })
+      ]);
+      for (const record of records) {
+        expect(record.durationMs).toBeGreaterThanOrEqual(0);
+        expect(Date.parse(record.startedAt)).not.toBeNaN();
+      }
+    });
+  });
+});
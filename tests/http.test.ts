@@ -0,0 +1,204 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient, htmlToText, isPrivateAddress } from '../http';
+import { ToolRegistry, httpRequestTool } from '../tools';
+
+// Echoes requests back as JSON, plus a few fixed routes
+function handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const chunks: Buffer[] = [];
+  request.on('data', chunk => chunks.push(chunk));
+  request.on('end', () => {
+    const redirect = /^\/redirect\/(\d+)$/.exec(url.pathname);
+    if (redirect) {
+      const remaining = Number(redirect[1]);
+      response.writeHead(url.searchParams.get('status') ? Number(url.searchParams.get('status')) : 302, {
+        location: url.searchParams.get('to') || (remaining > 1 ? `/redirect/${remaining - 1}` : '/echo')
+      }).end();
+    } else if (url.pathname === '/page') {
+      response.writeHead(200, { 'content-type': 'text/html; charset=utf-8' })
+        .end('<html><head><title>Docs</title><style>p { color: red }</style></head><body><h1>Intro</h1><p>Hello &amp; <a href="/next">welcome</a>.</p><script>alert(1)</script></body></html>');
+    } else if (url.pathname === '/image') {
+      response.writeHead(200, { 'content-type': 'image/png' }).end(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 1, 2]));
+    } else if (url.pathname === '/large') {
+      response.writeHead(200, { 'content-type': 'text/plain', 'content-length': '5000' }).end('x'.repeat(5000));
+    } else {
+      response.writeHead(200, { 'content-type': 'application/json', 'x-echo': 'yes' }).end(JSON.stringify({
+        method: request.method,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        contentType: request.headers['content-type'] || null,
+        authorization: request.headers.authorization || null,
+        body: Buffer.concat(chunks).toString('utf-8')
+      }));
+    }
+  });
+}
+
+describe('HttpClient', () => {
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = http.createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should refuse private addresses, listed hosts and other protocols', async () => {
+    const client = new HttpClient();
+
+    await expect(client.request(`${base}/echo`)).rejects.toThrow('127.0.0.1 resolves to the private address 127.0.0.1');
+    await expect(client.request('http://169.254.169.254/latest/meta-data')).rejects.toThrow('private address 169.254.169.254');
+    await expect(client.request('http://[::1]:8080/')).rejects.toThrow('private address ::1');
+    await expect(client.request('file:///etc/passwd')).rejects.toThrow('Only http and https URLs are allowed, not file:');
+
+    const listed = new HttpClient({ allowHosts: ['*.example.com'], denyHosts: ['secret.example.com'] });
+    await expect(listed.checkUrl(new URL('https://example.org/'))).rejects.toThrow('example.org is not on the allow list');
+    await expect(listed.checkUrl(new URL('https://secret.example.com/'))).rejects.toThrow('secret.example.com is on the deny list');
+  });
+
+  it('should refuse IPv6 spellings of private IPv4 addresses', async () => {
+    const client = new HttpClient();
+    const port = new URL(base).port;
+
+    await expect(client.request(`http://[::ffff:127.0.0.1]:${port}/echo`)).rejects.toThrow('::ffff:7f00:1 resolves to the private address');
+    await expect(client.request('http://[::ffff:a9fe:a9fe]/latest/meta-data')).rejects.toThrow('private address');
+    await expect(client.request(`http://[::127.0.0.1]:${port}/echo`)).rejects.toThrow('private address');
+    await expect(client.request(`http://[64:ff9b::7f00:1]:${port}/echo`)).rejects.toThrow('private address');
+  });
+
+  it('should check the addresses a host name resolves to when connecting', async () => {
+    const client = new HttpClient();
+    try {
+      // checkUrl leaves names alone; the connection refuses what they resolve to
+      await expect(client.checkUrl(new URL('http://localhost/'))).resolves.toBeUndefined();
+      await expect(client.request(`http://localhost:${new URL(base).port}/echo`))
+        .rejects.toThrow(/^localhost resolves to the private address (127\.0\.0\.1|::1)$/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should classify private addresses', () => {
+    [
+      '10.1.2.3', '172.20.0.1', '192.168.1.1', '127.0.0.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '240.0.0.1',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '::127.0.0.1',
+      '64:ff9b::7f00:1', '64:ff9b:1::a9fe:a9fe', '2002:7f00:1::', '[::ffff:127.0.0.1]'
+    ].forEach(address => expect([address, isPrivateAddress(address)]).toEqual([address, true]));
+    ['8.8.8.8', '172.32.0.1', '100.128.0.1', '2606:4700::1111', '::ffff:1.1.1.1', '::ffff:101:101', '64:ff9b::808:808']
+      .forEach(address => expect([address, isPrivateAddress(address)]).toEqual([address, false]));
+  });
+
+  it('should follow redirects up to the limit and check every hop', async () => {
+    const client = new HttpClient({ blockPrivateNetworks: false, maxRedirects: 2 });
+
+    const followed = await client.request(`${base}/redirect/2`);
+    expect(followed.status).toBe(200);
+    expect(followed.redirects).toEqual([`${base}/redirect/1`, `${base}/echo`]);
+
+    await expect(client.request(`${base}/redirect/3`)).rejects.toThrow('Too many redirects (more than 2); the last one pointed to /echo');
+
+    const pinned = new HttpClient({ blockPrivateNetworks: false, allowHosts: ['127.0.0.1'] });
+    await expect(pinned.request(`${base}/redirect/1?to=${encodeURIComponent('http://localhost/')}`))
+      .rejects.toThrow('localhost is not on the allow list');
+  });
+
+  it('should turn a POST into a GET after a 303 and drop credentials across origins', async () => {
+    const client = new HttpClient({ blockPrivateNetworks: false });
+
+    const response = await client.request(`${base}/redirect/1?status=303`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain', Authorization: 'Bearer token' },
+      body: 'data'
+    });
+    expect(JSON.parse(response.body.toString())).toMatchObject({ method: 'GET', body: '', contentType: null, authorization: 'Bearer token' });
+
+    const otherOrigin = base.replace('127.0.0.1', 'localhost');
+    const crossed = await client.request(`${base}/redirect/1?status=307&to=${encodeURIComponent(`${otherOrigin}/echo`)}`, {
+      method: 'PUT',
+      headers: { Authorization: 'Bearer token' },
+      body: 'data'
+    });
+    expect(JSON.parse(crossed.body.toString())).toMatchObject({ method: 'PUT', body: 'data', authorization: null });
+  });
+
+  it('should stop reading at the size limit', async () => {
+    const client = new HttpClient({ blockPrivateNetworks: false, maxResponseBytes: 1000 });
+
+    const response = await client.request(`${base}/large`);
+
+    expect(response).toMatchObject({ truncated: true, declaredBytes: 5000 });
+    expect(response.body).toHaveLength(1000);
+  });
+});
+
+describe('http_request tool', () => {
+  let server: http.Server;
+  let base: string;
+  let registry: ToolRegistry;
+
+  beforeAll(async () => {
+    server = http.createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    registry = new ToolRegistry({ http: new HttpClient({ blockPrivateNetworks: false, maxResponseBytes: 2000 }) });
+    registry.register(httpRequestTool);
+  });
+
+  afterAll(async () => {
+    await registry.http.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should send query parameters and a JSON body', async () => {
+    const result = await registry.execute({
+      name: 'http_request',
+      input: { url: `${base}/echo?a=1`, method: 'PATCH', query: { page: 2, draft: true }, json: { title: 'x' } }
+    });
+
+    expect(result).toContain(`HTTP PATCH ${base}/echo?a=1\nStatus: 200 OK\nContent-Type: application/json`);
+    expect(result).toContain('"method": "PATCH"');
+    expect(result).toContain('"query": {\n    "a": "1",\n    "page": "2",\n    "draft": "true"\n  }');
+    expect(result).toContain('"contentType": "application/json"');
+    expect(result).toContain('"body": "{\\"title\\":\\"x\\"}"');
+  });
+
+  it('should return only headers for HEAD', async () => {
+    const result = await registry.execute({ name: 'http_request', input: { url: `${base}/echo`, method: 'HEAD' } });
+
+    expect(result).toContain('Headers:\n');
+    expect(result).toContain('x-echo: yes');
+    expect(result).not.toContain('Response:');
+  });
+
+  it('should make HTML readable, summarize binary bodies and note truncation', async () => {
+    const page = await registry.execute({ name: 'http_request', input: { url: `${base}/page` } });
+    expect(page).toContain('Response:\nDocs\n\n# Intro\n\nHello & welcome (/next).');
+    expect(page).not.toContain('alert');
+
+    const image = await registry.execute({ name: 'http_request', input: { url: `${base}/image` } });
+    expect(image).toContain('Response:\n[Binary body: 8 bytes of image/png, not shown]');
+
+    const large = await registry.execute({ name: 'http_request', input: { url: `${base}/large` } });
+    expect(large).toContain(`${'x'.repeat(2000)}\n\n[Response truncated: read the first 2000 bytes of 5000 bytes]`);
+  });
+
+  it('should refuse a body together with json', async () => {
+    const result = await registry.execute({ name: 'http_request', input: { url: `${base}/echo`, method: 'POST', body: 'a', json: {} } });
+
+    expect(result).toBe("Error executing tool 'http_request': HTTP request failed: give either body or json, not both");
+  });
+});
+
+describe('htmlToText', () => {
+  it('should keep structure, links and entities', () => {
+    const text = htmlToText('<ul><li>One&nbsp;&lt;1&gt;</li><li><a href="https://a.example/">A</a></li></ul><table><tr><td>x</td><td>y</td></tr></table><!-- hidden -->');
+
+    expect(text).toBe('- One <1>\n- A (https://a.example/)\n\nx\ty');
+  });
+});
@@ -0,0 +1,163 @@
+import * as path from 'path';
+import Agent from '../agent';
+import { McpClient, McpManager, McpServerConfig, formatMcpContent, mcpToolName } from '../mcp';
+import { PermissionPolicy } from '../permissions';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ToolRegistry } from '../tools';
+
+const FIXTURE: McpServerConfig = {
+  command: process.execPath,
+  args: [path.join(__dirname, 'fixtures', 'mcp-server.js')],
+  env: { MCP_FIXTURE_GREETING: 'hello from the environment' },
+  timeoutMs: 5000
+};
+
+describe('MCP client', () => {
+  let clients: { close(): Promise<void> }[];
+
+  const track = <T extends { close(): Promise<void> }>(client: T): T => {
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+  });
+
+  it('should list tools across pages and call them', async () => {
+    const client = track(new McpClient('fixture', FIXTURE));
+
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['echo', 'add', 'fail', 'crash', 'slow', 'greeting']);
+
+    const result = await client.callTool('add', { a: 2, b: 3 });
+    expect(result.content).toEqual([{ type: 'text', text: '5' }]);
+    expect((await client.callTool('greeting', {})).content[0].text).toBe('hello from the environment');
+  });
+
+  it('should report JSON-RPC errors', async () => {
+    const client = track(new McpClient('fixture', FIXTURE));
+
+    await expect(client.callTool('missing', {})).rejects.toThrow("MCP server 'fixture' returned an error: Unknown tool: missing");
+  });
+
+  it('should restart a server that exits, up to the limit', async () => {
+    const client = track(new McpClient('fixture', FIXTURE, { maxRestarts: 1 }));
+
+    await expect(client.callTool('crash', {})).rejects.toThrow(/exited with code 3: crashing on purpose/);
+    expect(client.running).toBe(false);
+
+    expect((await client.callTool('echo', { text: 'back' })).content[0].text).toBe('echo: back');
+    expect(client.restarts).toBe(1);
+
+    await expect(client.callTool('crash', {})).rejects.toThrow('exited with code 3');
+    await expect(client.callTool('echo', { text: 'again' })).rejects.toThrow('gave up after 1 restarts');
+  });
+
+  it('should time out and cancel slow requests', async () => {
+    const client = track(new McpClient('fixture', { ...FIXTURE, timeoutMs: 1000 }));
+    await expect(client.callTool('slow', { ms: 5000 })).rejects.toThrow('MCP request tools/call to \'fixture\' timed out after 1000ms');
+
+    const controller = new AbortController();
+    const call = client.callTool('slow', { ms: 50 }, controller.signal);
+    controller.abort();
+    await expect(call).rejects.toThrow();
+    expect(client.running).toBe(true);
+  });
+
+  it('should fail clearly when the server cannot be started', async () => {
+    const client = track(new McpClient('broken', { command: path.join(__dirname, 'fixtures', 'no-such-server') }));
+
+    await expect(client.listTools()).rejects.toThrow("Could not start MCP server 'broken'");
+    expect(client.running).toBe(false);
+  });
+
+  it('should refuse calls after shutdown', async () => {
+    const client = new McpClient('fixture', FIXTURE);
+    await client.listTools();
+    await client.close();
+
+    expect(client.running).toBe(false);
+    await expect(client.callTool('echo', { text: 'late' })).rejects.toThrow("MCP server 'fixture' has been shut down");
+  });
+
+  describe('McpManager', () => {
+    it('should register namespaced tools that forward calls', async () => {
+      const manager = track(new McpManager({ fixture: FIXTURE, broken: { command: path.join(__dirname, 'fixtures', 'no-such-server') } }));
+      const registry = new ToolRegistry();
+
+      const result = await manager.connect(registry);
+
+      expect(result.tools).toContain('fixture__echo');
+      expect(result.failures.map(failure => failure.server)).toEqual(['broken']);
+      expect(registry.get('fixture__add')!.description).toBe('[fixture] Add two numbers');
+      expect(await registry.execute({ name: 'fixture__echo', input: { text: 'hi' } })).toBe('echo: hi');
+      expect(await registry.execute({ name: 'fixture__fail', input: {} }))
+        .toBe("Error executing tool 'fixture__fail': MCP tool fail failed: something went wrong");
+      expect(() => registry.validate({ name: 'fixture__add', input: { a: 1 } })).toThrow('b: is required');
+    });
+
+    it('should start servers before the first chat and shut them down with the agent', async () => {
+      const manager = new McpManager({ fixture: FIXTURE });
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'fixture__add', { a: 20, b: 22 })],
+        [textBlock('The answer is 42.')]
+      ]);
+      const permissions = new PermissionPolicy({ rules: [{ tool: 'fixture__add', decision: 'allow' }] });
+      const agent = new Agent(new ToolRegistry(), provider, { mcp: manager, permissions });
+
+      expect(await agent.chat('Add 20 and 22')).toBe('The answer is 42.');
+      expect(provider.requests[0].tools.map(tool => tool.name)).toContain('fixture__add');
+      expect(provider.requests[1].messages[2].content).toEqual([{ type: 'tool_result', tool_use_id: 'toolu_1', content: '42' }]);
+
+      await agent.close();
+      expect(manager.getClient('fixture')!.running).toBe(false);
+    });
+
+    it('should ask before MCP tool calls unless a rule allows them', async () => {
+      const manager = track(new McpManager({ fixture: FIXTURE }));
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'fixture__echo', { text: 'hi' })],
+        [textBlock('Done.')]
+      ]);
+      const approve = jest.fn(async () => 'deny' as const);
+      const agent = new Agent(new ToolRegistry(), provider, { mcp: manager, approve });
+
+      await agent.chat('Echo hi');
+
+      expect(approve).toHaveBeenCalledWith(expect.objectContaining({ reason: 'default policy for fixture__echo' }));
+      expect(provider.requests[1].messages[2].content).toEqual([expect.objectContaining({ tool_use_id: 'toolu_1', is_error: true })]);
+    });
+
+    it('should leave out tools whose names collide', async () => {
+      const manager = track(new McpManager({ 'a.b': FIXTURE, a_b: FIXTURE }));
+      const registry = new ToolRegistry();
+
+      const result = await manager.connect(registry);
+
+      expect(result.tools.filter(name => name === 'a_b__echo')).toHaveLength(1);
+      expect(result.failures).toContainEqual({
+        server: expect.any(String),
+        tool: 'echo',
+        error: expect.objectContaining({ message: 'Its registry name a_b__echo is already taken by another tool' })
+      });
+    });
+  });
+
+  it('should name and format tools for model APIs', () => {
+    expect(mcpToolName('my server', 'read.file')).toBe('my_server__read_file');
+    const long = mcpToolName('docs', `search_${'x'.repeat(60)}_by_title`);
+    expect(long).toMatch(/^docs__search_x+_[0-9a-f]{8}$/);
+    expect(long).toHaveLength(64);
+    expect(mcpToolName('docs', `search_${'x'.repeat(60)}_by_author`)).not.toBe(long);
+    expect(formatMcpContent([
+      { type: 'text', text: 'Hello' },
+      { type: 'image', mimeType: 'image/png' },
+      { type: 'resource', resource: { uri: 'file:///a.txt' } }
+    ])).toBe('Hello\n[image: image/png]\n[resource: file:///a.txt]');
+  });
+});
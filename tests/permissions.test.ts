@@ -0,0 +1,70 @@
+import { PermissionPolicy, describeSubject, matchesPattern } from '../permissions';
+
+describe('PermissionPolicy', () => {
+  const command = (value: string) => ({ name: 'execute_command', input: { command: value } });
+
+  it('should ask before dangerous tools and allow the rest by default', () => {
+    const policy = new PermissionPolicy();
+
+    expect(policy.evaluate(command('ls')).decision).toBe('ask');
+    expect(policy.evaluate({ name: 'http_request', input: { url: 'https://example.com' } }).decision).toBe('ask');
+    expect(policy.evaluate({ name: 'read_file', input: { file_path: 'README.md' } }).decision).toBe('allow');
+  });
+
+  it('should apply pattern rules with the most restrictive match winning', () => {
+    const policy = new PermissionPolicy({
+      rules: [
+        { tool: 'execute_command', pattern: 'git status', decision: 'allow' },
+        { tool: 'execute_command', pattern: 'git *', decision: 'allow' },
+        { tool: 'execute_command', pattern: 'git push*', decision: 'ask' },
+        { tool: 'execute_command', pattern: 'rm *', decision: 'deny' },
+        { tool: '*', pattern: '*sudo*', decision: 'deny' }
+      ]
+    });
+
+    expect(policy.evaluate(command('git status'))).toEqual({ decision: 'allow', subject: 'git status', reason: 'rule execute_command "git status"' });
+    expect(policy.evaluate(command('git push origin main')).decision).toBe('ask');
+    expect(policy.evaluate(command('rm -rf build')).decision).toBe('deny');
+    expect(policy.evaluate(command('echo hi | sudo tee /etc/x')).decision).toBe('deny');
+    expect(policy.evaluate(command('npm test'))).toEqual({ decision: 'ask', subject: 'npm test', reason: 'default policy for execute_command' });
+  });
+
+  it('should honour per-tool and global defaults', () => {
+    const policy = new PermissionPolicy({ tools: { execute_command: 'deny' }, defaultDecision: 'ask' });
+
+    expect(policy.evaluate(command('ls')).decision).toBe('deny');
+    expect(policy.evaluate({ name: 'read_file', input: { file_path: 'a' } }).decision).toBe('ask');
+  });
+
+  it('should allow adding rules at runtime', () => {
+    const policy = new PermissionPolicy();
+    policy.addRule({ tool: 'execute_command', pattern: 'npm test', decision: 'allow' });
+
+    expect(policy.evaluate(command('npm test')).decision).toBe('allow');
+    expect(policy.getRules()).toHaveLength(1);
+  });
+
+  it('should not let command allow rules match across shell operators', () => {
+    const policy = new PermissionPolicy({
+      rules: [
+        { tool: 'execute_command', pattern: 'git status*', decision: 'allow' },
+        { tool: 'execute_command', pattern: 'rm *.log', exact: true, decision: 'allow' }
+      ]
+    });
+
+    expect(policy.evaluate(command('git status --short')).decision).toBe('allow');
+    ['git status && rm -rf ~', 'git status; rm x', 'git status || rm x', 'git status | sh', 'git status $(rm x)', 'git status `rm x`', 'git status\nrm x']
+      .forEach(value => expect([value, policy.evaluate(command(value)).decision]).toEqual([value, 'ask']));
+    expect(policy.evaluate(command('rm *.log')).decision).toBe('allow');
+    expect(policy.evaluate(command('rm important.log')).decision).toBe('ask');
+    // Deny rules still match anywhere their wildcard reaches
+    expect(matchesPattern('ls; rm -rf x', 'ls*')).toBe(true);
+  });
+
+  it('should describe subjects and match wildcard patterns literally otherwise', () => {
+    expect(describeSubject({ name: 'write_file', input: { file_path: 'a.ts', content: 'x' } })).toBe('a.ts');
+    expect(describeSubject({ name: 'todo_write', input: { todos: [] } })).toBe('{"todos":[]}');
+    expect(matchesPattern('ls (x).txt', 'ls (x).txt')).toBe(true);
+    expect(matchesPattern('lsa', 'ls?')).toBe(false);
+  });
+});
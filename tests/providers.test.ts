@@ -0,0 +1,248 @@
+import { OpenAICompatibleProvider, AnthropicProvider, ModelStreamEvent, createProviderFromEnv } from '../providers';
+import { Message } from '../agent';
+
+describe('Model Providers', () => {
+  describe('OpenAICompatibleProvider', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    const mockFetchResponse = (body: any, status = 200) => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { 'content-type': 'application/json' }
+        })
+      );
+    };
+
+    it('should convert history and tools to the chat completions wire format', async () => {
+      mockFetchResponse({
+        choices: [{ message: { content: 'Done' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 }
+      });
+
+      const provider = new OpenAICompatibleProvider({ baseURL: 'http://localhost:8080/v1/', apiKey: 'test-key', model: 'local-model' });
+      const messages: Message[] = [
+        { role: 'user', content: 'Read the README' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Reading it now.' },
+            { type: 'tool_use', id: 'call_1', name: 'read_file', input: { file_path: 'README.md' } }
+          ]
+        },
+        {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'File contents' }]
+        }
+      ];
+
+      const response = await provider.createMessage({
+        messages,
+        tools: [{
+          name: 'read_file',
+          description: 'Read a file',
+          input_schema: { type: 'object', properties: { file_path: { type: 'string' } }, required: ['file_path'] }
+        }]
+      });
+
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/v1/chat/completions');
+      expect(init.headers['Authorization']).toBe('Bearer test-key');
+
+      const body = JSON.parse(init.body);
+      expect(body.model).toBe('local-model');
+      expect(body.tools[0]).toEqual({
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Read a file',
+          parameters: { type: 'object', properties: { file_path: { type: 'string' } }, required: ['file_path'] }
+        }
+      });
+      expect(body.messages).toEqual([
+        { role: 'user', content: 'Read the README' },
+        {
+          role: 'assistant',
+          content: 'Reading it now.',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"file_path":"README.md"}' } }]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'File contents' }
+      ]);
+
+      expect(response.content).toEqual([{ type: 'text', text: 'Done' }]);
+      expect(response.stopReason).toBe('end_turn');
+      expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 3 });
+    });
+
+    it('should convert tool calls in the response to tool_use blocks', async () => {
+      mockFetchResponse({
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{ id: 'call_9', type: 'function', function: { name: 'search', arguments: '{"q":"typescript"}' } }]
+          },
+          finish_reason: 'tool_calls'
+        }]
+      });
+
+      const provider = new OpenAICompatibleProvider();
+      const response = await provider.createMessage({ messages: [{ role: 'user', content: 'Search' }], tools: [] });
+
+      expect(response.content).toEqual([{ type: 'tool_use', id: 'call_9', name: 'search', input: { q: 'typescript' } }]);
+      expect(response.stopReason).toBe('tool_use');
+      expect(JSON.parse(fetchSpy.mock.calls[0][1].body)).not.toHaveProperty('tools');
+    });
+
+    it('should stream text deltas and assemble fragmented tool calls', async () => {
+      const chunks = [
+        { choices: [{ delta: { content: 'Let me ' } }] },
+        { choices: [{ delta: { content: 'check.' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'read_file', arguments: '{"file_' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'path":"a.txt"}' } }] }, finish_reason: 'tool_calls' }] }
+      ];
+      const sse = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+      fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(sse, { status: 200, headers: { 'content-type': 'text/event-stream' } })
+      );
+
+      const provider = new OpenAICompatibleProvider();
+      const events: ModelStreamEvent[] = [];
+      for await (const event of provider.streamMessage({ messages: [{ role: 'user', content: 'Read a.txt' }], tools: [] })) {
+        events.push(event);
+      }
+
+      expect(JSON.parse(fetchSpy.mock.calls[0][1].body).stream).toBe(true);
+      expect(events.slice(0, 3)).toEqual([
+        { type: 'text_delta', text: 'Let me ' },
+        { type: 'text_delta', text: 'check.' },
+        { type: 'tool_use_start', id: 'call_1', name: 'read_file' }
+      ]);
+      const toolUse = { type: 'tool_use', id: 'call_1', name: 'read_file', input: { file_path: 'a.txt' } };
+      expect(events[3]).toEqual({ type: 'tool_use_end', block: toolUse });
+      expect(events[4]).toEqual({
+        type: 'response',
+        response: {
+          content: [{ type: 'text', text: 'Let me check.' }, toolUse],
+          stopReason: 'tool_use',
+          usage: { inputTokens: 0, outputTokens: 0 }
+        }
+      });
+    });
+
+    it('should ask for usage and read it from the final stream chunk', async () => {
+      const chunks = [
+        { choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 21, completion_tokens: 4 } }
+      ];
+      const sse = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+      fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(sse, { status: 200, headers: { 'content-type': 'text/event-stream' } })
+      );
+
+      const provider = new OpenAICompatibleProvider();
+      const events: ModelStreamEvent[] = [];
+      for await (const event of provider.streamMessage({ messages: [{ role: 'user', content: 'Hi' }], tools: [] })) {
+        events.push(event);
+      }
+
+      expect(JSON.parse(fetchSpy.mock.calls[0][1].body).stream_options).toEqual({ include_usage: true });
+      expect(events[events.length - 1]).toEqual({
+        type: 'response',
+        response: { content: [{ type: 'text', text: 'Hi' }], stopReason: 'end_turn', usage: { inputTokens: 21, outputTokens: 4 } }
+      });
+    });
+
+    it('should name the provider on a malformed chunk and close streams it stops reading', async () => {
+      const cancelled: string[] = [];
+      const openStream = (name: string, text: string) => new ReadableStream<Uint8Array>({
+        start: controller => controller.enqueue(new TextEncoder().encode(text)),
+        cancel: () => { cancelled.push(name); }
+      });
+      const provider = new OpenAICompatibleProvider();
+      const drain = async () => {
+        for await (const _event of provider.streamMessage({ messages: [{ role: 'user', content: 'Hi' }], tools: [] })) {
+          // Only the outcome matters
+        }
+      };
+
+      fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValueOnce(new Response(openStream('malformed', 'data: {"choices": [\n\n')));
+      await expect(drain()).rejects.toThrow('OpenAI-compatible API sent a malformed stream chunk: {"choices": [');
+
+      fetchSpy.mockResolvedValueOnce(new Response(openStream('done', 'data: [DONE]\n\n')));
+      await drain();
+
+      expect(cancelled).toEqual(['malformed', 'done']);
+    });
+
+    it('should mark failed tool results once', async () => {
+      mockFetchResponse({ choices: [{ message: { content: 'Retrying' }, finish_reason: 'stop' }] });
+
+      const provider = new OpenAICompatibleProvider();
+      await provider.createMessage({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'call_1', content: 'File not found', is_error: true },
+            { type: 'tool_result', tool_use_id: 'call_2', content: "Error executing tool 'shell': boom", is_error: true },
+            { type: 'tool_result', tool_use_id: 'call_3', content: 'Error: denied', is_error: true }
+          ]
+        }],
+        tools: []
+      });
+
+      expect(JSON.parse(fetchSpy.mock.calls[0][1].body).messages.map((message: any) => message.content)).toEqual([
+        'Error: File not found',
+        "Error executing tool 'shell': boom",
+        'Error: denied'
+      ]);
+    });
+
+    it('should send the system prompt and temperature', async () => {
+      mockFetchResponse({ choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }] });
+
+      const provider = new OpenAICompatibleProvider({ temperature: 0.2 });
+      await provider.createMessage({ system: 'Be brief.', messages: [{ role: 'user', content: 'Hi' }], tools: [] });
+
+      const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+      expect(body.temperature).toBe(0.2);
+      expect(body.messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' }
+      ]);
+    });
+
+    it('should throw on non-OK responses', async () => {
+      mockFetchResponse({ error: 'bad' }, 500);
+
+      const provider = new OpenAICompatibleProvider();
+      await expect(provider.createMessage({ messages: [{ role: 'user', content: 'Hi' }], tools: [] }))
+        .rejects.toThrow('OpenAI-compatible API error: 500');
+      await expect(provider.createMessage({ messages: [{ role: 'user', content: 'Hi' }], tools: [] }))
+        .rejects.toMatchObject({ name: 'ModelApiError', status: 500 });
+    });
+  });
+
+  describe('createProviderFromEnv', () => {
+    it('should select the OpenAI-compatible provider when configured', () => {
+      const provider = createProviderFromEnv({ MODEL_PROVIDER: 'openai', OPENAI_MODEL: 'llama3' });
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(provider.model).toBe('llama3');
+    });
+
+    it('should let explicit settings override the environment', () => {
+      const provider = createProviderFromEnv({ OPENAI_MODEL: 'llama3' }, { provider: 'openai', model: 'qwen2.5' });
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(provider.model).toBe('qwen2.5');
+    });
+
+    it('should default to Anthropic', () => {
+      const provider = createProviderFromEnv({});
+      expect(provider).toBeInstanceOf(AnthropicProvider);
+      expect(provider.model).toBe('claude-3-5-sonnet-20241022');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import Agent, { AgentEvent } from '../agent';
+import { ModelApiError, ModelProvider, ModelStreamEvent, ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ModelRequestError, RetryPolicy, classifyError, parseRetryAfter } from '../retry';
+import { ToolRegistry, Tool } from '../tools';
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the input text back',
+  input_schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  execute: async (input: { text: string }): Promise<string> => `echo: ${input.text}`
+};
+
+const failWith = (error: Error) => () => {
+  throw error;
+};
+
+describe('Retries', () => {
+  describe('classifyError', () => {
+    it('should retry rate limits, overload, server errors and network failures', () => {
+      expect(classifyError(new ModelApiError('slow down', 429, { 'Retry-After': '2' })))
+        .toEqual({ retryable: true, status: 429, retryAfterMs: 2000, reason: 'rate limited' });
+      expect(classifyError(new ModelApiError('overloaded', 529))).toMatchObject({ retryable: true, reason: 'overloaded' });
+      expect(classifyError(new ModelApiError('bad gateway', 502))).toMatchObject({ retryable: true, reason: 'server error' });
+      expect(classifyError(new TypeError('fetch failed'))).toMatchObject({ retryable: true, reason: 'network error' });
+      expect(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toMatchObject({ retryable: true });
+      expect(classifyError(Object.assign(new Error('timed out'), { name: 'APIConnectionTimeoutError' }))).toMatchObject({ retryable: true });
+    });
+
+    it('should treat authentication, validation and unknown errors as fatal', () => {
+      expect(classifyError(new ModelApiError('bad key', 401))).toMatchObject({ retryable: false, reason: 'authentication failed' });
+      expect(classifyError(new ModelApiError('bad request', 400))).toMatchObject({ retryable: false, reason: 'invalid request' });
+      expect(classifyError(new ModelApiError('conflict', 409))).toMatchObject({ retryable: false, reason: 'conflict' });
+      expect(classifyError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ENOTFOUND' } })))
+        .toMatchObject({ retryable: false, reason: 'host not found' });
+      expect(classifyError(new Error('boom'))).toMatchObject({ retryable: false, reason: 'unexpected error' });
+    });
+
+    it('should parse retry-after as seconds or an HTTP date', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('1.5', now)).toBe(1500);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+  });
+
+  describe('RetryPolicy', () => {
+    it('should back off exponentially with jitter up to the maximum', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, maxRetries: 5, random: () => 0.5 });
+      const retryable = { retryable: true, reason: 'overloaded' };
+
+      expect([1, 2, 3, 4, 5].map(failures => policy.delayFor(retryable, failures))).toEqual([75, 150, 300, 600, 750]);
+      expect(policy.delayFor(retryable, 6)).toBeNull();
+      expect(policy.delayFor({ retryable: false, reason: 'authentication failed' }, 1)).toBeNull();
+    });
+
+    it('should honour retry-after unless it is longer than the maximum delay', () => {
+      const policy = new RetryPolicy({ maxDelayMs: 5000 });
+
+      expect(policy.delayFor({ retryable: true, retryAfterMs: 3000, reason: 'rate limited' }, 1)).toBe(3000);
+      expect(policy.delayFor({ retryable: true, retryAfterMs: 60000, reason: 'rate limited' }, 1)).toBeNull();
+    });
+
+    it('should retry until the operation succeeds or retries run out', async () => {
+      const sleeps: number[] = [];
+      const policy = new RetryPolicy({ maxRetries: 2, baseDelayMs: 10, random: () => 0, sleep: async ms => { sleeps.push(ms); } });
+      const flaky = jest.fn()
+        .mockRejectedValueOnce(new ModelApiError('overloaded', 529))
+        .mockResolvedValueOnce('ok');
+
+      await expect(policy.run(flaky)).resolves.toBe('ok');
+      expect(sleeps).toEqual([5]);
+
+      const broken = jest.fn().mockRejectedValue(new ModelApiError('overloaded', 529));
+      const failure = policy.run(broken);
+      await expect(failure).rejects.toBeInstanceOf(ModelRequestError);
+      await expect(failure).rejects.toThrow('Model request failed (overloaded) after 3 attempts: overloaded');
+      expect(broken).toHaveBeenCalledTimes(3);
+    });
+    it('should stop waiting to retry when the signal is aborted', async () => {
+      const policy = new RetryPolicy({ baseDelayMs: 60000, maxDelayMs: 60000 });
+      const controller = new AbortController();
+      const broken = jest.fn().mockRejectedValue(new ModelApiError('overloaded', 529));
+
+      const failure = policy.run(broken, () => controller.abort(), controller.signal);
+
+      await expect(failure).rejects.toMatchObject({ name: 'AbortError' });
+      expect(broken).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Agent', () => {
+    let toolRegistry: ToolRegistry;
+    const retry = { sleep: async () => {}, random: () => 0 };
+
+    beforeEach(() => {
+      toolRegistry = new ToolRegistry();
+      toolRegistry.register(echoTool);
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should retry a retryable failure and report it as an event', async () => {
+      const provider = new ScriptedProvider([
+        failWith(new ModelApiError('overloaded', 529)),
+        [textBlock('Hello after retry')]
+      ]);
+      const agent = new Agent(toolRegistry, provider, { retry });
+
+      const events: AgentEvent[] = [];
+      for await (const event of agent.chatStream('Hi')) {
+        events.push(event);
+      }
+
+      expect(events[0]).toEqual({ type: 'retry', attempt: 1, delayMs: 500, reason: 'overloaded', error: 'overloaded' });
+      expect(events[events.length - 1]).toEqual({ type: 'message', text: 'Hello after retry' });
+      expect(agent.getConversationHistory()).toHaveLength(2);
+    });
+
+    it('should roll history back when a turn fails for good', async () => {
+      const provider = new ScriptedProvider([
+        [textBlock('First answer')],
+        [toolUseBlock('toolu_1', 'echo', { text: 'a' })],
+        failWith(new ModelApiError('bad key', 401))
+      ]);
+      const agent = new Agent(toolRegistry, provider, { retry });
+      await agent.chat('First');
+      const before = agent.getConversationHistory();
+
+      await expect(agent.chat('Second')).rejects.toThrow('Model request failed (authentication failed) after 1 attempt: bad key');
+
+      expect(agent.getConversationHistory()).toEqual(before);
+      expect(provider.requests).toHaveLength(3);
+    });
+
+    it('should not retry once output has been streamed', async () => {
+      let calls = 0;
+      const provider: ModelProvider = {
+        name: 'flaky',
+        model: 'flaky-model',
+        createMessage: async () => { throw new Error('unused'); },
+        async *streamMessage(): AsyncGenerator<ModelStreamEvent> {
+          calls++;
+          yield { type: 'text_delta', text: 'Partial' };
+          throw new ModelApiError('overloaded', 529);
+        }
+      };
+      const agent = new Agent(toolRegistry, provider, { retry });
+
+      await expect(agent.chat('Hi')).rejects.toThrow('after 1 attempt');
+      expect(calls).toBe(1);
+      expect(agent.getConversationHistory()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { validateAgainstSchema, JsonSchema } from '../schema';
+
+describe('validateAgainstSchema', () => {
+  const searchSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      q: { type: 'string', maxLength: 400 },
+      count: { type: 'number', minimum: 1, maximum: 20 },
+      country: { type: 'string', default: 'US' }
+    },
+    required: ['q']
+  };
+
+  it('should accept valid input and apply defaults', () => {
+    const { value, issues } = validateAgainstSchema(searchSchema, { q: 'typescript', count: 5 });
+
+    expect(issues).toEqual([]);
+    expect(value).toEqual({ q: 'typescript', count: 5, country: 'US' });
+  });
+
+  it('should report missing required fields and wrong types by path', () => {
+    const { issues } = validateAgainstSchema(searchSchema, { count: '5' });
+
+    expect(issues).toEqual([
+      { path: 'q', message: 'is required' },
+      { path: 'count', message: 'expected number, got string' }
+    ]);
+  });
+
+  it('should enforce numeric bounds', () => {
+    const { issues } = validateAgainstSchema(searchSchema, { q: 'x', count: 50 });
+    expect(issues).toEqual([{ path: 'count', message: 'must be <= 20, got 50' }]);
+  });
+
+  it('should validate enums inside array items', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        todos: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { status: { type: 'string', enum: ['pending', 'completed'] } },
+            required: ['status']
+          }
+        }
+      },
+      required: ['todos']
+    };
+
+    const { issues } = validateAgainstSchema(schema, { todos: [{ status: 'pending' }, { status: 'done' }, {}] });
+
+    expect(issues).toEqual([
+      { path: 'todos[1].status', message: 'must be one of "pending", "completed", got "done"' },
+      { path: 'todos[2].status', message: 'is required' }
+    ]);
+  });
+
+  it('should distinguish integers and reject unknown properties when closed', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { lines: { type: 'integer' } },
+      additionalProperties: false
+    };
+
+    const { issues } = validateAgainstSchema(schema, { lines: 1.5, extra: true });
+
+    expect(issues).toEqual([
+      { path: 'lines', message: 'expected integer, got number' },
+      { path: 'extra', message: 'is not an allowed property' }
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ToolResultBlock } from '../agent';
+import { createAgentFromProfile, parseConfig } from '../config';
+import { HttpClient } from '../http';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { BraveSearchProvider, FixtureSearchProvider, SearchQuery, SearxngSearchProvider, createSearchProvider } from '../search';
+import { ToolRegistry, searchTool } from '../tools';
+
+const INDEX_PATH = path.join(__dirname, 'fixtures', 'search-index.json');
+
+const query = (overrides: Partial<SearchQuery>): SearchQuery => ({ query: 'typescript', count: 10, page: 1, ...overrides });
+
+describe('FixtureSearchProvider', () => {
+  const provider = new FixtureSearchProvider({ indexPath: INDEX_PATH, now: () => new Date('2024-06-25T00:00:00Z') });
+
+  it('should rank matching documents and page through them', async () => {
+    const first = await provider.search(query({ count: 2 }));
+    expect(first.results.map(result => result.title)).toEqual(['TypeScript Handbook', "What's new in TypeScript 5.5"]);
+    expect(first.results[0]).toEqual({
+      title: 'TypeScript Handbook',
+      url: 'https://www.typescriptlang.org/docs/handbook/intro.html',
+      snippet: 'The TypeScript Handbook is a comprehensive guide to the TypeScript language.',
+      publishedAt: '2024-05-01'
+    });
+    expect(first.moreAvailable).toBe(true);
+
+    const second = await provider.search(query({ count: 2, page: 2 }));
+    expect(second).toEqual({ results: [expect.objectContaining({ title: 'Node.js streams' })], moreAvailable: false });
+
+    expect((await provider.search(query({ query: 'kubernetes' }))).results).toEqual([]);
+  });
+
+  it('should filter by freshness', async () => {
+    const week = await provider.search(query({ freshness: 'week' }));
+    expect(week.results.map(result => result.title)).toEqual(["What's new in TypeScript 5.5"]);
+
+    const month = await provider.search(query({ freshness: 'month' }));
+    expect(month.results.map(result => result.title)).toEqual(["What's new in TypeScript 5.5", 'Node.js streams']);
+  });
+
+  it('should report an unreadable index', async () => {
+    const missing = new FixtureSearchProvider({ indexPath: path.join(__dirname, 'fixtures', 'missing.json') });
+
+    await expect(missing.search(query({}))).rejects.toThrow('Could not read search index');
+    expect(() => createSearchProvider({ provider: 'searxng' })).toThrow('The searxng search provider needs a baseUrl');
+  });
+});
+
+describe('HTTP search providers', () => {
+  let server: http.Server;
+  let base: string;
+  let requests: URL[];
+  const client = new HttpClient({ blockPrivateNetworks: false });
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const url = new URL(request.url || '/', 'http://localhost');
+      requests.push(url);
+      if (url.searchParams.get('q') === 'limited') {
+        response.writeHead(429, 'Too Many Requests').end();
+      } else if (url.pathname === '/res/v1/web/search') {
+        response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({
+          query: { more_results_available: true },
+          web: { results: [{ title: '<strong>TypeScript</strong> docs', url: 'https://example.com/ts', description: 'All about <strong>TypeScript</strong>', page_age: '2024-06-01T00:00:00' }] },
+          token: request.headers['x-subscription-token']
+        }));
+      } else {
+        response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({
+          ...(url.searchParams.get('q') === 'counted' ? { number_of_results: 7 } : {}),
+          results: [
+            { title: 'One', url: 'https://example.com/1', content: 'first', publishedDate: '2024-06-02T00:00:00' },
+            { title: 'Two', url: 'https://example.com/2', content: 'second', publishedDate: null },
+            { title: 'Three', url: 'https://example.com/3', content: 'third' }
+          ]
+        }));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should query Brave with page, freshness and country', async () => {
+    const brave = new BraveSearchProvider({ apiKey: 'key', baseUrl: base, http: client });
+
+    const page = await brave.search(query({ count: 5, page: 2, freshness: 'week', country: 'CA' }));
+
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({ q: 'typescript', count: '5', offset: '1', country: 'CA', freshness: 'pw' });
+    expect(page).toEqual({
+      results: [{ title: 'TypeScript docs', url: 'https://example.com/ts', snippet: 'All about TypeScript', publishedAt: '2024-06-01T00:00:00' }],
+      moreAvailable: true
+    });
+    await expect(brave.search(query({ query: 'limited' }))).rejects.toThrow('Brave Search API error: 429 Too Many Requests');
+    await expect(new BraveSearchProvider({ apiKey: '' }).search(query({}))).rejects.toThrow('BRAVE_API_KEY environment variable is not set');
+  });
+
+  it('should reach a private SearXNG instance only when the config allows it', async () => {
+    const blocked = createSearchProvider({ provider: 'searxng', baseUrl: base }, new HttpClient());
+    await expect(blocked.search(query({}))).rejects.toThrow('127.0.0.1 resolves to the private address 127.0.0.1');
+
+    const allowed = createSearchProvider({ provider: 'searxng', baseUrl: base, allowPrivateNetworks: true }, new HttpClient());
+    expect((await allowed.search(query({}))).results).toHaveLength(3);
+    expect(parseConfig({ profiles: { local: { search: { provider: 'searxng', baseUrl: base, allowPrivateNetworks: true } } } }).profiles.local.search)
+      .toEqual({ provider: 'searxng', baseUrl: base, allowPrivateNetworks: true });
+  });
+
+  it('should query SearXNG and keep the requested count', async () => {
+    const searxng = new SearxngSearchProvider({ baseUrl: `${base}/`, http: client });
+
+    const page = await searxng.search(query({ count: 2, page: 3, freshness: 'month' }));
+
+    expect(requests[0].pathname).toBe('/search');
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({ q: 'typescript', format: 'json', pageno: '3', time_range: 'month' });
+    expect(page.results).toEqual([
+      { title: 'One', url: 'https://example.com/1', snippet: 'first', publishedAt: '2024-06-02T00:00:00' },
+      { title: 'Two', url: 'https://example.com/2', snippet: 'second', publishedAt: null }
+    ]);
+    expect(page.moreAvailable).toBe(true);
+  });
+
+  it('should tell whether SearXNG has another page', async () => {
+    const searxng = new SearxngSearchProvider({ baseUrl: base, http: client });
+
+    // Without a total, a short page is the last one
+    expect((await searxng.search(query({ count: 5 }))).moreAvailable).toBe(false);
+    // With one, pages of three results run out after 7
+    expect((await searxng.search(query({ query: 'counted', count: 5, page: 2 }))).moreAvailable).toBe(true);
+    expect((await searxng.search(query({ query: 'counted', count: 5, page: 3 }))).moreAvailable).toBe(false);
+  });
+});
+
+describe('search tool', () => {
+  it('should format results from the registry\'s provider', async () => {
+    const registry = new ToolRegistry({ search: new FixtureSearchProvider({ indexPath: INDEX_PATH }) });
+    registry.register(searchTool);
+
+    const result = await registry.execute({ name: 'search', input: { q: 'typescript', count: 1 } });
+
+    expect(result).toBe([
+      'Search Results for: "typescript"',
+      'Provider: fixture, Country: US, Page: 1, Results: 1',
+      '',
+      '1. TypeScript Handbook',
+      '   URL: https://www.typescriptlang.org/docs/handbook/intro.html',
+      '   Published: 2024-05-01',
+      '   Description: The TypeScript Handbook is a comprehensive guide to the TypeScript language.',
+      '',
+      'More results are available with page 2.',
+      ''
+    ].join('\n'));
+  });
+
+  it('should use the provider a profile selects', async () => {
+    const registry = new ToolRegistry();
+    registry.register(searchTool);
+    const config = parseConfig({ profiles: { offline: { search: { provider: 'fixture', indexPath: INDEX_PATH } } } });
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'search', { q: 'jest' })],
+      [textBlock('Found it.')]
+    ]);
+    const agent = createAgentFromProfile({ ...config.profiles.offline, name: 'offline' }, {}, provider, registry);
+
+    await agent.chat('Find the Jest docs');
+
+    const messages = provider.requests[1].messages;
+    const [toolResult] = messages[messages.length - 1].content as ToolResultBlock[];
+    expect(toolResult.content).toContain('Provider: fixture');
+    expect(toolResult.content).toContain('1. Jest getting started');
+    expect(registry.search.name).toBe('brave');
+    expect(() => parseConfig({ profiles: { web: { search: { provider: 'google' } } } })).toThrow('profiles.web.search.provider');
+  });
+});
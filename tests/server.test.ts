@@ -0,0 +1,143 @@
+import Agent from '../agent';
+import { AgentServer } from '../server';
+import { ScriptedProvider, ScriptStep, textBlock, toolUseBlock } from '../providers';
+import { ToolRegistry, Tool, ToolContext, todoWriteTool } from '../tools';
+
+describe('AgentServer', () => {
+  let server: AgentServer;
+  let baseUrl: string;
+  let scripts: ScriptStep[][];
+  let toolStarted: () => void;
+
+  // Runs until the turn is cancelled
+  const waitTool: Tool = {
+    name: 'wait',
+    description: 'Waits until cancelled',
+    input_schema: { type: 'object', properties: {}, required: [] },
+    execute: (_input: {}, { signal }: ToolContext) => new Promise(resolve => {
+      toolStarted();
+      signal?.addEventListener('abort', () => resolve('stopped'), { once: true });
+    })
+  };
+
+  const request = async (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret', ...headers },
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, text, json: text && !text.startsWith('event:') ? JSON.parse(text) : undefined };
+  };
+
+  const createSession = async (): Promise<string> => (await request('POST', '/sessions', {})).json.id;
+
+  beforeEach(async () => {
+    scripts = [];
+    toolStarted = () => {};
+    server = new AgentServer({
+      token: 'secret',
+      createAgent: (_sessionId, profile) => {
+        if (profile === 'missing') throw new Error("Unknown profile 'missing'");
+        const registry = new ToolRegistry();
+        registry.register(waitTool);
+        registry.register(todoWriteTool);
+        return new Agent(registry, new ScriptedProvider(scripts.shift() || []));
+      }
+    });
+    const address = await server.listen(0);
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should create sessions and answer messages as JSON', async () => {
+    const todos = [{ id: '1', content: 'Reply', status: 'in_progress', priority: 'high' }];
+    scripts.push([[toolUseBlock('toolu_1', 'todo_write', { todos })], [textBlock('Hello there.')]]);
+
+    const created = await request('POST', '/sessions', { id: 'chosen' });
+    expect(created.status).toBe(201);
+    expect(created.json).toMatchObject({ busy: false, history: [], todos: [] });
+    const { id } = created.json;
+    expect(id).not.toBe('chosen');
+
+    const reply = await request('POST', `/sessions/${id}/messages`, { message: 'Hi' });
+    expect(reply.status).toBe(200);
+    expect(reply.json).toMatchObject({ text: 'Hello there.', cancelled: false, usage: { chat: { turns: 2 } } });
+
+    const history = await request('GET', `/sessions/${id}/history`);
+    expect(history.json.history).toHaveLength(4);
+    expect((await request('GET', `/sessions/${id}/todos`)).json.todos).toEqual(todos);
+    expect((await request('GET', '/sessions')).json.sessions).toEqual([
+      { id, createdAt: expect.any(String), busy: false }
+    ]);
+  });
+
+  it('should stream events over SSE', async () => {
+    scripts.push([[textBlock('Streamed reply.')]]);
+    const id = await createSession();
+
+    const response = await request('POST', `/sessions/${id}/messages`, { message: 'Hi' }, { Accept: 'text/event-stream' });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = response.text.trim().split('\n\n').map(chunk => {
+      const [event, data] = chunk.split('\n');
+      return { event: event.replace('event: ', ''), data: JSON.parse(data.replace('data: ', '')) };
+    });
+    expect(events.map(event => event.event)).toEqual(['text_delta', 'message', 'done']);
+    expect(events[0].data).toEqual({ type: 'text_delta', text: 'Streamed reply.' });
+    expect(events[2].data).toMatchObject({ text: 'Streamed reply.' });
+  });
+
+  it('should cancel a running message', async () => {
+    scripts.push([[toolUseBlock('toolu_1', 'wait')]]);
+    const id = await createSession();
+    const started = new Promise<void>(resolve => { toolStarted = resolve; });
+
+    const pending = request('POST', `/sessions/${id}/messages`, { message: 'Wait' });
+    await started;
+    expect((await request('GET', `/sessions/${id}`)).json.busy).toBe(true);
+    expect((await request('POST', `/sessions/${id}/messages`, { message: 'Again' })).status).toBe(409);
+
+    const cancel = await request('POST', `/sessions/${id}/cancel`);
+    expect(cancel).toMatchObject({ status: 202, json: { cancelled: true } });
+
+    const reply = await pending;
+    expect(reply.json).toMatchObject({ text: null, cancelled: true });
+    expect((await request('POST', `/sessions/${id}/cancel`)).json.cancelled).toBe(false);
+    const history = (await request('GET', `/sessions/${id}/history`)).json.history;
+    expect(history[history.length - 1].content).toContainEqual({ type: 'tool_result', tool_use_id: 'toolu_1', content: 'stopped' });
+  });
+
+  it('should report bad requests with JSON errors', async () => {
+    const id = await createSession();
+
+    expect(await request('GET', '/sessions/nope')).toMatchObject({ status: 404, json: { error: 'Session nope not found' } });
+    expect(await request('GET', '/elsewhere')).toMatchObject({ status: 404 });
+    expect(await request('PUT', '/sessions')).toMatchObject({ status: 405 });
+    expect(await request('POST', `/sessions/${id}/messages`, '{not json')).toMatchObject({ status: 400 });
+    expect(await request('POST', `/sessions/${id}/messages`, { message: '' })).toMatchObject({ status: 400, json: { error: 'message must be a non-empty string' } });
+    expect(await request('POST', '/sessions', { profile: 'missing' })).toMatchObject({ status: 400, json: { error: "Unknown profile 'missing'" } });
+  });
+
+  it('should refuse requests without the token, from browsers or with other content types', async () => {
+    const id = await createSession();
+
+    expect(await request('GET', `/sessions/${id}`, undefined, { Authorization: '' })).toMatchObject({ status: 401, json: { error: 'Missing or wrong bearer token' } });
+    expect(await request('GET', `/sessions/${id}`, undefined, { Authorization: 'Bearer guess' })).toMatchObject({ status: 401 });
+    expect(await request('POST', `/sessions/${id}/messages`, { message: 'Hi' }, { Origin: 'https://evil.example' }))
+      .toMatchObject({ status: 403, json: { error: 'Requests from browsers are not allowed' } });
+    expect(await request('POST', `/sessions/${id}/messages`, JSON.stringify({ message: 'Hi' }), { 'Content-Type': 'text/plain' }))
+      .toMatchObject({ status: 415, json: { error: 'Content-Type must be application/json' } });
+    expect((await request('GET', `/sessions/${id}/history`)).json.history).toEqual([]);
+  });
+
+  it('should delete sessions', async () => {
+    const id = await createSession();
+
+    expect((await request('DELETE', `/sessions/${id}`)).status).toBe(204);
+    expect((await request('GET', `/sessions/${id}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Agent from '../agent';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { SessionStore, SESSION_STATE_VERSION } from '../sessions';
+import { ToolRegistry, todoWriteTool } from '../tools';
+
+describe('SessionStore', () => {
+  let directory: string;
+  let store: SessionStore;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-test-'));
+    store = new SessionStore(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should save and load a session', () => {
+    const state = { version: SESSION_STATE_VERSION, history: [{ role: 'user' as const, content: 'Plan the release' }], todos: [] };
+
+    const saved = store.save('session-1', state);
+    const loaded = store.load('session-1');
+
+    expect(saved.title).toBe('Plan the release');
+    expect(loaded).toEqual(saved);
+    expect(fs.readdirSync(directory)).toEqual(['session-1.json']);
+  });
+
+  it('should keep the title and creation time across saves', () => {
+    const first = store.save('session-1', { version: SESSION_STATE_VERSION, history: [{ role: 'user', content: 'First question' }], todos: [] });
+    const second = store.save('session-1', {
+      version: SESSION_STATE_VERSION,
+      history: [{ role: 'user', content: 'First question' }, { role: 'assistant', content: 'Answer' }, { role: 'user', content: 'Second question' }],
+      todos: []
+    });
+
+    expect(second.title).toBe('First question');
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(store.load('session-1').history).toHaveLength(3);
+  });
+
+  it('should list sessions newest first and skip unreadable files', () => {
+    store.save('older', { version: SESSION_STATE_VERSION, history: [{ role: 'user', content: 'older' }], todos: [] });
+    store.save('newer', { version: SESSION_STATE_VERSION, history: [{ role: 'user', content: 'newer' }], todos: [] });
+    const olderPath = path.join(directory, 'older.json');
+    const older = JSON.parse(fs.readFileSync(olderPath, 'utf-8'));
+    fs.writeFileSync(olderPath, JSON.stringify({ ...older, updatedAt: '2000-01-01T00:00:00.000Z' }));
+    fs.writeFileSync(path.join(directory, 'broken.json'), '{not json');
+
+    const sessions = store.list();
+
+    expect(sessions.map(session => session.id)).toEqual(['newer', 'older']);
+    expect(sessions[0]).toMatchObject({ title: 'newer', messageCount: 1, todoCount: 0 });
+  });
+
+  it('should reject ids that could escape the directory', () => {
+    expect(() => store.load('../etc/passwd')).toThrow("Invalid session id '../etc/passwd'");
+    expect(() => store.load('missing')).toThrow("Session 'missing' not found");
+  });
+
+  it('should create unique ids', () => {
+    expect(store.createId()).toMatch(/^\d{8}-\d{6}-[0-9a-f]{4}$/);
+    expect(store.createId()).not.toBe(store.createId());
+  });
+});
+
+describe('Agent sessions', () => {
+  let directory: string;
+  let store: SessionStore;
+  let toolRegistry: ToolRegistry;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-test-'));
+    store = new SessionStore(directory);
+    toolRegistry = new ToolRegistry();
+    toolRegistry.register(todoWriteTool);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should save history and todos after every turn', async () => {
+    const todos = [{ id: '1', content: 'Write docs', status: 'pending' as const, priority: 'high' as const }];
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'todo_write', { todos })],
+      [textBlock('Planned.')]
+    ]);
+    const agent = new Agent(toolRegistry, provider, { sessionStore: store });
+
+    await agent.chat('Plan the docs');
+
+    const record = store.load(agent.getSessionId()!);
+    expect(record.history).toEqual(agent.getConversationHistory());
+    expect(record.todos).toEqual(todos);
+    expect(record.title).toBe('Plan the docs');
+  });
+
+  it('should resume a saved session into a new agent', async () => {
+    const first = new Agent(toolRegistry, new ScriptedProvider([[textBlock('Hello!')]]), { sessionStore: store });
+    await first.chat('Hi');
+
+    const provider = new ScriptedProvider([[textBlock('Welcome back.')]]);
+    const second = new Agent(toolRegistry, provider, { sessionStore: store });
+    const record = second.resumeSession(first.getSessionId()!);
+    await second.chat('Still there?');
+
+    expect(record.history).toHaveLength(2);
+    expect(second.getSessionId()).toBe(first.getSessionId());
+    expect(provider.requests[0].messages.map(message => message.content)).toEqual([
+      'Hi',
+      [textBlock('Hello!')],
+      'Still there?'
+    ]);
+    expect(store.list()).toHaveLength(1);
+  });
+
+  it('should load the session named in the options', async () => {
+    const first = new Agent(toolRegistry, new ScriptedProvider([[textBlock('Hello!')]]), { sessionStore: store });
+    await first.chat('Hi');
+
+    const second = new Agent(toolRegistry, new ScriptedProvider([]), { sessionStore: store, sessionId: first.getSessionId() });
+
+    expect(second.getConversationHistory()).toEqual(first.getConversationHistory());
+  });
+
+  it('should round-trip state and drop a trailing unanswered tool call', () => {
+    const agent = new Agent(toolRegistry, new ScriptedProvider([]));
+    agent.importState({
+      version: SESSION_STATE_VERSION,
+      history: [
+        { role: 'user', content: 'Plan it' },
+        { role: 'assistant', content: [toolUseBlock('toolu_1', 'todo_write', { todos: [] })] }
+      ],
+      todos: []
+    });
+
+    const state = agent.exportState();
+
+    expect(state.history).toEqual([{ role: 'user', content: 'Plan it' }]);
+    expect(state.version).toBe(SESSION_STATE_VERSION);
+  });
+
+  it('should not write anything before the first message', () => {
+    new Agent(toolRegistry, new ScriptedProvider([]), { sessionStore: store });
+
+    expect(store.list()).toEqual([]);
+  });
+});
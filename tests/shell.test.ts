@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Agent, { ToolResultBlock } from '../agent';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ShellSession } from '../shell';
+import { ToolRegistry, shellTool } from '../tools';
+import { Workspace } from '../workspace';
+
+describe('ShellSession', () => {
+  let root: string;
+  let shell: ShellSession;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'shell-test-')));
+    fs.mkdirSync(path.join(root, 'sub'));
+    shell = new ShellSession({ cwd: root });
+  });
+
+  afterEach(() => {
+    shell.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should keep the working directory and variables between commands', async () => {
+    await shell.run('cd sub && export GREETING=hello && COUNT=2');
+
+    const result = await shell.run('echo "$GREETING $COUNT"; pwd');
+
+    expect(result).toMatchObject({ output: `hello 2\n${path.join(root, 'sub')}\n`, exitCode: 0, cwd: path.join(root, 'sub'), shellExited: false });
+    expect(shell.workingDirectory).toBe(path.join(root, 'sub'));
+  });
+
+  it('should return the exit status and only the output of the command', async () => {
+    const failed = await shell.run('echo out; echo err >&2; false');
+    expect(failed).toMatchObject({ output: 'out\nerr\n', exitCode: 1 });
+
+    const silent = await shell.run('true');
+    expect(silent.output).toBe('');
+
+    // stdin is empty, so a program waiting for input sees end of file instead of hanging
+    expect((await shell.run('cat')).exitCode).toBe(0);
+  });
+
+  it('should report syntax errors without running anything', async () => {
+    const result = await shell.run('echo "unterminated');
+
+    expect(result.exitCode).toBe(2);
+    expect(result.output).toContain('unexpected EOF');
+    expect(shell.running).toBe(false);
+  });
+
+  it('should stay responsive and cancellable while it checks the syntax', async () => {
+    const controller = new AbortController();
+    const checked = shell.run('echo never', { signal: controller.signal });
+
+    await expect(shell.run('echo second')).rejects.toThrow('The shell is already running a command');
+    controller.abort();
+    await expect(checked).rejects.toThrow('aborted');
+    expect(shell.running).toBe(false);
+    expect((await shell.run('echo after')).output).toBe('after\n');
+  });
+
+  it('should restart in the saved state after a timeout', async () => {
+    await shell.run('cd sub; export MARK=kept');
+
+    await expect(shell.run('echo begun; sleep 10', { timeoutMs: 300 }))
+      .rejects.toThrow(`Shell command timed out after 300ms. The shell was restarted in ${path.join(root, 'sub')}`);
+    expect(shell.running).toBe(false);
+
+    const result = await shell.run('echo "$MARK"; pwd');
+    expect(result.output).toBe(`kept\n${path.join(root, 'sub')}\n`);
+  });
+
+  it('should start a new shell after exit', async () => {
+    await shell.run('cd sub');
+
+    const exited = await shell.run('exit 3');
+    expect(exited).toMatchObject({ exitCode: 3, shellExited: true, cwd: path.join(root, 'sub') });
+
+    expect((await shell.run('pwd')).output).toBe(`${path.join(root, 'sub')}\n`);
+  });
+
+  it('should forget the directory and variables on reset', async () => {
+    await shell.run('cd sub; export MARK=kept');
+
+    shell.reset();
+
+    const result = await shell.run('echo "[$MARK]"; pwd');
+    expect(result.output).toBe(`[]\n${root}\n`);
+  });
+});
+
+describe('shell tool', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'shell-tool-test-')));
+    fs.mkdirSync(path.join(root, 'sub'));
+    fs.mkdirSync(path.join(root, '..cache'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should keep one shell per agent', async () => {
+    const registry = new ToolRegistry({ workspace: new Workspace({ root }) });
+    registry.register(shellTool);
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'shell', { command: 'cd sub && export LEVEL=1' })],
+      [toolUseBlock('toolu_2', 'shell', { command: 'echo "level $LEVEL"; exit 4' })],
+      [toolUseBlock('toolu_3', 'shell', { reset: true })],
+      [toolUseBlock('toolu_4', 'shell', { command: 'cd ..cache' })],
+      [textBlock('Done.')]
+    ]);
+    const agent = new Agent(registry, provider, { approve: async () => 'allow' });
+
+    try {
+      await agent.chat('Explore');
+    } finally {
+      await agent.close();
+    }
+
+    const results = provider.requests.slice(1).map(request =>
+      (request.messages[request.messages.length - 1].content as ToolResultBlock[])[0].content);
+    expect(results[0]).toMatch(/^\(no output\)\n\nExit code: 0 \(\d+\.\ds\)\nWorking directory: sub$/);
+    expect(results[1]).toMatch(/^level 1\n\nExit code: 4 \(\d+\.\ds\)\nWorking directory: sub\n\nThe shell exited;/);
+    expect(results[2]).toBe('Shell reset.\nWorking directory: .');
+    expect(results[3]).toMatch(/Working directory: \.\.cache$/);
+  });
+
+  it('should need an agent', async () => {
+    const registry = new ToolRegistry({ workspace: new Workspace({ root }) });
+    registry.register(shellTool);
+
+    const result = await registry.execute({ name: 'shell', input: { command: 'pwd' } });
+
+    expect(result).toBe("Error executing tool 'shell': The shell tool is only available to an agent");
+  });
+});
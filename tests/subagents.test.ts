@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Agent, { ToolResultBlock } from '../agent';
+import { createAgentFromProfile } from '../config';
+import { ModelRequest, ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { SubAgentManager } from '../subagents';
+import { Tool, ToolRegistry, todoWriteTool } from '../tools';
+import { Workspace } from '../workspace';
+
+const lookupTool: Tool = {
+  name: 'lookup',
+  description: 'Look up a key',
+  input_schema: { type: 'object', properties: { key: { type: 'string' } }, required: ['key'] },
+  concurrencySafe: true,
+  execute: async (input: { key: string }) => `value of ${input.key}: ${'x'.repeat(50)}`
+};
+
+const writeTool: Tool = {
+  name: 'write',
+  description: 'Write something',
+  input_schema: { type: 'object', properties: {}, required: [] },
+  execute: async () => 'written'
+};
+
+// The task a sub-agent was given: the first message of its own conversation
+const taskOf = (request: ModelRequest): string => request.messages[0].content as string;
+
+const toolResults = (provider: ScriptedProvider, requestIndex: number): ToolResultBlock[] => {
+  const messages = provider.requests[requestIndex].messages;
+  return messages[messages.length - 1].content as ToolResultBlock[];
+};
+
+describe('SubAgentManager', () => {
+  let toolRegistry: ToolRegistry;
+
+  beforeEach(() => {
+    toolRegistry = new ToolRegistry();
+    toolRegistry.register(lookupTool);
+    toolRegistry.register(writeTool);
+    toolRegistry.register(todoWriteTool);
+  });
+
+  it('should run the subtask in a child agent and return only its summary', async () => {
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'delegate_task', { task: 'Find the value of alpha', context: 'Keys are lowercase' })],
+      request => {
+        expect(request.system).toContain('sub-agent');
+        expect(request.tools.map(tool => tool.name)).toEqual(['lookup']);
+        expect(taskOf(request)).toBe('Find the value of alpha\n\nContext:\nKeys are lowercase');
+        return [toolUseBlock('toolu_child', 'lookup', { key: 'alpha' })];
+      },
+      [textBlock('alpha is x')],
+      [textBlock('The sub-agent says alpha is x.')]
+    ]);
+    const subAgents = new SubAgentManager();
+    const agent = new Agent(toolRegistry, provider, { subAgents });
+
+    const response = await agent.chat('What is alpha?');
+
+    expect(response).toBe('The sub-agent says alpha is x.');
+    expect(toolResults(provider, 3)).toEqual([{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'alpha is x' }]);
+    // The child's tool output stays out of the parent's conversation
+    expect(JSON.stringify(agent.getConversationHistory())).not.toContain('value of alpha:');
+
+    const [transcript] = agent.getSubAgentTranscripts();
+    expect(transcript).toMatchObject({ id: 'sub-1', task: 'Find the value of alpha', tools: ['lookup'], status: 'completed', summary: 'alpha is x' });
+    expect(transcript.history).toHaveLength(4);
+    expect(transcript.usage?.session.turns).toBe(2);
+    expect(subAgents.getTranscript('sub-1')?.summary).toBe('alpha is x');
+  });
+
+  it('should run several sub-agents at once', async () => {
+    let running = 0;
+    let mostAtOnce = 0;
+    const slowLookup: Tool = {
+      ...lookupTool,
+      execute: async (input: { key: string }) => {
+        mostAtOnce = Math.max(mostAtOnce, ++running);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        running--;
+        return `value of ${input.key}`;
+      }
+    };
+    toolRegistry.register(slowLookup);
+
+    // Sub-agents share the provider, so each step answers whichever child asked
+    const childStep = (request: ModelRequest) => request.messages.length === 1
+      ? [toolUseBlock(`toolu_${taskOf(request)}`, 'lookup', { key: taskOf(request) })]
+      : [textBlock(`summary of ${taskOf(request)}`)];
+    const provider = new ScriptedProvider([
+      [
+        toolUseBlock('toolu_a', 'delegate_task', { task: 'alpha' }),
+        toolUseBlock('toolu_b', 'delegate_task', { task: 'beta' })
+      ],
+      childStep, childStep, childStep, childStep,
+      [textBlock('Both done.')]
+    ]);
+    const agent = new Agent(toolRegistry, provider, { subAgents: new SubAgentManager() });
+
+    await agent.chat('Look up alpha and beta');
+
+    expect(mostAtOnce).toBe(2);
+    expect(toolResults(provider, 5).map(result => result.content)).toEqual(['summary of alpha', 'summary of beta']);
+    expect(agent.getSubAgentTranscripts().map(transcript => transcript.status)).toEqual(['completed', 'completed']);
+  });
+
+  it('should stop a sub-agent at its turn limit and say the task may be incomplete', async () => {
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'delegate_task', { task: 'Look up everything' })],
+      [textBlock('Checking alpha first.'), toolUseBlock('toolu_child', 'lookup', { key: 'alpha' })],
+      [textBlock('Out of turns.')]
+    ]);
+    const agent = new Agent(toolRegistry, provider, { subAgents: new SubAgentManager({ maxTurns: 1 }) });
+
+    await agent.chat('Look up everything');
+
+    const [result] = toolResults(provider, 2);
+    expect(result.content).toBe('Checking alpha first.\n\n[Stopped: chat budget exceeded (maxTurns: used 1 of 1). The task may be incomplete.]');
+    expect(agent.getSubAgentTranscripts()[0].status).toBe('budget_exceeded');
+  });
+
+  it('should charge the sub-agent\'s tokens to the parent', async () => {
+    const provider = new ScriptedProvider([
+      { content: [toolUseBlock('toolu_1', 'delegate_task', { task: 'Look up alpha' })], usage: { inputTokens: 100, outputTokens: 10 } },
+      { content: [textBlock('alpha is x')], usage: { inputTokens: 40, outputTokens: 5 } },
+      { content: [textBlock('Done.')], usage: { inputTokens: 120, outputTokens: 3 } }
+    ]);
+    const agent = new Agent(toolRegistry, provider, { subAgents: new SubAgentManager() });
+
+    await agent.chat('Look up alpha');
+
+    expect(agent.getUsage().chat).toMatchObject({ turns: 2, toolCalls: 1, inputTokens: 260, outputTokens: 18 });
+    expect(agent.getSubAgentTranscripts()[0].usage?.chat).toMatchObject({ turns: 1, inputTokens: 40, outputTokens: 5 });
+  });
+
+  it('should only hand out allowed tools', async () => {
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'delegate_task', { task: 'Write it', tools: ['write'] })],
+      [textBlock('Could not delegate.')]
+    ]);
+    const subAgents = new SubAgentManager();
+    const agent = new Agent(toolRegistry, provider, { subAgents });
+
+    await agent.chat('Write it');
+
+    expect(toolResults(provider, 1)[0].content).toBe(
+      "Error executing tool 'delegate_task': Sub-agents may not use write. Allowed: lookup");
+    expect(subAgents.allowedTools(toolRegistry)).toEqual(['lookup']);
+    expect(new SubAgentManager({ tools: ['write', 'todo_write'] }).allowedTools(toolRegistry))
+      .toEqual(['write']);
+  });
+
+  it('should not add delegate_task to a shared registry', () => {
+    new Agent(toolRegistry, new ScriptedProvider(), { subAgents: new SubAgentManager() });
+
+    expect(toolRegistry.get('delegate_task')).toBeUndefined();
+  });
+
+  it('should write transcripts to the transcript directory', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'subagents-test-'));
+    try {
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'delegate_task', { task: 'Summarize' })],
+        [textBlock('Nothing to report.')],
+        [textBlock('Done.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider, { subAgents: new SubAgentManager({ transcriptDir: directory }) });
+
+      await agent.chat('Summarize');
+
+      const files = fs.readdirSync(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/-sub-1\.json$/);
+      expect(JSON.parse(fs.readFileSync(path.join(directory, files[0]), 'utf-8'))).toMatchObject({ id: 'sub-1', summary: 'Nothing to report.' });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should work in the parent workspace and survive a transcript it cannot save', async () => {
+    const directory = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'subagents-test-')));
+    try {
+      const registry = new ToolRegistry({ workspace: new Workspace({ root: directory }) });
+      registry.register(lookupTool);
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'delegate_task', { task: 'Summarize' })],
+        request => {
+          expect(request.system).toContain(`working in ${directory} on one task`);
+          return [textBlock('Nothing to report.')];
+        },
+        [textBlock('Done.')]
+      ]);
+      // A file where the directory should be makes every save fail
+      const blocked = path.join(directory, 'transcripts');
+      fs.writeFileSync(blocked, '');
+      const notices: string[] = [];
+      const subAgents = new SubAgentManager({ transcriptDir: blocked, hooks: { onNotice: ({ kind }) => notices.push(kind) } });
+      const agent = new Agent(registry, provider, { subAgents });
+
+      expect(await agent.chat('Summarize')).toBe('Done.');
+      expect(toolResults(provider, 2)[0]).toMatchObject({ content: 'Nothing to report.' });
+      expect(notices).toEqual(['transcript_unsaved']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should be enabled by a profile', async () => {
+    const provider = new ScriptedProvider([[textBlock('Hello.')]]);
+    const agent = createAgentFromProfile({ name: 'lead', subAgents: { maxTurns: 5 } }, {}, provider, toolRegistry);
+
+    await agent.chat('Hi');
+
+    expect(provider.requests[0].tools.map(tool => tool.name)).toEqual(['lookup', 'write', 'todo_write', 'delegate_task']);
+  });
+
+  it('should give a profile\'s sub-agents the agent\'s hooks', async () => {
+    const provider = new ScriptedProvider([
+      [toolUseBlock('toolu_1', 'delegate_task', { task: 'Look up alpha' })],
+      [toolUseBlock('toolu_child', 'lookup', { key: 'alpha' })],
+      [textBlock('alpha is x')],
+      [textBlock('Done.')]
+    ]);
+    const tools: string[] = [];
+    const agent = createAgentFromProfile(
+      { name: 'lead', subAgents: {} },
+      { hooks: { onToolStart: event => tools.push(event.name) } },
+      provider,
+      toolRegistry
+    );
+
+    await agent.chat('Look up alpha');
+
+    expect(tools).toEqual(['delegate_task', 'lookup']);
+  });
+});
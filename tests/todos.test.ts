@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TodoItem,
+  TodoStore,
+  addTodo,
+  blockUnreachableTodos,
+  formatTodoList,
+  moveTodo,
+  nextRunnableTodo,
+  orderTodos,
+  removeTodo,
+  updateTodo,
+  validateTodoList
+} from '../todos';
+import Agent from '../agent';
+import { ScriptedProvider, textBlock, toolUseBlock } from '../providers';
+import { ToolRegistry, todoWriteTool } from '../tools';
+
+const todo = (id: string, overrides: Partial<TodoItem> = {}): TodoItem => ({
+  id,
+  content: `Task ${id}`,
+  status: 'pending',
+  priority: 'medium',
+  ...overrides
+});
+
+describe('todos', () => {
+  describe('validateTodoList', () => {
+    it('should accept a list with valid dependencies', () => {
+      expect(validateTodoList([todo('a'), todo('b', { dependsOn: ['a'] })])).toEqual([]);
+    });
+
+    it('should report duplicate ids and unknown or self dependencies', () => {
+      expect(validateTodoList([todo('a', { dependsOn: ['a'] }), todo('a'), todo('b', { dependsOn: ['z'] })])).toEqual([
+        "Duplicate todo id 'a'",
+        "Todo 'a' depends on itself",
+        "Todo 'b' depends on unknown todo 'z'"
+      ]);
+    });
+
+    it('should report circular dependencies', () => {
+      const todos = [todo('a', { dependsOn: ['c'] }), todo('b', { dependsOn: ['a'] }), todo('c', { dependsOn: ['b'] })];
+
+      expect(validateTodoList(todos)).toEqual(['Circular dependency: a -> c -> b -> a']);
+    });
+  });
+
+  describe('orderTodos', () => {
+    it('should put dependencies first, then higher priority, then list order', () => {
+      const todos = [
+        todo('deploy', { priority: 'high', dependsOn: ['test'] }),
+        todo('docs', { priority: 'low' }),
+        todo('test', { priority: 'low', dependsOn: ['build'] }),
+        todo('build'),
+        todo('lint')
+      ];
+
+      expect(orderTodos(todos).map(item => item.id)).toEqual(['build', 'lint', 'docs', 'test', 'deploy']);
+    });
+  });
+
+  describe('nextRunnableTodo', () => {
+    it('should skip todos whose dependencies are not completed', () => {
+      const todos = [
+        todo('a', { status: 'in_progress' }),
+        todo('b', { priority: 'high', dependsOn: ['a'] }),
+        todo('c', { priority: 'low' })
+      ];
+
+      expect(nextRunnableTodo(todos)?.id).toBe('c');
+      expect(nextRunnableTodo(updateTodo(todos, 'a', { status: 'completed' }))?.id).toBe('b');
+    });
+
+    it('should return null when nothing can start', () => {
+      expect(nextRunnableTodo([todo('a', { status: 'completed' }), todo('b', { status: 'failed' })])).toBeNull();
+    });
+  });
+
+  describe('blockUnreachableTodos', () => {
+    it('should block pending todos downstream of a failed one', () => {
+      const todos = [
+        todo('a', { status: 'failed' }),
+        todo('b', { dependsOn: ['a'] }),
+        todo('c', { dependsOn: ['b'] }),
+        todo('d')
+      ];
+
+      const updated = blockUnreachableTodos(todos);
+
+      expect(updated.map(item => item.status)).toEqual(['failed', 'blocked', 'blocked', 'pending']);
+      expect(updated[1].result).toBe('Blocked: depends on "Task a", which is failed');
+      expect(updated[2].result).toBe('Blocked: depends on "Task b", which is blocked');
+      expect(updated[3]).toBe(todos[3]);
+    });
+  });
+
+  describe('editing', () => {
+    const todos = [todo('1'), todo('2', { dependsOn: ['1'] }), todo('3')];
+
+    it('should add a todo with the next free id', () => {
+      const added = addTodo(removeTodo(todos, '2'), 'Write changelog', 'high');
+
+      expect(added[added.length - 1]).toEqual({ id: '4', content: 'Write changelog', status: 'pending', priority: 'high' });
+    });
+
+    it('should move a todo to a 1-based position', () => {
+      expect(moveTodo(todos, '3', 1).map(item => item.id)).toEqual(['3', '1', '2']);
+      expect(moveTodo(todos, '1', 10).map(item => item.id)).toEqual(['2', '3', '1']);
+    });
+
+    it('should remove a todo and dependencies on it', () => {
+      expect(removeTodo(todos, '1')).toEqual([todo('2', { dependsOn: [] }), todo('3')]);
+    });
+
+    it('should reject unknown ids', () => {
+      expect(() => updateTodo(todos, '9', { status: 'completed' })).toThrow("No todo with id '9'");
+      expect(() => moveTodo(todos, '9', 1)).toThrow("No todo with id '9'");
+    });
+  });
+
+  describe('formatTodoList', () => {
+    it('should show dependencies, notes and results under each item', () => {
+      const text = formatTodoList([
+        todo('1', { status: 'completed', priority: 'high', result: 'Built in 3s' }),
+        todo('2', { dependsOn: ['1'], notes: 'Use --ci' })
+      ]);
+
+      expect(text).toBe([
+        '1. ✅ 🔴 Task 1 [1]',
+        '   result: Built in 3s',
+        '2. ⏳ 🟡 Task 2 [2]',
+        '   depends on: Task 1',
+        '   notes: Use --ci'
+      ].join('\n'));
+    });
+  });
+
+  describe('TodoStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'todos-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should save and load a todo list', () => {
+      const store = new TodoStore(path.join(directory, 'nested', 'todos.json'));
+      const todos = [todo('1', { notes: 'Check CI' }), todo('2', { dependsOn: ['1'] })];
+
+      expect(store.exists()).toBe(false);
+      store.save(todos);
+
+      expect(store.exists()).toBe(true);
+      expect(store.load()).toEqual(todos);
+      expect(fs.readdirSync(path.join(directory, 'nested'))).toEqual(['todos.json']);
+    });
+
+    it('should let an agent load the list and save every change', async () => {
+      const store = new TodoStore(path.join(directory, 'todos.json'));
+      store.save([todo('1')]);
+      const toolRegistry = new ToolRegistry();
+      toolRegistry.register(todoWriteTool);
+      const provider = new ScriptedProvider([
+        [toolUseBlock('toolu_1', 'todo_write', { todos: [todo('1', { status: 'completed' }), todo('2')] })],
+        [textBlock('Done.')]
+      ]);
+      const agent = new Agent(toolRegistry, provider, { todoStore: store, autoProgressTodos: false });
+
+      expect(agent.getTodos()).toEqual([todo('1')]);
+      await agent.chat('Finish the first todo');
+
+      expect(store.load()).toEqual([todo('1', { status: 'completed' }), todo('2')]);
+    });
+
+    it('should reject files that are not todo lists', () => {
+      const file = path.join(directory, 'todos.json');
+      fs.writeFileSync(file, JSON.stringify([todo('1')]));
+
+      expect(() => new TodoStore(file).load()).toThrow('is not a todo list file');
+    });
+
+    it('should validate the list it loads', () => {
+      const file = path.join(directory, 'todos.json');
+      fs.writeFileSync(file, JSON.stringify({ version: 1, todos: [todo('1', { dependsOn: ['2'] }), todo('2', { dependsOn: ['1'] })] }));
+      expect(() => new TodoStore(file).load()).toThrow(`Invalid todo list in ${file}: Circular dependency: 1 -> 2 -> 1`);
+
+      fs.writeFileSync(file, JSON.stringify({ version: 1, todos: [todo('1'), { ...todo('2'), status: 'done', notes: 3 }] }));
+      expect(() => new TodoStore(file).load()).toThrow(
+        `Invalid todo list in ${file}: todos[1].status: must be one of "pending", "in_progress", "completed", "blocked", "failed", "cancelled", got "done"; ` +
+        'todos[1].notes: expected string, got number'
+      );
+    });
+
+    it('should let an agent start with a todo file it cannot load', () => {
+      const file = path.join(directory, 'todos.json');
+      fs.writeFileSync(file, '{ not json');
+      const notices: string[] = [];
+
+      const agent = new Agent(new ToolRegistry(), new ScriptedProvider([]), {
+        todoStore: new TodoStore(file),
+        hooks: { onNotice: ({ kind, message }) => notices.push(`${kind}: ${message}`) }
+      });
+
+      expect(agent.getTodos()).toEqual([]);
+      expect(notices).toEqual([expect.stringMatching(/^todo_file_invalid: Ignoring the todo file: Could not read todos from /)]);
+      expect(fs.readFileSync(file, 'utf-8')).toBe('{ not json');
+    });
+  });
+});
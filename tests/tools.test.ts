@@ -1,4 +1,14 @@
-import { readFileTool, executeCommandTool, httpRequestTool, searchTool, todoWriteTool, ToolRegistry } from '../tools';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpClient } from '../http';
+import { FixtureSearchProvider } from '../search';
+import {
+  readFileTool, writeFileTool, editFileTool, listDirectoryTool, globTool, grepTool,
+  executeCommandTool, httpRequestTool, searchTool, todoWriteTool, ToolRegistry, ToolInputValidationError
+} from '../tools';
 
 describe('Tool Integration Tests', () => {
   let toolRegistry: ToolRegistry;
@@ -59,20 +69,33 @@ describe('Tool Integration Tests', () => {
   });
 
   describe('http_request tool', () => {
-    it('should make HTTP request to https://ampcode.com/how-to-build-an-agent', async () => {
-      const result = await toolRegistry.execute({
+    let server: http.Server;
+    let base: string;
+
+    beforeAll(async () => {
+      server = http.createServer((_request, response) => {
+        response.writeHead(200, { 'content-type': 'text/plain' }).end('How to build an agent');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should make an HTTP request', async () => {
+      const registry = new ToolRegistry({ http: new HttpClient({ blockPrivateNetworks: false }) });
+      registry.register(httpRequestTool);
+
+      const result = await registry.execute({
         name: 'http_request',
-        input: { 
-          url: 'https://ampcode.com/how-to-build-an-agent',
-          method: 'GET'
-        }
+        input: { url: `${base}/how-to-build-an-agent`, method: 'GET' }
       });
 
-      expect(result).toContain('HTTP GET https://ampcode.com/how-to-build-an-agent');
-      expect(result).toContain('Status:');
-      expect(result).toContain('Response:');
-      expect(typeof result).toBe('string');
-    }, 15000); // Increased timeout for HTTP request
+      expect(result).toContain(`HTTP GET ${base}/how-to-build-an-agent\nStatus: 200 OK`);
+      expect(result).toContain('Response:\nHow to build an agent');
+    });
 
     it('should handle invalid URL gracefully', async () => {
       const result = await toolRegistry.execute({
@@ -86,16 +109,19 @@ describe('Tool Integration Tests', () => {
   });
 
   describe('search tool', () => {
-    it('should search using Brave Search API', async () => {
-      // Skip if no API key is available
-      if (!process.env.BRAVE_API_KEY) {
-        console.log('Skipping search test - BRAVE_API_KEY not set');
-        return;
-      }
+    const documents = [
+      { title: 'TypeScript', url: 'https://www.typescriptlang.org/', snippet: 'TypeScript is JavaScript with syntax for types.', publishedAt: '2024-05-01' },
+      { title: 'The TypeScript Handbook', url: 'https://www.typescriptlang.org/docs/handbook/', snippet: 'A guide to the TypeScript programming language.' },
+      { title: 'Rust', url: 'https://www.rust-lang.org/', snippet: 'Reliable and efficient software for everyone.' }
+    ];
 
-      const result = await toolRegistry.execute({
+    it('should search with the configured provider', async () => {
+      const registry = new ToolRegistry({ search: new FixtureSearchProvider({ documents }) });
+      registry.register(searchTool);
+
+      const result = await registry.execute({
         name: 'search',
-        input: { 
+        input: {
           q: 'TypeScript programming language',
           count: 5,
           country: 'US'
@@ -103,9 +129,12 @@ describe('Tool Integration Tests', () => {
       });
 
       expect(result).toContain('Search Results for: "TypeScript programming language"');
-      expect(result).toContain('Country: US');
-      expect(typeof result).toBe('string');
-    }, 15000); // Increased timeout for API request
+      expect(result).toContain('Provider: fixture, Country: US, Page: 1, Results: 2');
+      expect(result).toContain('1. The TypeScript Handbook');
+      expect(result).toContain('URL: https://www.typescriptlang.org/docs/handbook/');
+      expect(result).toContain('Published: 2024-05-01');
+      expect(result).not.toContain('Rust');
+    });
 
     it('should handle missing API key gracefully', async () => {
       // Temporarily remove API key
@@ -127,20 +156,19 @@ describe('Tool Integration Tests', () => {
     });
 
     it('should use default parameters when not provided', async () => {
-      if (!process.env.BRAVE_API_KEY) {
-        console.log('Skipping search test - BRAVE_API_KEY not set');
-        return;
-      }
+      const registry = new ToolRegistry({ search: new FixtureSearchProvider({ documents }) });
+      registry.register(searchTool);
 
-      const result = await toolRegistry.execute({
+      const result = await registry.execute({
         name: 'search',
-        input: { q: 'simple test' }
+        input: { q: 'typescript' }
       });
 
-      expect(result).toContain('Search Results for: "simple test"');
-      expect(result).toContain('Country: US'); // Default country
-      expect(typeof result).toBe('string');
-    }, 15000);
+      expect(result).toContain('Search Results for: "typescript"');
+      expect(result).toContain('Country: US, Page: 1'); // Default country and page
+      expect(result).toContain('Results: 2');
+      expect(result).not.toContain('More results are available');
+    });
   });
 
   describe('todo_write tool', () => {
@@ -245,6 +273,34 @@ describe('Tool Integration Tests', () => {
       expect(definitions[0]).toHaveProperty('input_schema');
     });
 
+    it('should mark only read-only tools as concurrency-safe', () => {
+      expect(toolRegistry.isConcurrencySafe('read_file')).toBe(true);
+      expect(toolRegistry.isConcurrencySafe('http_request')).toBe(true);
+      expect(toolRegistry.isConcurrencySafe('http_request', { url: 'https://example.com/' })).toBe(true);
+      expect(toolRegistry.isConcurrencySafe('http_request', { url: 'https://example.com/', method: 'HEAD' })).toBe(true);
+      expect(toolRegistry.isConcurrencySafe('http_request', { url: 'https://example.com/', method: 'POST' })).toBe(false);
+      expect(toolRegistry.isConcurrencySafe('search')).toBe(true);
+      expect(toolRegistry.isConcurrencySafe('execute_command')).toBe(false);
+      expect(toolRegistry.isConcurrencySafe('todo_write')).toBe(false);
+      expect(toolRegistry.isConcurrencySafe('unknown_tool')).toBe(false);
+    });
+
+    it('should reject invalid input before executing the tool', async () => {
+      await expect(toolRegistry.execute({
+        name: 'search',
+        input: { count: '5' }
+      })).rejects.toThrow(ToolInputValidationError);
+
+      await expect(toolRegistry.execute({
+        name: 'search',
+        input: { count: '5' }
+      })).rejects.toThrow("Invalid input for tool 'search':\n- q: is required\n- count: expected number, got string");
+    });
+
+    it('should apply schema defaults when validating', () => {
+      expect(toolRegistry.validate({ name: 'search', input: { q: 'test' } })).toEqual({ q: 'test', country: 'US' });
+    });
+
     it('should handle unknown tool execution', async () => {
       await expect(async () => {
         await toolRegistry.execute({
@@ -254,4 +310,115 @@ describe('Tool Integration Tests', () => {
       }).rejects.toThrow('Tool \'unknown_tool\' not found');
     });
   });
-});
\ No newline at end of file
+
+  describe('filesystem tools', () => {
+    let fileRegistry: ToolRegistry;
+    let scratchDir: string;
+    let relativeDir: string;
+
+    beforeEach(() => {
+      fileRegistry = new ToolRegistry();
+      [readFileTool, writeFileTool, editFileTool, listDirectoryTool, globTool, grepTool].forEach(tool => fileRegistry.register(tool));
+      scratchDir = fs.mkdtempSync(path.join(process.cwd(), '.tmp-tools-'));
+      relativeDir = path.relative(process.cwd(), scratchDir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(scratchDir, { recursive: true, force: true });
+    });
+
+    it('should write a new file and create parent directories', async () => {
+      const result = await fileRegistry.execute({
+        name: 'write_file',
+        input: { file_path: `${relativeDir}/nested/notes.txt`, content: 'line one\nline two' }
+      });
+
+      expect(result).toBe(`Created ${relativeDir}/nested/notes.txt: 17 bytes, 2 lines written`);
+      expect(fs.readFileSync(path.join(scratchDir, 'nested/notes.txt'), 'utf-8')).toBe('line one\nline two');
+    });
+
+    it('should refuse to write outside the current directory', async () => {
+      const result = await fileRegistry.execute({
+        name: 'write_file',
+        input: { file_path: '../outside.txt', content: 'nope' }
+      });
+
+      expect(result).toContain('Failed to write file: Access denied');
+    });
+
+    it('should replace a unique string with edit_file', async () => {
+      fs.writeFileSync(path.join(scratchDir, 'code.ts'), 'const a = 1;\nconst b = 2;\n');
+
+      const result = await fileRegistry.execute({
+        name: 'edit_file',
+        input: { file_path: `${relativeDir}/code.ts`, old_string: 'const b = 2;', new_string: 'const b = 20;' }
+      });
+
+      expect(result).toBe(`Edited ${relativeDir}/code.ts: 1 replacement, +1 bytes`);
+      expect(fs.readFileSync(path.join(scratchDir, 'code.ts'), 'utf-8')).toBe('const a = 1;\nconst b = 20;\n');
+    });
+
+    it('should reject ambiguous or missing edit_file matches', async () => {
+      fs.writeFileSync(path.join(scratchDir, 'code.ts'), 'x = 1;\nx = 1;\n');
+
+      const ambiguous = await fileRegistry.execute({
+        name: 'edit_file',
+        input: { file_path: `${relativeDir}/code.ts`, old_string: 'x = 1;', new_string: 'x = 2;' }
+      });
+      expect(ambiguous).toContain('old_string appears 2 times');
+
+      const missing = await fileRegistry.execute({
+        name: 'edit_file',
+        input: { file_path: `${relativeDir}/code.ts`, old_string: 'y = 1;', new_string: 'y = 2;' }
+      });
+      expect(missing).toContain('old_string not found');
+
+      const all = await fileRegistry.execute({
+        name: 'edit_file',
+        input: { file_path: `${relativeDir}/code.ts`, old_string: 'x = 1;', new_string: 'x = $&;', replace_all: true }
+      });
+      expect(all).toContain('2 replacements');
+      expect(fs.readFileSync(path.join(scratchDir, 'code.ts'), 'utf-8')).toBe('x = $&;\nx = $&;\n');
+    });
+
+    it('should list directories before files with sizes', async () => {
+      fs.mkdirSync(path.join(scratchDir, 'src'));
+      fs.writeFileSync(path.join(scratchDir, 'a.txt'), 'abc');
+
+      const result = await fileRegistry.execute({ name: 'list_directory', input: { dir_path: relativeDir } });
+
+      expect(result).toContain('(1 directories, 1 files)');
+      expect(result).toMatch(/src\/\na\.txt \(3 bytes\)/);
+    });
+
+    it('should list symbolic links without following them', async () => {
+      fs.writeFileSync(path.join(scratchDir, 'a.txt'), 'abc');
+      fs.symlinkSync('missing.txt', path.join(scratchDir, 'dangling'));
+      fs.symlinkSync(os.tmpdir(), path.join(scratchDir, 'outside'));
+
+      const result = await fileRegistry.execute({ name: 'list_directory', input: { dir_path: relativeDir } });
+
+      expect(result).toBe(`Contents of ${relativeDir} (0 directories, 1 files, 2 links):\n\na.txt (3 bytes)\ndangling -> missing.txt\noutside -> ${os.tmpdir()}`);
+    });
+
+    it('should find files by glob and contents by grep', async () => {
+      fs.mkdirSync(path.join(scratchDir, 'src/lib'), { recursive: true });
+      fs.writeFileSync(path.join(scratchDir, 'src/index.ts'), 'export const answer = 42;\n');
+      fs.writeFileSync(path.join(scratchDir, 'src/lib/util.ts'), 'const Answer = 1;\nconst other = 2;\n');
+      fs.writeFileSync(path.join(scratchDir, 'src/readme.md'), 'the answer\n');
+
+      const globResult = await fileRegistry.execute({ name: 'glob', input: { pattern: '**/*.ts', path: relativeDir } });
+      expect(globResult).toContain('Found 2 files matching **/*.ts');
+      expect(globResult).toContain('src/index.ts\nsrc/lib/util.ts');
+
+      const grepResult = await fileRegistry.execute({
+        name: 'grep',
+        input: { pattern: 'answer', path: relativeDir, include: '*.ts', case_insensitive: true }
+      });
+      expect(grepResult).toContain('Found 2 matches in 2 files');
+      expect(grepResult).toContain(`${relativeDir}/src/index.ts:1: export const answer = 42;`);
+      expect(grepResult).toContain(`${relativeDir}/src/lib/util.ts:1: const Answer = 1;`);
+      expect(grepResult).not.toContain('readme.md');
+    });
+  });
+});
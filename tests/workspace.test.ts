@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Workspace, WorkspaceAccessError } from '../workspace';
+import { ToolRegistry, readFileTool, listDirectoryTool, globTool } from '../tools';
+
+describe('Workspace', () => {
+  let baseDir: string;
+  let root: string;
+
+  beforeEach(() => {
+    baseDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-test-')));
+    root = path.join(baseDir, 'app');
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+    fs.mkdirSync(path.join(root, '.git'));
+    fs.writeFileSync(path.join(root, 'src/index.ts'), 'console.log("hi");\n');
+    fs.writeFileSync(path.join(root, '.env'), 'SECRET=1\n');
+    fs.writeFileSync(path.join(root, '.git/config'), '[core]\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should resolve paths inside the root', () => {
+    const workspace = new Workspace({ root });
+    expect(workspace.resolve('src/index.ts')).toBe(path.join(root, 'src/index.ts'));
+    expect(workspace.resolve('src/new-file.ts')).toBe(path.join(root, 'src/new-file.ts'));
+    expect(workspace.readText('src/index.ts')).toBe('console.log("hi");\n');
+  });
+
+  it('should allow entries whose names start with two dots', () => {
+    fs.mkdirSync(path.join(root, '..cache'));
+    fs.writeFileSync(path.join(root, '..cache/file'), 'cached');
+
+    const workspace = new Workspace({ root });
+    expect(workspace.readText('..cache/file')).toBe('cached');
+    expect(workspace.contains(path.join(root, '..cache'))).toBe(true);
+    expect(workspace.contains(baseDir)).toBe(false);
+    expect(() => workspace.resolve('..')).toThrow('is outside the workspace');
+  });
+
+  it('should reject sibling directories that share the root prefix', () => {
+    const secrets = path.join(baseDir, 'app-secrets');
+    fs.mkdirSync(secrets);
+    fs.writeFileSync(path.join(secrets, 'key.pem'), 'private');
+
+    const workspace = new Workspace({ root });
+    expect(() => workspace.resolve('../app-secrets/key.pem')).toThrow(WorkspaceAccessError);
+    expect(() => workspace.resolve(path.join(secrets, 'key.pem'))).toThrow('is outside the workspace');
+  });
+
+  it('should not follow symlinks out of the root', () => {
+    const outside = path.join(baseDir, 'outside.txt');
+    fs.writeFileSync(outside, 'outside');
+    fs.symlinkSync(outside, path.join(root, 'link.txt'));
+    fs.symlinkSync(baseDir, path.join(root, 'escape'));
+
+    const workspace = new Workspace({ root });
+    expect(() => workspace.readText('link.txt')).toThrow('is outside the workspace');
+    expect(() => workspace.writeFile('escape/new.txt', 'x')).toThrow('is outside the workspace');
+    expect(fs.existsSync(path.join(baseDir, 'new.txt'))).toBe(false);
+  });
+
+  it('should apply the default deny list', () => {
+    const workspace = new Workspace({ root });
+    expect(() => workspace.readText('.env')).toThrow('matches deny pattern .env');
+    expect(() => workspace.readText('.git/config')).toThrow('matches deny pattern .git/');
+    expect(workspace.listFiles('.').map(file => workspace.relative(file))).toEqual(['src/index.ts']);
+  });
+
+  it('should restrict files to the allow list', () => {
+    fs.writeFileSync(path.join(root, 'notes.md'), '# Notes\n');
+
+    const workspace = new Workspace({ root, allow: ['src/**'] });
+    expect(workspace.readText('src/index.ts')).toContain('hi');
+    expect(() => workspace.readText('notes.md')).toThrow('is not covered by the allow list');
+    expect(workspace.resolve('src', { directory: true })).toBe(path.join(root, 'src'));
+  });
+
+  it('should enforce the maximum file size on reads and writes', () => {
+    fs.writeFileSync(path.join(root, 'big.txt'), 'x'.repeat(200));
+
+    const workspace = new Workspace({ root, maxFileSize: 100 });
+    expect(() => workspace.readText('big.txt')).toThrow('big.txt is 200 bytes, larger than the 100 byte limit');
+    expect(() => workspace.writeFile('other.txt', 'y'.repeat(101))).toThrow('larger than the 100 byte limit');
+  });
+
+  it('should detect binary files', () => {
+    fs.writeFileSync(path.join(root, 'image.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]));
+
+    const workspace = new Workspace({ root });
+    const file = workspace.readFile('image.png');
+    expect(file.binary).toBe(true);
+    expect(file.size).toBe(7);
+    expect(() => workspace.readText('image.png')).toThrow('is a binary file (7 bytes)');
+  });
+
+  describe('file tools', () => {
+    let registry: ToolRegistry;
+
+    beforeEach(() => {
+      registry = new ToolRegistry({ workspace: new Workspace({ root }) });
+      [readFileTool, listDirectoryTool, globTool].forEach(tool => registry.register(tool));
+    });
+
+    it('should resolve tool paths against the registry workspace', async () => {
+      const result = await registry.execute({ name: 'read_file', input: { file_path: 'src/index.ts' } });
+      expect(result).toContain('console.log("hi");');
+    });
+
+    it('should hide denied entries from listings', async () => {
+      const listing = await registry.execute({ name: 'list_directory', input: {} });
+      expect(listing).toContain('src/');
+      expect(listing).not.toContain('.env');
+      expect(listing).not.toContain('.git');
+
+      const matches = await registry.execute({ name: 'glob', input: { pattern: '**/*' } });
+      expect(matches).toContain('Found 1 file matching');
+    });
+
+    it('should describe binary files instead of decoding them', async () => {
+      fs.writeFileSync(path.join(root, 'data.bin'), Buffer.from([0, 1, 2, 3]));
+      const result = await registry.execute({ name: 'read_file', input: { file_path: 'data.bin' } });
+      expect(result).toBe('data.bin is a binary file (4 bytes); its contents cannot be shown as text.');
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonSchema, validateAgainstSchema } from './schema';
+
+export type TodoStatus = 'pending' | 'in_progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
+
+export type TodoPriority = 'high' | 'medium' | 'low';
+
+export interface TodoItem {
+  id: string;
+  content: string;
+  status: TodoStatus;
+  priority: TodoPriority;
+  /** Ids of todos that must be completed before this one can start */
+  dependsOn?: string[];
+  /** Context for whoever works on the item */
+  notes?: string;
+  /** Outcome once the item is finished, failed or blocked */
+  result?: string;
+}
+
+export const TODO_STATUSES: TodoStatus[] = ['pending', 'in_progress', 'completed', 'blocked', 'failed', 'cancelled'];
+export const TODO_PRIORITIES: TodoPriority[] = ['high', 'medium', 'low'];
+
+/** One item of the `todo_write` tool input, also used to check todo files */
+export const TODO_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    content: {
+      type: 'string',
+      description: 'The todo item description'
+    },
+    status: {
+      type: 'string',
+      enum: TODO_STATUSES,
+      description: 'Current status of the todo item'
+    },
+    priority: {
+      type: 'string',
+      enum: TODO_PRIORITIES,
+      description: 'Priority level of the todo item'
+    },
+    id: {
+      type: 'string',
+      description: 'Unique identifier for the todo item'
+    },
+    dependsOn: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Ids of todo items that must be completed before this one starts'
+    },
+    notes: {
+      type: 'string',
+      description: 'Context or instructions for the item'
+    },
+    result: {
+      type: 'string',
+      description: 'Outcome of the item: what was done, or why it failed or is blocked'
+    }
+  },
+  required: ['content', 'status', 'priority', 'id']
+};
+
+export const TODO_STATUS_ICONS: Record<TodoStatus, string> = {
+  pending: '⏳',
+  in_progress: '🔄',
+  completed: '✅',
+  blocked: '🚧',
+  failed: '❌',
+  cancelled: '🚫'
+};
+
+export const TODO_PRIORITY_ICONS: Record<TodoPriority, string> = {
+  high: '🔴',
+  medium: '🟡',
+  low: '🟢'
+};
+
+// Dependents of these can never start
+const DEAD_END_STATUSES = new Set<TodoStatus>(['blocked', 'failed', 'cancelled']);
+
+/** Problems that make a list unusable: duplicate ids, unknown or circular dependencies */
+export function validateTodoList(todos: TodoItem[]): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+  for (const todo of todos) {
+    if (ids.has(todo.id)) issues.push(`Duplicate todo id '${todo.id}'`);
+    ids.add(todo.id);
+  }
+  for (const todo of todos) {
+    for (const dependency of todo.dependsOn || []) {
+      if (dependency === todo.id) issues.push(`Todo '${todo.id}' depends on itself`);
+      else if (!ids.has(dependency)) issues.push(`Todo '${todo.id}' depends on unknown todo '${dependency}'`);
+    }
+  }
+  if (issues.length === 0) {
+    const cycle = findCycle(todos);
+    if (cycle) issues.push(`Circular dependency: ${cycle.join(' -> ')}`);
+  }
+  return issues;
+}
+
+function findCycle(todos: TodoItem[]): string[] | null {
+  const byId = new Map(todos.map(todo => [todo.id, todo]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const trail: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...trail.slice(trail.indexOf(id)), id];
+    state.set(id, 'visiting');
+    trail.push(id);
+    for (const dependency of byId.get(id)?.dependsOn || []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    trail.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const todo of todos) {
+    const cycle = visit(todo.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Execution order: every todo comes after its dependencies; among todos that
+ * are free to go, higher priority first, then list order. Assumes a valid list.
+ */
+export function orderTodos(todos: TodoItem[]): TodoItem[] {
+  const remaining = [...todos];
+  const placed = new Set<string>();
+  const ordered: TodoItem[] = [];
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(todo => (todo.dependsOn || []).every(dependency => placed.has(dependency)));
+    // A cycle would leave nothing ready; fall back to list order rather than loop forever
+    const candidates = ready.length > 0 ? ready : remaining;
+    const next = candidates.reduce((best, todo) =>
+      TODO_PRIORITIES.indexOf(todo.priority) < TODO_PRIORITIES.indexOf(best.priority) ? todo : best);
+    ordered.push(next);
+    placed.add(next.id);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+
+  return ordered;
+}
+
+/** Dependencies of `todo` that are not completed yet */
+export function unmetDependencies(todo: TodoItem, todos: TodoItem[]): TodoItem[] {
+  const byId = new Map(todos.map(item => [item.id, item]));
+  return (todo.dependsOn || [])
+    .map(id => byId.get(id))
+    .filter((dependency): dependency is TodoItem => dependency !== undefined && dependency.status !== 'completed');
+}
+
+/** The pending todo to start next, or null if none can start */
+export function nextRunnableTodo(todos: TodoItem[]): TodoItem | null {
+  return orderTodos(todos).find(todo => todo.status === 'pending' && unmetDependencies(todo, todos).length === 0) || null;
+}
+
+/** Marks pending todos whose dependencies failed, were cancelled or are blocked as blocked */
+export function blockUnreachableTodos(todos: TodoItem[]): TodoItem[] {
+  let current = todos;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    current = current.map(todo => {
+      if (todo.status !== 'pending') return todo;
+      const deadEnd = unmetDependencies(todo, current).find(dependency => DEAD_END_STATUSES.has(dependency.status));
+      if (!deadEnd) return todo;
+      changed = true;
+      return { ...todo, status: 'blocked' as const, result: `Blocked: depends on "${deadEnd.content}", which is ${deadEnd.status}` };
+    });
+  }
+  return current;
+}
+
+export function countTodos(todos: TodoItem[]): Record<TodoStatus, number> {
+  const counts = Object.fromEntries(TODO_STATUSES.map(status => [status, 0])) as Record<TodoStatus, number>;
+  todos.forEach(todo => counts[todo.status]++);
+  return counts;
+}
+
+/** One numbered line per todo in list order, with dependencies, notes and results indented below */
+export function formatTodoList(todos: TodoItem[]): string {
+  const byId = new Map(todos.map(todo => [todo.id, todo]));
+  return todos.map((todo, index) => {
+    const lines = [`${index + 1}. ${TODO_STATUS_ICONS[todo.status]} ${TODO_PRIORITY_ICONS[todo.priority]} ${todo.content} [${todo.id}]`];
+    if (todo.dependsOn?.length) {
+      lines.push(`   depends on: ${todo.dependsOn.map(id => byId.get(id)?.content ?? id).join(', ')}`);
+    }
+    if (todo.notes) lines.push(`   notes: ${todo.notes}`);
+    if (todo.result) lines.push(`   result: ${todo.result}`);
+    return lines.join('\n');
+  }).join('\n');
+}
+
+/** Moves a todo to a 1-based position in the list; list order breaks priority ties */
+export function moveTodo(todos: TodoItem[], id: string, position: number): TodoItem[] {
+  const todo = findTodo(todos, id);
+  const rest = todos.filter(item => item !== todo);
+  const index = Math.min(Math.max(position - 1, 0), rest.length);
+  return [...rest.slice(0, index), todo, ...rest.slice(index)];
+}
+
+export function updateTodo(todos: TodoItem[], id: string, changes: Partial<Omit<TodoItem, 'id'>>): TodoItem[] {
+  findTodo(todos, id);
+  return todos.map(todo => todo.id === id ? { ...todo, ...changes } : todo);
+}
+
+/** Removes a todo and any dependencies on it */
+export function removeTodo(todos: TodoItem[], id: string): TodoItem[] {
+  findTodo(todos, id);
+  return todos
+    .filter(todo => todo.id !== id)
+    .map(todo => todo.dependsOn?.includes(id) ? { ...todo, dependsOn: todo.dependsOn.filter(dependency => dependency !== id) } : todo);
+}
+
+export function addTodo(todos: TodoItem[], content: string, priority: TodoPriority = 'medium'): TodoItem[] {
+  const taken = new Set(todos.map(todo => todo.id));
+  let number = todos.length + 1;
+  while (taken.has(String(number))) number++;
+  return [...todos, { id: String(number), content, status: 'pending', priority }];
+}
+
+function findTodo(todos: TodoItem[], id: string): TodoItem {
+  const todo = todos.find(item => item.id === id);
+  if (!todo) {
+    throw new Error(`No todo with id '${id}'`);
+  }
+  return todo;
+}
+
+export const TODO_FILE_VERSION = 1;
+
+/** Keeps a todo list in a JSON file, independent of any session */
+export class TodoStore {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  load(): TodoItem[] {
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not read todos from ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (data?.version !== TODO_FILE_VERSION || !Array.isArray(data.todos)) {
+      throw new Error(`${this.filePath} is not a todo list file (version ${TODO_FILE_VERSION})`);
+    }
+    // The file may have been edited by hand, so hold it to the same rules as todo_write
+    const malformed = validateAgainstSchema({ type: 'array', items: TODO_ITEM_SCHEMA }, data.todos).issues;
+    if (malformed.length > 0) {
+      throw new Error(`Invalid todo list in ${this.filePath}: ${malformed.map(issue => `todos${issue.path}: ${issue.message}`).join('; ')}`);
+    }
+    const issues = validateTodoList(data.todos);
+    if (issues.length > 0) {
+      throw new Error(`Invalid todo list in ${this.filePath}: ${issues.join('; ')}`);
+    }
+    return data.todos;
+  }
+
+  save(todos: TodoItem[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash never leaves a half-written list
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify({ version: TODO_FILE_VERSION, todos }, null, 2));
+    fs.renameSync(temporary, this.filePath);
+  }
+}
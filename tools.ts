@@ -1,10 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { TodoWriteInput } from './agent';
-
-const execAsync = promisify(exec);
+import { CommandResult, CommandRunner, ProcessStatus, defaultCommandRunner } from './commands';
+import { ShellSession } from './shell';
+import { HttpClient, HttpMethod, HttpResponse, defaultHttpClient, htmlToText } from './http';
+import { SEARCH_FRESHNESS, SearchFreshness, SearchPage, SearchProvider, defaultSearchProvider } from './search';
+import { TODO_ITEM_SCHEMA, countTodos, formatTodoList } from './todos';
+import { ValidationIssue, validateAgainstSchema } from './schema';
+import { globToRegExp } from './glob';
+import { Workspace, defaultWorkspace, isBinary } from './workspace';
 
 export interface ToolSchema {
   type: string;
@@ -12,20 +16,85 @@ export interface ToolSchema {
   required: string[];
 }
 
+export interface ToolContext {
+  /** Sandbox for all file access */
+  workspace: Workspace;
+  /** Runs shell commands and owns background processes */
+  commands: CommandRunner;
+  /** Makes outbound HTTP requests under the host, redirect and size policy */
+  http: HttpClient;
+  /** Backend of the `search` tool */
+  search: SearchProvider;
+  /** The calling agent's persistent shell; absent outside an agent */
+  shell?: ShellSession;
+  /** Aborted when the user cancels the turn; tools should stop work and release processes or requests */
+  signal?: AbortSignal;
+}
+
 export interface Tool {
   name: string;
   description: string;
   input_schema: ToolSchema;
-  execute: (input: any) => Promise<string>;
+  /**
+   * Read-only tools with no shared state may run in parallel with each other;
+   * a function decides per call, for tools whose input chooses whether they write
+   */
+  concurrencySafe?: boolean | ((input: any) => boolean);
+  execute: (input: any, context: ToolContext) => Promise<string>;
+}
+
+export interface ToolRegistryOptions {
+  workspace?: Workspace;
+  commands?: CommandRunner;
+  http?: HttpClient;
+  search?: SearchProvider;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: ToolSchema;
+}
+
+export interface ToolOutcome {
+  content: string;
+  /** The tool threw; `content` holds its error message */
+  isError: boolean;
 }
 
 export interface ToolCall {
+  /** The id of the model's tool_use block, echoed back as tool_use_id */
+  id: string;
   name: string;
   input: any;
 }
 
+export class ToolInputValidationError extends Error {
+  readonly toolName: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(toolName: string, issues: ValidationIssue[]) {
+    const details = issues.map(issue => `- ${issue.path || 'input'}: ${issue.message}`).join('\n');
+    super(`Invalid input for tool '${toolName}':\n${details}\nFix the listed fields and call the tool again.`);
+    this.name = 'ToolInputValidationError';
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
+  readonly workspace: Workspace;
+  readonly commands: CommandRunner;
+  readonly http: HttpClient;
+  readonly search: SearchProvider;
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.workspace = options.workspace || defaultWorkspace;
+    this.commands = options.commands || defaultCommandRunner;
+    this.http = options.http || defaultHttpClient;
+    this.search = options.search || defaultSearchProvider;
+  }
 
   register(tool: Tool): void {
     this.tools.set(tool.name, tool);
@@ -39,32 +108,90 @@ export class ToolRegistry {
     return this.tools.get(name);
   }
 
-  async execute(toolCall: ToolCall): Promise<string> {
+  /** Whether a call with `input` may run in parallel; without `input`, whether the tool's read-only calls may */
+  isConcurrencySafe(name: string, input?: any): boolean {
+    const safe = this.get(name)?.concurrencySafe;
+    if (typeof safe === 'function') {
+      return input === undefined || safe(input);
+    }
+    return safe === true;
+  }
+
+  /**
+   * Checks the call's input against the tool's `input_schema` and returns it with
+   * defaults applied. Throws `ToolInputValidationError` naming each bad field.
+   */
+  validate(toolCall: Omit<ToolCall, 'id'>): any {
+    const tool = this.get(toolCall.name);
+    if (!tool) {
+      throw new Error(`Tool '${toolCall.name}' not found`);
+    }
+
+    const { value, issues } = validateAgainstSchema(tool.input_schema, toolCall.input ?? {});
+    if (issues.length > 0) {
+      throw new ToolInputValidationError(tool.name, issues);
+    }
+
+    return value;
+  }
+
+  /**
+   * Runs a call and reports whether the tool failed. Unknown tools and bad
+   * input throw; a tool that throws becomes an error outcome naming the tool.
+   */
+  async run(toolCall: Omit<ToolCall, 'id'>, signal?: AbortSignal, shell?: ShellSession): Promise<ToolOutcome> {
     const tool = this.get(toolCall.name);
     if (!tool) {
       throw new Error(`Tool '${toolCall.name}' not found`);
     }
 
+    const input = this.validate(toolCall);
+
     try {
-      return await tool.execute(toolCall.input);
+      const content = await tool.execute(input, { workspace: this.workspace, commands: this.commands, http: this.http, search: this.search, shell, signal });
+      return { content, isError: false };
     } catch (error) {
-      return `Error executing tool '${toolCall.name}': ${error instanceof Error ? error.message : String(error)}`;
+      return { content: `Error executing tool '${toolCall.name}': ${error instanceof Error ? error.message : String(error)}`, isError: true };
     }
   }
 
-  getToolDefinitions(): any[] {
+  /** Like `run`, for callers that only want the text */
+  async execute(toolCall: Omit<ToolCall, 'id'>, signal?: AbortSignal, shell?: ShellSession): Promise<string> {
+    return (await this.run(toolCall, signal, shell)).content;
+  }
+
+  getToolDefinitions(): ToolDefinition[] {
     return this.getAll().map(tool => ({
       name: tool.name,
       description: tool.description,
       input_schema: tool.input_schema
     }));
   }
+
+  /**
+   * A new registry with only the named tools, sharing this registry's
+   * workspace, command runner, HTTP client and search provider unless
+   * `services` replaces them
+   */
+  subset(names: string[], services: ToolRegistryOptions = {}): ToolRegistry {
+    const unknown = names.filter(name => !this.tools.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tools: ${unknown.join(', ')}. Available: ${Array.from(this.tools.keys()).join(', ')}`);
+    }
+
+    const registry = new ToolRegistry({ workspace: this.workspace, commands: this.commands, http: this.http, search: this.search, ...services });
+    names.forEach(name => registry.register(this.tools.get(name)!));
+    return registry;
+  }
 }
 
+const MAX_LISTED_MATCHES = 200;
+
 // Tool implementations
 export const readFileTool: Tool = {
   name: 'read_file',
   description: 'Read the contents of a file from the filesystem',
+  concurrencySafe: true,
   input_schema: {
     type: 'object',
     properties: {
@@ -75,58 +202,515 @@ export const readFileTool: Tool = {
     },
     required: ['file_path']
   },
-  execute: async (input: { file_path: string }): Promise<string> => {
+  execute: async (input: { file_path: string }, { workspace }: ToolContext): Promise<string> => {
     try {
-      const safePath = path.resolve(input.file_path);
-      const currentDir = process.cwd();
-      
-      // Security check: ensure file is within current directory
-      if (!safePath.startsWith(currentDir)) {
-        throw new Error('Access denied: file must be within current directory');
+      const file = workspace.readFile(input.file_path);
+      if (file.binary) {
+        return `${input.file_path} is a binary file (${file.size} bytes); its contents cannot be shown as text.`;
       }
-
-      const content = fs.readFileSync(safePath, 'utf-8');
-      return `File contents of ${input.file_path}:\n\n${content}`;
+      return `File contents of ${input.file_path}:\n\n${file.content}`;
     } catch (error) {
       throw new Error(`Failed to read file: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 };
 
+export const writeFileTool: Tool = {
+  name: 'write_file',
+  description: 'Write content to a file, creating it (and any missing parent directories) or overwriting it',
+  input_schema: {
+    type: 'object',
+    properties: {
+      file_path: {
+        type: 'string',
+        description: 'The path to the file to write'
+      },
+      content: {
+        type: 'string',
+        description: 'The full content to write to the file'
+      }
+    },
+    required: ['file_path', 'content']
+  },
+  execute: async (input: { file_path: string; content: string }, { workspace }: ToolContext): Promise<string> => {
+    try {
+      const { bytes, created } = workspace.writeFile(input.file_path, input.content);
+      const lines = input.content === '' ? 0 : input.content.split('\n').length;
+      return `${created ? 'Created' : 'Overwrote'} ${input.file_path}: ${bytes} bytes, ${lines} lines written`;
+    } catch (error) {
+      throw new Error(`Failed to write file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+export const editFileTool: Tool = {
+  name: 'edit_file',
+  description: 'Edit a file by replacing an exact string. old_string must appear exactly once unless replace_all is true; include surrounding lines to make it unique.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      file_path: {
+        type: 'string',
+        description: 'The path to the file to edit'
+      },
+      old_string: {
+        type: 'string',
+        description: 'The exact text to replace',
+        minLength: 1
+      },
+      new_string: {
+        type: 'string',
+        description: 'The text to replace it with'
+      },
+      replace_all: {
+        type: 'boolean',
+        description: 'Replace every occurrence instead of requiring a unique match',
+        default: false
+      }
+    },
+    required: ['file_path', 'old_string', 'new_string']
+  },
+  execute: async (input: { file_path: string; old_string: string; new_string: string; replace_all?: boolean }, { workspace }: ToolContext): Promise<string> => {
+    try {
+      const content = workspace.readText(input.file_path);
+      const occurrences = content.split(input.old_string).length - 1;
+
+      if (occurrences === 0) {
+        throw new Error(`old_string not found in ${input.file_path}`);
+      }
+      if (occurrences > 1 && !input.replace_all) {
+        throw new Error(`old_string appears ${occurrences} times in ${input.file_path}; add surrounding context to make it unique or set replace_all`);
+      }
+
+      // split/join avoids `$` patterns in new_string being interpreted by String.replace
+      const updated = input.replace_all
+        ? content.split(input.old_string).join(input.new_string)
+        : content.replace(input.old_string, () => input.new_string);
+      workspace.writeFile(input.file_path, updated);
+
+      const replaced = input.replace_all ? occurrences : 1;
+      const byteDelta = Buffer.byteLength(updated, 'utf-8') - Buffer.byteLength(content, 'utf-8');
+      return `Edited ${input.file_path}: ${replaced} replacement${replaced === 1 ? '' : 's'}, ${byteDelta >= 0 ? '+' : ''}${byteDelta} bytes`;
+    } catch (error) {
+      throw new Error(`Failed to edit file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+export const listDirectoryTool: Tool = {
+  name: 'list_directory',
+  description: 'List the files and subdirectories of a directory',
+  concurrencySafe: true,
+  input_schema: {
+    type: 'object',
+    properties: {
+      dir_path: {
+        type: 'string',
+        description: 'The directory to list (defaults to the current directory)',
+        default: '.'
+      }
+    },
+    required: []
+  },
+  execute: async (input: { dir_path: string }, { workspace }: ToolContext): Promise<string> => {
+    try {
+      const safePath = workspace.resolve(input.dir_path, { directory: true });
+      const entries = fs.readdirSync(safePath, { withFileTypes: true })
+        .filter(entry => workspace.isAccessible(path.join(safePath, entry.name), entry.isDirectory()))
+        .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+
+      if (entries.length === 0) {
+        return `Directory ${input.dir_path} is empty`;
+      }
+
+      // Links are shown, not followed: a dangling one must not fail the listing, and one leading outside must not reveal a size
+      const lines = entries.map(entry => {
+        if (entry.isDirectory()) return `${entry.name}/`;
+        if (entry.isSymbolicLink()) return `${entry.name} -> ${fs.readlinkSync(path.join(safePath, entry.name))}`;
+        const size = fs.lstatSync(path.join(safePath, entry.name)).size;
+        return `${entry.name} (${size} bytes)`;
+      });
+      const directories = entries.filter(entry => entry.isDirectory()).length;
+      const links = entries.filter(entry => entry.isSymbolicLink()).length;
+      const counts = `${directories} directories, ${entries.length - directories - links} files${links > 0 ? `, ${links} links` : ''}`;
+
+      return `Contents of ${input.dir_path} (${counts}):\n\n${lines.join('\n')}`;
+    } catch (error) {
+      throw new Error(`Failed to list directory: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+export const globTool: Tool = {
+  name: 'glob',
+  description: 'Find files whose paths match a glob pattern such as "**/*.ts" or "src/{a,b}/*.json". node_modules and .git are skipped.',
+  concurrencySafe: true,
+  input_schema: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Glob pattern relative to the search directory'
+      },
+      path: {
+        type: 'string',
+        description: 'Directory to search in (defaults to the current directory)',
+        default: '.'
+      }
+    },
+    required: ['pattern']
+  },
+  execute: async (input: { pattern: string; path: string }, { workspace }: ToolContext): Promise<string> => {
+    try {
+      const root = workspace.resolve(input.path, { directory: true });
+      const pattern = globToRegExp(input.pattern);
+      const matches = workspace.listFiles(input.path)
+        .map(file => path.relative(root, file).split(path.sep).join('/'))
+        .filter(relative => pattern.test(relative));
+
+      if (matches.length === 0) {
+        return `No files match ${input.pattern} in ${input.path}`;
+      }
+
+      const shown = matches.slice(0, MAX_LISTED_MATCHES);
+      let result = `Found ${matches.length} file${matches.length === 1 ? '' : 's'} matching ${input.pattern} in ${input.path}:\n\n${shown.join('\n')}`;
+      if (matches.length > shown.length) {
+        result += `\n\n(${matches.length - shown.length} more not shown)`;
+      }
+      return result;
+    } catch (error) {
+      throw new Error(`Glob failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+export const grepTool: Tool = {
+  name: 'grep',
+  description: 'Search file contents for a regular expression and return matching lines with file names and line numbers. node_modules, .git and binary files are skipped.',
+  concurrencySafe: true,
+  input_schema: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'JavaScript regular expression to search for'
+      },
+      path: {
+        type: 'string',
+        description: 'File or directory to search in (defaults to the current directory)',
+        default: '.'
+      },
+      include: {
+        type: 'string',
+        description: 'Optional glob limiting which files are searched, e.g. "*.ts"'
+      },
+      case_insensitive: {
+        type: 'boolean',
+        description: 'Match without regard to case',
+        default: false
+      },
+      max_results: {
+        type: 'number',
+        description: 'Maximum number of matching lines to return',
+        minimum: 1,
+        maximum: 1000,
+        default: 100
+      }
+    },
+    required: ['pattern']
+  },
+  execute: async (input: { pattern: string; path: string; include?: string; case_insensitive: boolean; max_results: number }, { workspace }: ToolContext): Promise<string> => {
+    try {
+      const root = workspace.resolve(input.path, { directory: true });
+      const regex = new RegExp(input.pattern, input.case_insensitive ? 'i' : '');
+      const include = input.include ? globToRegExp(input.include) : null;
+      const files = fs.statSync(root).isDirectory() ? workspace.listFiles(input.path) : [workspace.resolve(input.path)];
+
+      const matches: string[] = [];
+      let matchCount = 0;
+      let matchedFiles = 0;
+
+      for (const file of files) {
+        // When path names a single file, match include against its name
+        const withinRoot = path.relative(root, file).split(path.sep).join('/') || path.basename(file);
+        if (include && !include.test(withinRoot)) continue;
+
+        const relative = workspace.relative(file);
+
+        if (fs.statSync(file).size > workspace.maxFileSize) continue;
+        const buffer = fs.readFileSync(file);
+        if (isBinary(buffer)) continue;
+
+        let fileMatched = false;
+        buffer.toString('utf-8').split('\n').forEach((line, index) => {
+          if (!regex.test(line)) return;
+          matchCount++;
+          fileMatched = true;
+          if (matches.length < input.max_results) {
+            matches.push(`${relative}:${index + 1}: ${line.length > 300 ? `${line.slice(0, 300)}...` : line}`);
+          }
+        });
+        if (fileMatched) matchedFiles++;
+      }
+
+      if (matchCount === 0) {
+        return `No matches for /${input.pattern}/ in ${input.path}`;
+      }
+
+      let result = `Found ${matchCount} match${matchCount === 1 ? '' : 'es'} in ${matchedFiles} file${matchedFiles === 1 ? '' : 's'} for /${input.pattern}/:\n\n${matches.join('\n')}`;
+      if (matchCount > matches.length) {
+        result += `\n\n(${matchCount - matches.length} more matches not shown)`;
+      }
+      return result;
+    } catch (error) {
+      throw new Error(`Grep failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+const COMMAND_ENV_SCHEMA = {
+  type: 'object',
+  description: 'Extra environment variables; only names on the runner\'s allowlist are accepted'
+};
+
+function resolveCwd(cwd: string | undefined, workspace: Workspace): string {
+  return cwd ? workspace.resolve(cwd, { directory: true }) : workspace.root;
+}
+
+function formatCommandResult(result: CommandResult): string {
+  const sections: string[] = [];
+  if (result.stdout) sections.push(`Output:\n${result.stdout.trimEnd()}`);
+  if (result.stderr) sections.push(`Errors:\n${result.stderr.trimEnd()}`);
+  if (sections.length === 0) sections.push('(no output)');
+  const ending = result.exitCode !== null ? `Exit code: ${result.exitCode}` : `Killed by ${result.signal}`;
+  sections.push(`${ending} (${(result.durationMs / 1000).toFixed(1)}s)`);
+  return sections.join('\n\n');
+}
+
+function formatProcessStatus(status: ProcessStatus): string {
+  const state = status.running
+    ? `is running (pid ${status.pid}, ${Math.round(status.durationMs / 1000)}s)`
+    : status.exitCode !== null ? `exited with code ${status.exitCode}` : `was killed by ${status.signal}`;
+  let result = `Process ${status.id} (${status.command}) ${state}.`;
+  if (status.droppedChars > 0) {
+    result += `\n[${status.droppedChars} characters of earlier output were dropped before this poll]`;
+  }
+  result += status.output ? `\n\nNew output:\n${status.output}` : '\n\nNo new output.';
+  return result;
+}
+
 export const executeCommandTool: Tool = {
   name: 'execute_command',
-  description: 'Execute a shell command and return the output',
+  description: 'Execute a shell command and return its output and exit code. Long output keeps only its beginning and end. ' +
+    'Use start_process instead for servers, watchers and other commands that do not finish on their own.',
   input_schema: {
     type: 'object',
     properties: {
       command: {
         type: 'string',
         description: 'The shell command to execute'
-      }
+      },
+      timeout_ms: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Kill the command after this many milliseconds (default 30000, capped by the runner)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Working directory relative to the workspace root (default: the root)'
+      },
+      env: COMMAND_ENV_SCHEMA
     },
     required: ['command']
   },
-  execute: async (input: { command: string }): Promise<string> => {
+  execute: async (input: { command: string; timeout_ms?: number; cwd?: string; env?: Record<string, string> }, context: ToolContext): Promise<string> => {
+    let result: CommandResult;
     try {
-      const { stdout, stderr } = await execAsync(input.command, {
-        timeout: 30000, // 30 second timeout
-        cwd: process.cwd()
+      result = await context.commands.run(input.command, {
+        cwd: resolveCwd(input.cwd, context.workspace),
+        env: input.env,
+        timeoutMs: input.timeout_ms,
+        signal: context.signal // kills the process group on cancellation
       });
-
-      let result = '';
-      if (stdout) result += `Output:\n${stdout}`;
-      if (stderr) result += `${result ? '\n\n' : ''}Errors:\n${stderr}`;
-      
-      return result || 'Command executed successfully with no output';
     } catch (error) {
       throw new Error(`Command execution failed: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    if (result.timedOut) {
+      throw new Error(`Command execution failed: timed out after ${context.commands.effectiveTimeout(input.timeout_ms)}ms\n\n${formatCommandResult(result)}`);
+    }
+    if (result.cancelled) {
+      throw new Error(`Command execution failed: cancelled\n\n${formatCommandResult(result)}`);
+    }
+    if (result.exitCode !== 0) {
+      throw new Error(`Command execution failed\n\n${formatCommandResult(result)}`);
+    }
+    return formatCommandResult(result);
+  }
+};
+
+export const startProcessTool: Tool = {
+  name: 'start_process',
+  description: 'Start a shell command in the background (a dev server, a watcher, a long build) and return its id. ' +
+    'Read its output with poll_process and stop it with kill_process.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      command: {
+        type: 'string',
+        description: 'The shell command to start'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Working directory relative to the workspace root (default: the root)'
+      },
+      env: COMMAND_ENV_SCHEMA
+    },
+    required: ['command']
+  },
+  execute: async (input: { command: string; cwd?: string; env?: Record<string, string> }, context: ToolContext): Promise<string> => {
+    const status = context.commands.start(input.command, { cwd: resolveCwd(input.cwd, context.workspace), env: input.env });
+    return `Started process ${status.id} (pid ${status.pid}): ${status.command}\nUse poll_process with id "${status.id}" to read its output.`;
+  }
+};
+
+export const pollProcessTool: Tool = {
+  name: 'poll_process',
+  description: 'Return the output a background process has produced since the last poll, and whether it is still running.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'The id returned by start_process'
+      },
+      wait_ms: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 60000,
+        description: 'If there is no new output yet, wait up to this long for some (default 0)'
+      }
+    },
+    required: ['id']
+  },
+  execute: async (input: { id: string; wait_ms?: number }, context: ToolContext): Promise<string> => {
+    return formatProcessStatus(await context.commands.poll(input.id, input.wait_ms ?? 0));
+  }
+};
+
+export const killProcessTool: Tool = {
+  name: 'kill_process',
+  description: 'Stop a background process started with start_process, along with everything it started.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'The id returned by start_process'
+      },
+      signal: {
+        type: 'string',
+        enum: ['SIGTERM', 'SIGINT', 'SIGKILL'],
+        description: 'Signal to send first (default SIGTERM); the process is killed if it has not exited 2s later'
+      }
+    },
+    required: ['id']
+  },
+  execute: async (input: { id: string; signal?: NodeJS.Signals }, context: ToolContext): Promise<string> => {
+    return formatProcessStatus(await context.commands.kill(input.id, input.signal));
+  }
+};
+
+// The shell may wander outside the workspace; those directories are shown in full
+function describeShellCwd(cwd: string, workspace: Workspace): string {
+  return workspace.contains(cwd) ? workspace.relative(cwd) : cwd;
+}
+
+export const shellTool: Tool = {
+  name: 'shell',
+  description: 'Run a command in a persistent bash session: the working directory and environment variables carry over to the next call. ' +
+    'Returns the combined output, the exit code and the working directory afterwards. Use reset to start over from a clean shell.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      command: {
+        type: 'string',
+        description: 'The command to run; stdin is empty, so interactive programs see end of input'
+      },
+      reset: {
+        type: 'boolean',
+        description: 'Kill the shell and forget its directory and variables before running the command'
+      },
+      timeout_ms: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 600000,
+        description: 'Kill the shell after this many milliseconds (default 30000); its directory and exported variables are restored'
+      }
+    },
+    required: []
+  },
+  execute: async (input: { command?: string; reset?: boolean; timeout_ms?: number }, context: ToolContext): Promise<string> => {
+    const shell = context.shell;
+    if (!shell) {
+      throw new Error('The shell tool is only available to an agent');
+    }
+
+    if (input.reset) {
+      shell.reset();
+    }
+    if (!input.command) {
+      if (input.reset) return `Shell reset.\nWorking directory: ${describeShellCwd(shell.workingDirectory, context.workspace)}`;
+      throw new Error('Provide a command, or reset: true');
+    }
+
+    const result = await shell.run(input.command, { timeoutMs: input.timeout_ms, signal: context.signal });
+    const sections = [
+      result.output.trimEnd() || '(no output)',
+      `Exit code: ${result.exitCode} (${(result.durationMs / 1000).toFixed(1)}s)\nWorking directory: ${describeShellCwd(result.cwd, context.workspace)}`
+    ];
+    if (result.shellExited) {
+      sections.push('The shell exited; the next command starts a new one with the last saved directory and exported variables.');
+    }
+    return sections.join('\n\n');
   }
 };
 
+const TEXT_CONTENT_TYPE = /^text\/|[/+](json|xml)\b|javascript|ecmascript|x-www-form-urlencoded|yaml|csv/i;
+const BINARY_CONTENT_TYPE = /^(image|audio|video|font)\/|pdf|zip|octet-stream/i;
+
+function formatHttpBody(response: HttpResponse, contentType: string, raw: boolean): string {
+  const body = response.body;
+  if (body.length === 0) return '(empty body)';
+  if (!TEXT_CONTENT_TYPE.test(contentType) && (BINARY_CONTENT_TYPE.test(contentType) || isBinary(body))) {
+    return `[Binary body: ${body.length} bytes${response.truncated ? ' read' : ''} of ${contentType || 'unknown type'}, not shown]`;
+  }
+
+  const text = body.toString('utf-8');
+  let formatted = text;
+  if (/json/i.test(contentType) && !response.truncated) {
+    try {
+      formatted = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      // Not valid JSON after all; show it as sent
+    }
+  } else if (/html/i.test(contentType) && !raw) {
+    formatted = htmlToText(text);
+  }
+
+  if (response.truncated) {
+    const total = response.declaredBytes !== null ? `${response.declaredBytes} bytes` : 'an unknown size';
+    formatted += `\n\n[Response truncated: read the first ${body.length} bytes of ${total}]`;
+  }
+  return formatted;
+}
+
 export const httpRequestTool: Tool = {
   name: 'http_request',
-  description: 'Make an HTTP request to a URL and return the response',
+  description: 'Make an HTTP request to a URL and return the response. HTML pages are converted to readable text, ' +
+    'binary bodies are summarized and long bodies are truncated. Local and private network addresses are refused.',
+  // POST, PUT, PATCH and DELETE have side effects, so only GET and HEAD run in parallel
+  concurrencySafe: (input: { method?: string }) => ['GET', 'HEAD'].includes(input?.method || 'GET'),
   input_schema: {
     type: 'object',
     properties: {
@@ -136,52 +720,92 @@ export const httpRequestTool: Tool = {
       },
       method: {
         type: 'string',
-        description: 'HTTP method (GET, POST, etc.)',
-        enum: ['GET', 'POST', 'PUT', 'DELETE']
+        description: 'HTTP method (default GET); HEAD returns only the status and headers',
+        enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD']
       },
       headers: {
         type: 'object',
         description: 'Optional HTTP headers'
       },
+      query: {
+        type: 'object',
+        description: 'Query parameters added to the URL, e.g. {"page": 2}'
+      },
       body: {
         type: 'string',
-        description: 'Optional request body for POST/PUT requests'
+        description: 'Optional raw request body'
+      },
+      json: {
+        description: 'A value sent as a JSON body with Content-Type application/json; use instead of body'
+      },
+      raw: {
+        type: 'boolean',
+        description: 'Return HTML as sent instead of converting it to text'
+      },
+      timeout_ms: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Give up after this many milliseconds (default 10000, capped by the client)'
       }
     },
     required: ['url']
   },
-  execute: async (input: { url: string; method?: string; headers?: Record<string, string>; body?: string }): Promise<string> => {
+  execute: async (input: {
+    url: string;
+    method?: HttpMethod;
+    headers?: Record<string, string>;
+    query?: Record<string, string | number | boolean>;
+    body?: string;
+    json?: unknown;
+    raw?: boolean;
+    timeout_ms?: number;
+  }, context: ToolContext): Promise<string> => {
+    const method = input.method || 'GET';
+    const headers = { ...input.headers };
+    let body = input.body;
+    if (input.json !== undefined) {
+      if (body !== undefined) {
+        throw new Error('HTTP request failed: give either body or json, not both');
+      }
+      body = JSON.stringify(input.json);
+      if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+
+    let response: HttpResponse;
     try {
-      const method = input.method || 'GET';
-      const headers = input.headers || {};
-      
-      const response = await fetch(input.url, {
+      response = await context.http.request(input.url, {
         method,
         headers,
-        body: input.body,
-        signal: AbortSignal.timeout(10000) // 10 second timeout
+        query: input.query,
+        body,
+        timeoutMs: input.timeout_ms,
+        signal: context.signal
       });
-
-      const contentType = response.headers.get('content-type') || '';
-      let responseBody: string;
-
-      if (contentType.includes('application/json')) {
-        const json = await response.json();
-        responseBody = JSON.stringify(json, null, 2);
-      } else {
-        responseBody = await response.text();
-      }
-
-      return `HTTP ${method} ${input.url}\nStatus: ${response.status} ${response.statusText}\nContent-Type: ${contentType}\n\nResponse:\n${responseBody}`;
     } catch (error) {
       throw new Error(`HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    const contentType = response.headers['content-type'] || '';
+    const lines = [`HTTP ${method} ${input.url}`];
+    if (response.redirects.length > 0) {
+      lines.push(`Redirected to: ${response.redirects.join(' -> ')}`);
+    }
+    lines.push(`Status: ${response.status} ${response.statusText}`, `Content-Type: ${contentType}`);
+
+    if (method === 'HEAD') {
+      const headerLines = Object.entries(response.headers).map(([name, value]) => `${name}: ${value}`);
+      return `${lines.join('\n')}\n\nHeaders:\n${headerLines.join('\n')}`;
+    }
+    return `${lines.join('\n')}\n\nResponse:\n${formatHttpBody(response, contentType, input.raw === true)}`;
   }
 };
 
 export const searchTool: Tool = {
   name: 'search',
-  description: 'Search the web using Brave Search API',
+  description: 'Search the web and return titles, URLs, snippets and publication dates. Use page for more results and freshness for recent ones.',
+  concurrencySafe: true,
   input_schema: {
     type: 'object',
     properties: {
@@ -195,6 +819,17 @@ export const searchTool: Tool = {
         minimum: 1,
         maximum: 20
       },
+      page: {
+        type: 'integer',
+        description: 'Page of results, starting at 1',
+        minimum: 1,
+        maximum: 10
+      },
+      freshness: {
+        type: 'string',
+        description: 'Only return results published in the last day, week, month or year',
+        enum: SEARCH_FRESHNESS
+      },
       country: {
         type: 'string',
         description: 'Country code for search results (e.g., US, UK, CA)',
@@ -203,89 +838,52 @@ export const searchTool: Tool = {
     },
     required: ['q']
   },
-  execute: async (input: { q: string; count?: number; country?: string }): Promise<string> => {
+  execute: async (input: { q: string; count?: number; page?: number; freshness?: SearchFreshness; country?: string }, context: ToolContext): Promise<string> => {
+    const page = input.page || 1;
+    const country = input.country || 'US';
+    let found: SearchPage;
     try {
-      const apiKey = process.env.BRAVE_API_KEY;
-      if (!apiKey) {
-        throw new Error('BRAVE_API_KEY environment variable is not set');
-      }
-
-      const params = new URLSearchParams({
-        q: input.q,
-        count: (input.count || 10).toString(),
-        country: input.country || 'US'
-      });
-
-      const response = await fetch(`https://api.search.brave.com/res/v1/web/search?${params}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Accept-Encoding': 'gzip',
-          'X-Subscription-Token': apiKey
-        },
-        signal: AbortSignal.timeout(10000) // 10 second timeout
-      });
-
-      if (!response.ok) {
-        throw new Error(`Brave Search API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      // Format the response for better readability
-      let result = `Search Results for: "${input.q}"\n`;
-      result += `Country: ${input.country || 'US'}, Results: ${data.web?.results?.length || 0}\n\n`;
-
-      if (data.web?.results) {
-        data.web.results.forEach((item: any, index: number) => {
-          result += `${index + 1}. ${item.title}\n`;
-          result += `   URL: ${item.url}\n`;
-          result += `   Description: ${item.description}\n\n`;
-        });
-      } else {
-        result += 'No search results found.\n';
-      }
-
-      return result;
+      found = await context.search.search({
+        query: input.q,
+        count: input.count || 10,
+        page,
+        freshness: input.freshness,
+        country
+      }, context.signal);
     } catch (error) {
       throw new Error(`Search failed: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    let result = `Search Results for: "${input.q}"\n`;
+    result += `Provider: ${context.search.name}, Country: ${country}, Page: ${page}${input.freshness ? `, Freshness: past ${input.freshness}` : ''}, Results: ${found.results.length}\n\n`;
+
+    if (found.results.length === 0) {
+      return `${result}No search results found.\n`;
+    }
+    found.results.forEach((item, index) => {
+      result += `${index + 1}. ${item.title}\n`;
+      result += `   URL: ${item.url}\n`;
+      if (item.publishedAt) result += `   Published: ${item.publishedAt}\n`;
+      result += `   Description: ${item.snippet}\n\n`;
+    });
+    if (found.moreAvailable) {
+      result += `More results are available with page ${page + 1}.\n`;
+    }
+    return result;
   }
 };
 
 export const todoWriteTool: Tool = {
   name: 'todo_write',
-  description: 'Write and update a todo list to track task progress. The tool replaces the entire todo list with the provided todos.',
+  description: 'Write and update a todo list to track task progress. The tool replaces the entire todo list with the provided todos. ' +
+    'Use dependsOn for items that need others finished first, and record what was done (or why it failed) in result.',
   input_schema: {
     type: 'object',
     properties: {
       todos: {
         type: 'array',
         description: 'The updated todo list',
-        items: {
-          type: 'object',
-          properties: {
-            content: {
-              type: 'string',
-              description: 'The todo item description'
-            },
-            status: {
-              type: 'string',
-              enum: ['pending', 'in_progress', 'completed'],
-              description: 'Current status of the todo item'
-            },
-            priority: {
-              type: 'string',
-              enum: ['high', 'medium', 'low'],
-              description: 'Priority level of the todo item'
-            },
-            id: {
-              type: 'string',
-              description: 'Unique identifier for the todo item'
-            }
-          },
-          required: ['content', 'status', 'priority', 'id']
-        }
+        items: TODO_ITEM_SCHEMA
       }
     },
     required: ['todos']
@@ -293,22 +891,15 @@ export const todoWriteTool: Tool = {
   execute: async (input: TodoWriteInput): Promise<string> => {
     // This tool execution is handled specially by the Agent class
     // It returns a formatted response for the conversation
-    const completedCount = input.todos.filter(todo => todo.status === 'completed').length;
-    const inProgressCount = input.todos.filter(todo => todo.status === 'in_progress').length;
-    const pendingCount = input.todos.filter(todo => todo.status === 'pending').length;
+    const counts = countTodos(input.todos);
     
     let result = `Todos updated successfully!\n\n`;
-    result += `Progress: ${completedCount} completed, ${inProgressCount} in progress, ${pendingCount} pending\n\n`;
+    result += `Progress: ${counts.completed} completed, ${counts.in_progress} in progress, ${counts.pending} pending`;
+    const settled = (['blocked', 'failed', 'cancelled'] as const).filter(status => counts[status] > 0);
+    result += settled.map(status => `, ${counts[status]} ${status}`).join('') + '\n\n';
     
     if (input.todos.length > 0) {
-      result += `Current todos:\n`;
-      input.todos.forEach((todo, index) => {
-        const statusIcon = todo.status === 'completed' ? '✅' : 
-                          todo.status === 'in_progress' ? '🔄' : '⏳';
-        const priorityIcon = todo.priority === 'high' ? '🔴' : 
-                            todo.priority === 'medium' ? '🟡' : '🟢';
-        result += `${index + 1}. ${statusIcon} ${priorityIcon} ${todo.content}\n`;
-      });
+      result += `Current todos:\n${formatTodoList(input.todos)}\n`;
     } else {
       result += `No todos in the list.`;
     }
@@ -340,7 +931,16 @@ export const executeSequenceTool: Tool = {
 // Create and export default registry with tools
 export const defaultToolRegistry = new ToolRegistry();
 defaultToolRegistry.register(readFileTool);
+defaultToolRegistry.register(writeFileTool);
+defaultToolRegistry.register(editFileTool);
+defaultToolRegistry.register(listDirectoryTool);
+defaultToolRegistry.register(globTool);
+defaultToolRegistry.register(grepTool);
 defaultToolRegistry.register(executeCommandTool);
+defaultToolRegistry.register(startProcessTool);
+defaultToolRegistry.register(pollProcessTool);
+defaultToolRegistry.register(killProcessTool);
+defaultToolRegistry.register(shellTool);
 defaultToolRegistry.register(httpRequestTool);
 defaultToolRegistry.register(searchTool);
 defaultToolRegistry.register(todoWriteTool);
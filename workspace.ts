@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from './glob';
+
+export interface WorkspaceOptions {
+  /** Directory all file access is confined to (defaults to the current directory) */
+  root?: string;
+  /** If non-empty, files must match one of these globs to be accessible */
+  allow?: string[];
+  /** Globs that are never accessible, checked before `allow` */
+  deny?: string[];
+  /** Largest file, in bytes, that may be read or written */
+  maxFileSize?: number;
+}
+
+export const DEFAULT_DENY_PATTERNS = ['.env', '.env.*', '.git/'];
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+const MAX_WALKED_FILES = 10000;
+
+export class WorkspaceAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+  }
+}
+
+export type FileRead =
+  | { binary: false; path: string; size: number; content: string }
+  | { binary: true; path: string; size: number };
+
+export interface ResolveOptions {
+  /** Directories are exempt from the allow list so their contents can be reached */
+  directory?: boolean;
+}
+
+/**
+ * The sandbox shared by every file-touching tool. Paths are resolved to real
+ * paths (following symlinks) and must stay under the root, then checked
+ * against the deny and allow globs.
+ */
+export class Workspace {
+  readonly root: string;
+  readonly maxFileSize: number;
+  private allow: { pattern: string; regex: RegExp }[];
+  private deny: { pattern: string; regex: RegExp }[];
+
+  constructor(options: WorkspaceOptions = {}) {
+    this.root = fs.realpathSync(path.resolve(options.root || process.cwd()));
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.allow = (options.allow || []).map(pattern => ({ pattern, regex: globToRegExp(pattern) }));
+    this.deny = (options.deny ?? DEFAULT_DENY_PATTERNS).map(pattern => ({ pattern, regex: globToRegExp(pattern) }));
+  }
+
+  /** Returns the real absolute path for `filePath`, or throws `WorkspaceAccessError` */
+  resolve(filePath: string, options: ResolveOptions = {}): string {
+    const realPath = realPathOfNearestExisting(path.resolve(this.root, filePath));
+    const relative = path.relative(this.root, realPath);
+
+    if (!this.contains(realPath)) {
+      throw new WorkspaceAccessError(`Access denied: ${filePath} is outside the workspace`);
+    }
+
+    if (relative === '') {
+      return realPath;
+    }
+
+    const reason = this.denialReason(relative, options.directory === true);
+    if (reason) {
+      throw new WorkspaceAccessError(`Access denied: ${filePath} ${reason}`);
+    }
+
+    return realPath;
+  }
+
+  /** Forward-slash path relative to the root, for display and glob matching */
+  /** Whether `absolutePath` is the root or inside it; `..cache` is a name, not a way out */
+  contains(absolutePath: string): boolean {
+    const relative = path.relative(this.root, absolutePath);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+  }
+
+  relative(absolutePath: string): string {
+    return path.relative(this.root, absolutePath).split(path.sep).join('/') || '.';
+  }
+
+  isAccessible(absolutePath: string, directory = false): boolean {
+    const relative = path.relative(this.root, absolutePath);
+    return relative === '' || this.denialReason(relative, directory) === null;
+  }
+
+  readFile(filePath: string): FileRead {
+    const realPath = this.resolve(filePath);
+    const size = fs.statSync(realPath).size;
+    this.assertSize(filePath, size);
+
+    const buffer = fs.readFileSync(realPath);
+    if (isBinary(buffer)) {
+      return { binary: true, path: realPath, size };
+    }
+    return { binary: false, path: realPath, size, content: buffer.toString('utf-8') };
+  }
+
+  /** Reads a text file, refusing binary content */
+  readText(filePath: string): string {
+    const file = this.readFile(filePath);
+    if (file.binary) {
+      throw new Error(`${filePath} is a binary file (${file.size} bytes)`);
+    }
+    return file.content;
+  }
+
+  writeFile(filePath: string, content: string): { path: string; bytes: number; created: boolean } {
+    const realPath = this.resolve(filePath);
+    const bytes = Buffer.byteLength(content, 'utf-8');
+    this.assertSize(filePath, bytes);
+
+    const created = !fs.existsSync(realPath);
+    fs.mkdirSync(path.dirname(realPath), { recursive: true });
+    fs.writeFileSync(realPath, content, 'utf-8');
+    return { path: realPath, bytes, created };
+  }
+
+  /** Lists accessible files under a directory, skipping node_modules and denied paths */
+  listFiles(directory: string): string[] {
+    const root = this.resolve(directory, { directory: true });
+    const files: string[] = [];
+    const pending = [root];
+
+    while (pending.length > 0 && files.length < MAX_WALKED_FILES) {
+      const current = pending.pop()!;
+      for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+        const fullPath = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          if (!SKIPPED_DIRECTORIES.has(entry.name) && this.isAccessible(fullPath, true)) pending.push(fullPath);
+        } else if (entry.isFile() && this.isAccessible(fullPath)) {
+          files.push(fullPath);
+        }
+      }
+    }
+
+    return files.sort();
+  }
+
+  private denialReason(relative: string, directory: boolean): string | null {
+    const normalized = relative.split(path.sep).join('/');
+    // Match directories with a trailing slash so `.git/` style patterns apply to them too
+    const candidates = directory ? [normalized, `${normalized}/`] : [normalized];
+
+    const denied = this.deny.find(rule => candidates.some(candidate => rule.regex.test(candidate)));
+    if (denied) {
+      return `matches deny pattern ${denied.pattern}`;
+    }
+
+    if (!directory && this.allow.length > 0 && !this.allow.some(rule => rule.regex.test(normalized))) {
+      return 'is not covered by the allow list';
+    }
+
+    return null;
+  }
+
+  private assertSize(filePath: string, size: number): void {
+    if (size > this.maxFileSize) {
+      throw new Error(`${filePath} is ${size} bytes, larger than the ${this.maxFileSize} byte limit`);
+    }
+  }
+}
+
+function realPathOfNearestExisting(absolutePath: string): string {
+  // Resolve symlinks on the longest existing prefix; the rest does not exist yet
+  let existing = absolutePath;
+  const missing: string[] = [];
+
+  while (!pathExists(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    missing.unshift(path.basename(existing));
+    existing = parent;
+  }
+
+  try {
+    return path.join(fs.realpathSync(existing), ...missing);
+  } catch {
+    // A dangling symlink could point anywhere once its target is created
+    throw new WorkspaceAccessError(`Access denied: ${existing} is a broken symbolic link`);
+  }
+}
+
+function pathExists(candidate: string): boolean {
+  try {
+    fs.lstatSync(candidate);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isBinary(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8000);
+  if (sample.includes(0)) {
+    return true;
+  }
+
+  // Treat content with many control characters as binary too
+  let suspicious = 0;
+  for (const byte of sample) {
+    if (byte < 7 || (byte > 13 && byte < 32)) suspicious++;
+  }
+  return sample.length > 0 && suspicious / sample.length > 0.1;
+}
+
+export const defaultWorkspace = new Workspace();